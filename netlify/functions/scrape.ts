@@ -0,0 +1,8 @@
+import { createScrapeProxy, scrapeProxyConfigFromEnv } from '../../server/scrapeProxy';
+
+// Deployed at /.netlify/functions/scrape; set VITE_SCRAPE_PROXY_URL to that path to use it.
+// SCRAPE_PROXY_ALLOWED_DOMAINS must be set (to '*' for any public host), or every page is refused.
+// The cache lives as long as the function instance stays warm.
+const handle = createScrapeProxy(scrapeProxyConfigFromEnv(process.env));
+
+export default (request: Request) => handle(request);
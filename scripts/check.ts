@@ -0,0 +1,24 @@
+// The harness shared by the check-based test scripts: checks run one after another, a failure is
+// printed and counted without stopping the rest, and finish() prints the tally and exit code.
+let failed = 0;
+let total = 0;
+
+export async function check(name: string, run: () => Promise<void> | void) {
+  total++;
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}\n   - ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function expect(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+export function finish(): never {
+  console.log(`\n${total - failed}/${total} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
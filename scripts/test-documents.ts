@@ -0,0 +1,115 @@
+// Checks the non-HTML extractors (PDF, plain text, Markdown, JSON) against the documents in
+// scripts/document-fixtures, and WebScraper's dispatch on Content-Type with a fake server.
+//
+//   npm run test-documents
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { pageAtOffset, type ExtractedContent } from '../src/lib/scraper/contentExtractor';
+import { DocumentExtractor, documentFormat } from '../src/lib/scraper/documentExtractors';
+import { NO_PAGE_CACHE } from '../src/lib/scraper/pageCache';
+import { RequestScheduler } from '../src/lib/scraper/requestScheduler';
+import { WebScraper } from '../src/lib/scraper/webScraper';
+import { check, expect, finish } from './check';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'document-fixtures');
+
+function fixtureBytes(name: string): ArrayBuffer {
+  const bytes = readFileSync(join(fixturesDir, name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+const fixtureText = (name: string) => readFileSync(join(fixturesDir, name), 'utf8');
+
+function pageText(extracted: ExtractedContent, page: number): string {
+  const range = extracted.pages?.find(candidate => candidate.page === page);
+  if (!range) throw new Error(`page ${page} missing`);
+  return extracted.content.slice(range.start, range.end);
+}
+
+async function main() {
+  const extractor = new DocumentExtractor();
+
+  await check('formats are picked from Content-Type and extension', () => {
+    const cases: Array<[string, string, string | null]> = [
+      ['text/html; charset=utf-8', 'https://example.com/', 'html'],
+      ['application/pdf', 'https://arxiv.org/pdf/2401.00001', 'pdf'],
+      ['application/octet-stream', 'https://example.gov/report.pdf', 'pdf'],
+      ['text/plain', 'https://www.rfc-editor.org/rfc/rfc9309.txt', 'text'],
+      ['text/plain', 'https://raw.githubusercontent.com/org/repo/main/README.md', 'markdown'],
+      ['application/ld+json', 'https://example.com/data', 'json'],
+      ['image/png', 'https://example.com/chart.png', null]
+    ];
+    cases.forEach(([contentType, url, format]) => {
+      const actual = documentFormat(contentType, url);
+      expect(actual === format, `${contentType} ${url}: expected ${format}, got ${actual}`);
+    });
+  });
+
+  await check('PDF text keeps its pages and document info', async () => {
+    const pdf = await extractor.extract(fixtureBytes('tidal-energy-report.pdf'), 'pdf', 'https://example.org/tidal.pdf');
+    expect(pdf.title === 'Tidal Energy Survey 2024', `title was "${pdf.title}"`);
+    expect(pdf.metadata.author === 'Marine Energy Office', `author was "${pdf.metadata.author}"`);
+    expect(pdf.metadata.publishedAt === '2025-03-14T12:00:00.000Z', `publishedAt was ${pdf.metadata.publishedAt}`);
+    expect(pdf.pages?.length === 2, `${pdf.pages?.length} pages`);
+    expect(pageText(pdf, 1).includes('41 gigawatt hours in 2024'), 'page 1 text missing or lines not joined');
+    expect(pageText(pdf, 2).startsWith('Maintenance and Outlook'), 'page 2 should start with its heading');
+    expect(pageAtOffset(pdf.pages, pdf.content.indexOf('third array')) === 2, 'offset lookup should give page 2');
+  });
+
+  await check('plain text splits pages on form feeds and drops running headers', async () => {
+    const text = await extractor.extract(fixtureText('polite-crawling-rfc.txt'), 'text', 'https://example.org/rfc9999.txt');
+    expect(text.title === 'Polite Crawling of Public Web Pages', `title was "${text.title}"`);
+    expect(text.pages?.map(page => page.page).join(',') === '1,2', `pages were ${text.pages?.map(page => page.page)}`);
+    expect(pageText(text, 2).includes('Crawl-delay between two requests'), 'page 2 text missing');
+    expect(!text.content.includes('[Page 1]') && !text.content.includes('RFC 9999    '), 'running header or footer kept');
+  });
+
+  await check('Markdown front matter becomes metadata', async () => {
+    const markdown = await extractor.extract(fixtureText('release-notes.md'), 'markdown', 'https://example.org/notes.md');
+    expect(markdown.title === 'Release notes: 2.4', `title was "${markdown.title}"`);
+    expect(markdown.metadata.author === 'Docs Team', `author was "${markdown.metadata.author}"`);
+    expect(markdown.metadata.keywords?.join(',') === 'release,scraper', `keywords were ${markdown.metadata.keywords}`);
+    expect(markdown.content.startsWith('# Version 2.4'), 'front matter should be stripped');
+    expect(markdown.pages?.length === 1 && markdown.pages[0].end === markdown.content.length, 'should be one page');
+  });
+
+  await check('JSON is rendered as readable lines', async () => {
+    const json = await extractor.extract(fixtureText('ferry-timetable.json'), 'json', 'https://example.org/ferries.json');
+    expect(json.title === 'Ferry timetable changes', `title was "${json.title}"`);
+    expect(json.metadata.author === 'Transit Desk', `author was "${json.metadata.author}"`);
+    expect(json.content.includes('  from: North Quay'), 'nested fields missing');
+  });
+
+  await check('WebScraper reads PDFs and text and rejects other binaries', async () => {
+    const originalFetch = globalThis.fetch;
+    const responses: Record<string, () => Response> = {
+      '/tidal.pdf': () => new Response(fixtureBytes('tidal-energy-report.pdf'), { headers: { 'Content-Type': 'application/pdf' } }),
+      '/rfc9999.txt': () => new Response(fixtureText('polite-crawling-rfc.txt'), { headers: { 'Content-Type': 'text/plain' } }),
+      '/chart.png': () => new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'Content-Type': 'image/png' } })
+    };
+    globalThis.fetch = async input => responses[new URL(input.toString()).pathname]();
+
+    try {
+      const scraper = new WebScraper({ respectRobotsTxt: false }, new RequestScheduler({ minHostIntervalMs: 0 }), NO_PAGE_CACHE);
+      const [pdf, text, image] = await scraper.scrapeMultiple([
+        'https://example.org/tidal.pdf',
+        'https://example.org/rfc9999.txt',
+        'https://example.org/chart.png'
+      ]);
+
+      expect(!(pdf instanceof Error) && pdf.format === 'pdf' && pdf.pages?.length === 2, 'PDF was not extracted');
+      expect(!(text instanceof Error) && text.format === 'text', 'text was not extracted');
+      expect(image instanceof Error && image.message.includes('Unsupported content type'), 'image should be rejected');
+
+      const clipped = await scraper.scrape('https://example.org/tidal.pdf', { maxContentLength: 100 });
+      expect(clipped.content.length === 100 && clipped.pages?.length === 1, 'long PDFs should be clipped with their pages');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  finish();
+}
+
+main();
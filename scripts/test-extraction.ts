@@ -0,0 +1,63 @@
+// Checks main-content extraction against saved pages in scripts/extraction-fixtures.
+//
+//   npm run test-extraction                # compare every <name>.html with <name>.md
+//   npm run test-extraction -- --update    # rewrite the expected .md files from current output
+//
+// Exits with 1 when any page's extracted Markdown differs from its expected file.
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ContentExtractor } from '../src/lib/scraper/contentExtractor';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'extraction-fixtures');
+
+function firstDifference(actual: string, expected: string): string {
+  const actualLines = actual.split('\n');
+  const expectedLines = expected.split('\n');
+
+  for (let i = 0; i < Math.max(actualLines.length, expectedLines.length); i++) {
+    if (actualLines[i] !== expectedLines[i]) {
+      return `line ${i + 1}\n     expected: ${JSON.stringify(expectedLines[i] ?? '<end>')}\n     actual:   ${JSON.stringify(actualLines[i] ?? '<end>')}`;
+    }
+  }
+  return 'no difference';
+}
+
+async function main() {
+  const update = process.argv.includes('--update');
+  const pages = readdirSync(fixturesDir).filter(file => file.endsWith('.html')).sort();
+  const extractor = new ContentExtractor();
+  let failed = 0;
+
+  for (const page of pages) {
+    const name = page.replace(/\.html$/, '');
+    const expectedPath = join(fixturesDir, `${name}.md`);
+    const html = readFileSync(join(fixturesDir, page), 'utf8');
+    const { content } = await extractor.extract(html, `https://example.com/${name}`);
+
+    if (update) {
+      writeFileSync(expectedPath, `${content}\n`);
+      console.log(`📝 ${name}: expected output updated`);
+      continue;
+    }
+
+    if (!existsSync(expectedPath)) {
+      console.log(`❌ ${name}: missing ${name}.md (run with --update to create it)`);
+      failed++;
+      continue;
+    }
+
+    const expected = readFileSync(expectedPath, 'utf8').trimEnd();
+    if (content === expected) {
+      console.log(`✅ ${name}`);
+    } else {
+      console.log(`❌ ${name}: differs at ${firstDifference(content, expected)}`);
+      failed++;
+    }
+  }
+
+  if (!update) console.log(`\n${pages.length - failed}/${pages.length} pages match`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,163 @@
+// Checks the shared page cache: freshness, conditional revalidation, canonical and variant keys and the file
+// store, with a fake server so no network is needed.
+//
+//   npm run test-page-cache
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FilePageCacheStore } from '../server/filePageCacheStore';
+import {
+  canonicalUrl,
+  extractionVariant,
+  MemoryPageCacheStore,
+  PageCache,
+  pageCacheKey,
+  type PageFetchResult
+} from '../src/lib/scraper/pageCache';
+import { RequestScheduler } from '../src/lib/scraper/requestScheduler';
+import { WebScraper } from '../src/lib/scraper/webScraper';
+import { check, expect, finish } from './check';
+
+const page = (headline: string) => `<html><head><title>${headline}</title></head><body><article>
+  <h1>${headline}</h1>
+  <p>The library extended its weekend opening hours from this month, keeping the reading rooms open until 8 p.m. on Saturdays and adding Sunday afternoons for the first time since the renovation.</p>
+</article></body></html>`;
+
+// One page whose version can be bumped; answers 304 when the client already has it
+let version = 1;
+let downloads = 0;
+let notModified = 0;
+let lastConditionalHeader: string | null = null;
+
+const fakeFetch: typeof fetch = async (_input, init) => {
+  const etag = `"v${version}"`;
+  lastConditionalHeader = new Headers(init?.headers).get('if-none-match');
+
+  if (lastConditionalHeader === etag) {
+    notModified++;
+    return new Response(null, { status: 304, headers: { ETag: etag } });
+  }
+
+  downloads++;
+  return new Response(page(version === 1 ? 'Library opens on Sundays' : 'Library hours extended again'), {
+    headers: { 'Content-Type': 'text/html', ETag: etag }
+  });
+};
+
+function reset() {
+  version = 1;
+  downloads = 0;
+  notModified = 0;
+}
+
+async function main() {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fakeFetch;
+  const scheduler = new RequestScheduler({ minHostIntervalMs: 0 });
+  const options = { respectRobotsTxt: false };
+  const cacheDir = await mkdtemp(join(tmpdir(), 'page-cache-'));
+
+  try {
+    await check('canonical URLs ignore fragments, tracking parameters and parameter order', () => {
+      const expected = 'https://news.example.com/story?a=1&b=2';
+      expect(canonicalUrl('https://News.Example.com/story?b=2&utm_source=x&a=1#comments') === expected,
+        canonicalUrl('https://News.Example.com/story?b=2&utm_source=x&a=1#comments'));
+    });
+
+    await check('fresh pages are served from the cache', async () => {
+      reset();
+      const scraper = new WebScraper(options, scheduler, new PageCache([new MemoryPageCacheStore()]));
+      await scraper.scrape('https://news.example.com/library');
+      const second = await scraper.scrape('https://news.example.com/library?utm_campaign=share#top');
+      expect(downloads === 1, `page was downloaded ${downloads} times`);
+      expect(second.title === 'Library opens on Sundays', `unexpected title "${second.title}"`);
+    });
+
+    await check('concurrent scrapes of one page share a request', async () => {
+      reset();
+      const scraper = new WebScraper(options, scheduler, new PageCache([new MemoryPageCacheStore()]));
+      await scraper.scrapeMultiple(['https://news.example.com/library', 'https://news.example.com/library']);
+      expect(downloads === 1, `page was downloaded ${downloads} times`);
+    });
+
+    await check('stale pages are revalidated and a 304 keeps the stored content', async () => {
+      reset();
+      const scraper = new WebScraper(options, scheduler, new PageCache([new MemoryPageCacheStore()], { maxAgeMs: 0 }));
+      await scraper.scrape('https://news.example.com/library');
+      const revalidated = await scraper.scrape('https://news.example.com/library');
+      expect(lastConditionalHeader === '"v1"', `If-None-Match was ${lastConditionalHeader}`);
+      expect(downloads === 1 && notModified === 1, `${downloads} downloads, ${notModified} not-modified answers`);
+      expect(revalidated.title === 'Library opens on Sundays', `unexpected title "${revalidated.title}"`);
+    });
+
+    await check('changed pages are downloaded again', async () => {
+      reset();
+      const scraper = new WebScraper(options, scheduler, new PageCache([new MemoryPageCacheStore()], { maxAgeMs: 0 }));
+      await scraper.scrape('https://news.example.com/library');
+      version = 2;
+      const changed = await scraper.scrape('https://news.example.com/library');
+      expect(downloads === 2, `page was downloaded ${downloads} times`);
+      expect(changed.title === 'Library hours extended again', `unexpected title "${changed.title}"`);
+    });
+
+    await check('variants of one page keep their own content and validators', async () => {
+      const cache = new PageCache([new MemoryPageCacheStore()], { maxAgeMs: 0 });
+      const requests: Record<string, string>[] = [];
+      const fetchAs = (title: string, etag: string) => async (conditionalHeaders: Record<string, string>): Promise<PageFetchResult> => {
+        requests.push(conditionalHeaders);
+        return conditionalHeaders['If-None-Match'] === etag
+          ? { notModified: true }
+          : { notModified: false, content: { title, content: title, metadata: {}, readabilityScore: 0 }, etag };
+      };
+
+      await cache.resolve('https://news.example.com/library', undefined, fetchAs('Whole page', '"page"'));
+      await cache.resolve('https://news.example.com/library', 'article-body', fetchAs('Article body', '"body"'));
+      const page = await cache.resolve('https://news.example.com/library', undefined, fetchAs('Whole page', '"page"'));
+      const body = await cache.resolve('https://news.example.com/library', 'article-body', fetchAs('Article body', '"body"'));
+
+      expect(page.title === 'Whole page' && body.title === 'Article body', `titles were "${page.title}" and "${body.title}"`);
+      expect(requests[2]['If-None-Match'] === '"page"' && requests[3]['If-None-Match'] === '"body"',
+        `If-None-Match were ${requests.map(headers => headers['If-None-Match']).join(', ')}`);
+    });
+
+    await check('pages cut to different lengths are cached apart', async () => {
+      reset();
+      const cache = new PageCache([new MemoryPageCacheStore()]);
+      const short = await new WebScraper({ ...options, maxContentLength: 120 }, scheduler, cache).scrape('https://news.example.com/library');
+      const full = await new WebScraper(options, scheduler, cache).scrape('https://news.example.com/library');
+      expect(downloads === 2, `page was downloaded ${downloads} times`);
+      expect(!short.content.includes('renovation') && full.content.includes('renovation'),
+        'the full scrape got the truncated extraction');
+    });
+
+    await check('useCache: false always downloads', async () => {
+      reset();
+      const scraper = new WebScraper({ ...options, useCache: false }, scheduler, new PageCache([new MemoryPageCacheStore()]));
+      await scraper.scrape('https://news.example.com/library');
+      await scraper.scrape('https://news.example.com/library');
+      expect(downloads === 2, `page was downloaded ${downloads} times`);
+    });
+
+    await check('the file store keeps pages across cache instances', async () => {
+      reset();
+      const limited = { ...options, maxContentLength: 20000 };
+      const first = new WebScraper(limited, scheduler, new PageCache([new FilePageCacheStore(cacheDir)]));
+      await first.scrape('https://news.example.com/library');
+
+      const memory = new MemoryPageCacheStore();
+      const second = new WebScraper(limited, scheduler, new PageCache([memory, new FilePageCacheStore(cacheDir)]));
+      const content = await second.scrape('https://news.example.com/library');
+      expect(downloads === 1, `page was downloaded ${downloads} times`);
+      expect(content.title === 'Library opens on Sundays', `unexpected title "${content.title}"`);
+      const key = pageCacheKey('https://news.example.com/library', extractionVariant({ maxContentLength: 20000 }));
+      expect((await memory.get(key)) !== null, 'hit was not copied to memory');
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main();
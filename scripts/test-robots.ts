@@ -0,0 +1,178 @@
+// Checks robots.txt matching and the request scheduler's per-host limits, with fetches faked so
+// no network is needed.
+//
+//   npm run test-robots
+import { crawlDelayFor, isPathAllowed, parseRobotsTxt, RobotsTxtCache } from '../src/lib/scraper/robotsTxt';
+import { RequestScheduler } from '../src/lib/scraper/requestScheduler';
+import { WebScraper, scrapeSkipReason } from '../src/lib/scraper/webScraper';
+import { check, expect, finish } from './check';
+
+const ROBOTS = `
+# Comments and blank lines are ignored
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Disallow: /*.pdf$
+Crawl-delay: 0.1
+
+User-agent: BadBot
+User-agent: LiveLLMAgent
+Disallow: /search
+Allow: /search/help
+`;
+
+const ARTICLE = `<html><head><title>Harbour reopens</title></head><body><article>
+  <h1>Harbour reopens</h1>
+  <p>The harbour reopened to ferries on Monday after three weeks of dredging, with the first crossing leaving at 6 a.m. and all routes expected back on the normal timetable by Friday.</p>
+</article></body></html>`;
+
+const robotsFiles: Record<string, { status: number; body?: string }> = {
+  'https://news.example.com/robots.txt': { status: 200, body: 'User-agent: *\nDisallow: /drafts/\nCrawl-delay: 0.1' },
+  'https://open.example.com/robots.txt': { status: 404 },
+  'https://down.example.com/robots.txt': { status: 503 },
+  'https://slow.example.com/robots.txt': { status: 200, body: 'User-agent: *\nCrawl-delay: 30' }
+};
+
+let robotsRequests = 0;
+
+const fakeFetch: typeof fetch = async input => {
+  const url = input.toString();
+  if (url.endsWith('/robots.txt')) {
+    robotsRequests++;
+    const file = robotsFiles[url] || { status: 404 };
+    return new Response(file.body || '', { status: file.status });
+  }
+  return new Response(ARTICLE, { headers: { 'Content-Type': 'text/html' } });
+};
+
+async function main() {
+  const robots = parseRobotsTxt(ROBOTS);
+
+  await check('the longest matching rule decides', () => {
+    expect(!isPathAllowed(robots, '/private/notes', 'GenericBot'), '/private/notes should be disallowed');
+    expect(isPathAllowed(robots, '/private/press/release', 'GenericBot'), '/private/press/ should be allowed');
+    expect(isPathAllowed(robots, '/public', 'GenericBot'), 'unlisted paths should be allowed');
+  });
+
+  await check('wildcards and end anchors', () => {
+    expect(!isPathAllowed(robots, '/files/report.pdf', 'GenericBot'), '*.pdf$ should match');
+    expect(isPathAllowed(robots, '/files/report.pdf?download=1', 'GenericBot'), '$ should anchor the end');
+  });
+
+  await check('a group naming our agent replaces the * group', () => {
+    expect(!isPathAllowed(robots, '/search?q=ferries', 'LiveLLMAgent'), '/search should be disallowed');
+    expect(isPathAllowed(robots, '/search/help', 'LiveLLMAgent'), '/search/help should be allowed');
+    expect(isPathAllowed(robots, '/private/notes', 'LiveLLMAgent'), 'the * rules should not apply');
+    expect(crawlDelayFor(robots, 'LiveLLMAgent') === undefined, 'the * crawl-delay should not apply');
+    expect(crawlDelayFor(robots, 'GenericBot') === 0.1, 'crawl-delay should be read in seconds');
+  });
+
+  await check('missing robots.txt allows everything, 5xx disallows everything', async () => {
+    const cache = new RobotsTxtCache({ fetch: fakeFetch });
+    expect(isPathAllowed(await cache.get('https://open.example.com'), '/anything', 'LiveLLMAgent'), '404 should allow');
+    expect(!isPathAllowed(await cache.get('https://down.example.com'), '/anything', 'LiveLLMAgent'), '503 should disallow');
+  });
+
+  await check('robots.txt is fetched once per origin', async () => {
+    const cache = new RobotsTxtCache({ fetch: fakeFetch });
+    const before = robotsRequests;
+    await Promise.all([cache.get('https://news.example.com'), cache.get('https://news.example.com')]);
+    await cache.get('https://news.example.com');
+    expect(robotsRequests - before === 1, `fetched ${robotsRequests - before} times`);
+  });
+
+  await check('requests to one host respect the concurrency limit and crawl-delay', async () => {
+    const scheduler = new RequestScheduler({
+      maxConcurrentPerHost: 1,
+      minHostIntervalMs: 0,
+      robots: new RobotsTxtCache({ fetch: fakeFetch })
+    });
+    const starts: number[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all([1, 2, 3].map(n => scheduler.schedule(`https://news.example.com/story/${n}`, async () => {
+      starts.push(Date.now());
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+    })));
+
+    expect(maxActive === 1, `${maxActive} requests ran at once`);
+    const gaps = starts.slice(1).map((start, i) => start - starts[i]);
+    expect(gaps.every(gap => gap >= 95), `starts were ${gaps.join(', ')}ms apart, expected the 100ms crawl-delay`);
+  });
+
+  await check('different hosts run side by side', async () => {
+    const scheduler = new RequestScheduler({ robots: new RobotsTxtCache({ fetch: fakeFetch }) });
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(['https://a.example.org/', 'https://b.example.org/', 'https://c.example.org/'].map(url =>
+      scheduler.schedule(url, async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 30));
+        active--;
+      }, { respectRobotsTxt: false })
+    ));
+
+    expect(maxActive === 3, `only ${maxActive} hosts ran at once`);
+  });
+
+  await check('requests that can\'t start before their deadline are dropped, not waited on', async () => {
+    const scheduler = new RequestScheduler({
+      maxConcurrentPerHost: 1,
+      robots: new RobotsTxtCache({ fetch: fakeFetch })
+    });
+    const started = Date.now();
+    const [first, second] = await Promise.allSettled([1, 2].map(n =>
+      scheduler.schedule(`https://slow.example.com/story/${n}`, async () => n, { deadline: Date.now() + 100 })
+    ));
+    expect(first.status === 'fulfilled', 'first request should run');
+    expect(second.status === 'rejected' && scrapeSkipReason(second.reason) === 'queue_timeout',
+      `second request gave ${second.status === 'rejected' ? second.reason.message : 'a result'}`);
+    expect(Date.now() - started < 1000, `waited ${Date.now() - started}ms for a 30s Crawl-delay`);
+
+    // A request that gives up waiting for a slot leaves the line; the next one still gets its turn
+    let release = () => {};
+    const busy = scheduler.schedule('https://a.example.org/1', () => new Promise<void>(resolve => (release = resolve)), { respectRobotsTxt: false });
+    const impatient = scheduler.schedule('https://a.example.org/2', async () => 'ran', { respectRobotsTxt: false, deadline: Date.now() + 20 });
+    const patient = scheduler.schedule('https://a.example.org/3', async () => 'ran', { respectRobotsTxt: false });
+    const impatientResult = await impatient.catch((error: Error) => error);
+    release();
+    await busy;
+    expect(impatientResult instanceof Error && scrapeSkipReason(impatientResult) === 'queue_timeout', 'waiting past the deadline should fail');
+    expect(await patient === 'ran', 'the request behind it should still run');
+  });
+
+  await check('WebScraper reports disallowed pages as robots_disallowed', async () => {
+    const originalFetch = globalThis.fetch;
+    let pageRequests = 0;
+    globalThis.fetch = async (input, init) => {
+      if (!input.toString().endsWith('/robots.txt')) pageRequests++;
+      return fakeFetch(input, init);
+    };
+
+    try {
+      const scheduler = new RequestScheduler({ robots: new RobotsTxtCache({ fetch: fakeFetch }) });
+      const scraper = new WebScraper({}, scheduler);
+      const [allowed, disallowed] = await scraper.scrapeMultiple([
+        'https://news.example.com/story/harbour',
+        'https://news.example.com/drafts/harbour'
+      ]);
+
+      expect(!(allowed instanceof Error) && allowed.title === 'Harbour reopens', 'allowed page should be scraped');
+      expect(disallowed instanceof Error && scrapeSkipReason(disallowed) === 'robots_disallowed',
+        `disallowed page gave ${disallowed instanceof Error ? disallowed.message : 'content'}`);
+      expect(pageRequests === 1, `${pageRequests} pages were requested`);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  finish();
+}
+
+main();
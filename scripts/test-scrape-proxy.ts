@@ -0,0 +1,206 @@
+// Exercises the scrape proxy through a local instance, with upstream fetches and DNS faked so
+// no network is needed. WebScraper is pointed at the instance the same way the app would be.
+//
+//   npm run test-scrape-proxy
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { Agent, fetch as undiciFetch } from 'undici';
+import { startLocalScrapeProxy } from '../server/localScrapeProxy';
+import { pinnedLookup, type ScrapeProxyConfig } from '../server/scrapeProxy';
+import { WebScraper } from '../src/lib/scraper/webScraper';
+import { check, expect, finish } from './check';
+
+const ARTICLE = `<html><head><title>Night buses approved</title></head><body><article>
+  <h1>Night buses approved</h1>
+  <p>The council voted on Tuesday to launch six night bus routes, the first overnight service in the city since 2009, linking the hospital and the university with the centre.</p>
+  <p>Routes will run every 30 minutes between midnight and 5 a.m. and are paid for from the parking levy.</p>
+</article></body></html>`;
+
+// Public test hosts resolve to documentation-free public addresses; internal ones to private ranges
+const DNS: Record<string, string[]> = {
+  'www.reddit.com': ['151.101.1.140'],
+  'example.com': ['93.184.215.14'],
+  'news.example.com': ['93.184.215.15'],
+  'other.org': ['104.16.0.1'],
+  'internal.corp': ['10.0.0.5'],
+  'sneaky.example.com': ['93.184.215.16', '127.0.0.1'],
+  localhost: ['127.0.0.1']
+};
+
+const PDF = readFileSync(new URL('./document-fixtures/tidal-energy-report.pdf', import.meta.url));
+
+let upstreamRequests = 0;
+let lastDispatcher: unknown;
+
+const fakeFetch: typeof fetch = async (input, init) => {
+  upstreamRequests++;
+  lastDispatcher = (init as { dispatcher?: unknown } | undefined)?.dispatcher;
+  const url = new URL(input.toString());
+  const html = { 'Content-Type': 'text/html; charset=utf-8' };
+
+  switch (url.pathname) {
+    case '/redirect-to-internal':
+      return new Response(null, { status: 302, headers: { Location: 'http://localhost:8080/admin' } });
+    case '/redirect-to-article':
+      return new Response(null, { status: 301, headers: { Location: '/article' } });
+    case '/large':
+      return new Response('x'.repeat(5000), { headers: html });
+    case '/report.pdf':
+      return new Response(PDF, { headers: { 'Content-Type': 'application/pdf' } });
+    case '/image':
+      return new Response('GIF89a', { headers: { 'Content-Type': 'image/gif' } });
+    default:
+      return new Response(ARTICLE, { headers: html });
+  }
+};
+
+const baseConfig: ScrapeProxyConfig = {
+  allowedDomains: ['*'],
+  fetch: fakeFetch,
+  lookup: async hostname => {
+    if (!DNS[hostname]) throw new Error(`ENOTFOUND ${hostname}`);
+    return DNS[hostname];
+  }
+};
+
+async function expectStatus(proxyUrl: string, target: string, status: number) {
+  const response = await fetch(`${proxyUrl}/?url=${encodeURIComponent(target)}`);
+  const body = await response.json();
+  expect(response.status === status, `expected ${status}, got ${response.status} (${body.error || 'ok'})`);
+}
+
+async function main() {
+  const proxy = await startLocalScrapeProxy({ ...baseConfig, maxBytes: 4096 }, 0);
+  const allowlisted = await startLocalScrapeProxy({ ...baseConfig, allowedDomains: ['example.com'] }, 0);
+  const unconfigured = await startLocalScrapeProxy({ ...baseConfig, allowedDomains: [] }, 0);
+  const withOrigins = await startLocalScrapeProxy({ ...baseConfig, allowedOrigins: ['https://honigg.netlify.app'] }, 0);
+
+  try {
+    await check('WebScraper fetches CORS-blocked domains through the proxy', async () => {
+      const scraper = new WebScraper({ proxyEndpoint: proxy.url, respectRobotsTxt: false });
+      const content = await scraper.scrape('https://www.reddit.com/r/transit/comments/1');
+      expect(content.title === 'Night buses approved', `unexpected title "${content.title}"`);
+      expect(content.content.includes('six night bus routes'), 'article text missing');
+    });
+
+    await check('repeated requests are served from the cache', async () => {
+      const target = encodeURIComponent('https://example.com/cached');
+      const before = upstreamRequests;
+      const first = await fetch(`${proxy.url}/?url=${target}`);
+      const second = await fetch(`${proxy.url}/?url=${target}#fragment`);
+      expect(first.headers.get('x-cache') === 'MISS', 'first request should miss');
+      expect(second.headers.get('x-cache') === 'HIT', 'second request should hit');
+      expect(upstreamRequests - before === 1, `upstream was fetched ${upstreamRequests - before} times`);
+    });
+
+    await check('extract=1 returns extracted content', async () => {
+      const response = await fetch(`${proxy.url}/?extract=1&url=${encodeURIComponent('https://example.com/article')}`);
+      const body = await response.json();
+      expect(body.extracted?.title === 'Night buses approved', 'missing extracted title');
+      expect(body.contents === undefined, 'raw contents should be left out');
+    });
+
+    await check('PDFs are passed through base64-encoded and extracted by WebScraper', async () => {
+      const target = 'https://example.com/report.pdf';
+      const body = await (await fetch(`${proxy.url}/?url=${encodeURIComponent(target)}`)).json();
+      expect(body.encoding === 'base64', `encoding was ${body.encoding}`);
+
+      const scraper = new WebScraper({ proxyEndpoint: proxy.url, respectRobotsTxt: false, useCache: false });
+      const content = await scraper.scrape(target, { useCorsProxy: true });
+      expect(content.format === 'pdf' && content.pages?.length === 2, 'PDF was not extracted page by page');
+    });
+
+    await check('redirects are followed and reported', async () => {
+      const response = await fetch(`${proxy.url}/?url=${encodeURIComponent('https://example.com/redirect-to-article')}`);
+      const body = await response.json();
+      expect(body.finalUrl === 'https://example.com/article', `finalUrl was ${body.finalUrl}`);
+    });
+
+    await check('loopback and metadata addresses are refused', async () => {
+      await expectStatus(proxy.url, 'http://127.0.0.1/', 403);
+      await expectStatus(proxy.url, 'http://169.254.169.254/latest/meta-data/', 403);
+      await expectStatus(proxy.url, 'http://[::1]/', 403);
+      await expectStatus(proxy.url, 'http://[::ffff:10.0.0.1]/', 403);
+    });
+
+    await check('IPv6 ranges that lead to IPv4 addresses are refused', async () => {
+      await expectStatus(proxy.url, 'http://[64:ff9b::a9fe:a9fe]/', 403); // NAT64 of 169.254.169.254
+      await expectStatus(proxy.url, 'http://[2002:a00:1::1]/', 403); // 6to4 of 10.0.0.1
+      await expectStatus(proxy.url, 'http://[::10.0.0.1]/', 403); // IPv4-compatible
+      await expectStatus(proxy.url, 'http://[0:0:0:0:0:ffff:7f00:1]/', 403);
+      await expectStatus(proxy.url, 'http://[2606:4700::6810:84e5]/', 200);
+    });
+
+    await check('connections go to the checked addresses, not a second lookup', async () => {
+      await fetch(`${proxy.url}/?url=${encodeURIComponent('https://example.com/pinned')}`);
+      expect(lastDispatcher instanceof Agent, 'upstream fetch was not given a pinned dispatcher');
+
+      const lookup = pinnedLookup(new Map([['rebind.example.com', ['127.0.0.1']]]));
+      lookup('other.example.com', {}, error => expect(error !== null, 'unchecked hostnames should not resolve'));
+
+      // A hostname that doesn't exist in DNS reaches the local server only through the pinned address
+      const server = createServer((_req, res) => res.end('pinned'));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      const dispatcher = new Agent({ connect: { lookup } });
+      try {
+        const response = await undiciFetch(`http://rebind.example.com:${port}/`, { dispatcher });
+        expect(await response.text() === 'pinned', 'connection did not use the pinned address');
+      } finally {
+        await dispatcher.destroy();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    await check('hostnames resolving to private ranges are refused', async () => {
+      await expectStatus(proxy.url, 'http://internal.corp/wiki', 403);
+      await expectStatus(proxy.url, 'https://sneaky.example.com/', 403);
+      await expectStatus(proxy.url, 'http://localhost:8080/', 403);
+    });
+
+    await check('redirects into private ranges are refused', async () => {
+      await expectStatus(proxy.url, 'https://example.com/redirect-to-internal', 403);
+    });
+
+    await check('oversized, non-text and non-http targets are refused', async () => {
+      await expectStatus(proxy.url, 'https://example.com/large', 413);
+      await expectStatus(proxy.url, 'https://example.com/image', 415);
+      await expectStatus(proxy.url, 'file:///etc/passwd', 400);
+      await expectStatus(proxy.url, 'not a url', 400);
+    });
+
+    await check('the domain allowlist covers subdomains and nothing else', async () => {
+      await expectStatus(allowlisted.url, 'https://news.example.com/article', 200);
+      await expectStatus(allowlisted.url, 'https://other.org/article', 403);
+    });
+
+    await check('without allowed domains nothing is fetched', async () => {
+      const before = upstreamRequests;
+      await expectStatus(unconfigured.url, 'https://example.com/article', 403);
+      expect(upstreamRequests === before, 'upstream was fetched');
+    });
+
+    await check('CORS answers only the proxy\'s own origin unless others are configured', async () => {
+      const allowOrigin = async (proxyUrl: string, origin: string) => {
+        const response = await fetch(`${proxyUrl}/?url=${encodeURIComponent('https://example.com/article')}`, { headers: { Origin: origin } });
+        await response.body?.cancel();
+        return response.headers.get('access-control-allow-origin');
+      };
+
+      expect(await allowOrigin(proxy.url, proxy.url) === proxy.url, 'own origin should be allowed');
+      expect(await allowOrigin(proxy.url, 'https://evil.example.net') === null, 'other origins should get no CORS header');
+      expect(await allowOrigin(withOrigins.url, 'https://honigg.netlify.app') === 'https://honigg.netlify.app', 'configured origin should be allowed');
+      expect(await allowOrigin(withOrigins.url, withOrigins.url) === null, 'configured origins replace the default');
+    });
+  } finally {
+    await proxy.close();
+    await allowlisted.close();
+    await unconfigured.close();
+    await withOrigins.close();
+  }
+
+  finish();
+}
+
+main();
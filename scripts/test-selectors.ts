@@ -0,0 +1,71 @@
+// Checks category source selectors against saved pages in scripts/selector-fixtures.
+//
+//   npm run test-selectors                 # every fixture in fixtures.json
+//   npm run test-selectors -- TechCrunch   # fixtures whose name contains "TechCrunch"
+//
+// A fixture names a built-in source (`source`) or gives its own `selectors`, plus optional
+// expectations. Exits with 1 when any fixture fails, so it can run in CI.
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CategoryManager } from '../src/lib/rag/categoryManager';
+import type { ContentSelectors } from '../src/lib/scraper/contentExtractor';
+import { testSelectors, type SelectorExpectations } from '../src/lib/scraper/selectorTester';
+
+interface SelectorFixture {
+  name: string;
+  file: string;
+  url: string;
+  source?: string;
+  selectors?: ContentSelectors;
+  expect?: SelectorExpectations;
+}
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'selector-fixtures');
+
+function resolveSelectors(fixture: SelectorFixture, categoryManager: CategoryManager): ContentSelectors {
+  if (fixture.selectors) return fixture.selectors;
+
+  const source = categoryManager
+    .getAllCategories()
+    .flatMap(category => category.sources)
+    .find(candidate => candidate.name === fixture.source);
+
+  if (!source?.selectors) {
+    throw new Error(`No built-in source named "${fixture.source}" with selectors`);
+  }
+  return source.selectors;
+}
+
+async function main() {
+  const filter = process.argv[2]?.toLowerCase();
+  const fixtures: SelectorFixture[] = JSON.parse(readFileSync(join(fixturesDir, 'fixtures.json'), 'utf8'));
+  const selected = fixtures.filter(fixture => !filter || fixture.name.toLowerCase().includes(filter));
+  const categoryManager = new CategoryManager();
+  let failed = 0;
+
+  for (const fixture of selected) {
+    try {
+      const selectors = resolveSelectors(fixture, categoryManager);
+      const html = readFileSync(join(fixturesDir, fixture.file), 'utf8');
+      const report = await testSelectors(html, fixture.url, selectors, fixture.expect);
+
+      console.log(`${report.passed ? '✅' : '❌'} ${fixture.name}`);
+      console.log(`   matches: title=${report.matches.title} content=${report.matches.content} article=${report.matches.article}`);
+      console.log(`   title:   ${report.extracted.title}`);
+      console.log(`   content: ${report.extracted.content.length} chars, "${report.extracted.content.substring(0, 100)}..."`);
+      report.failures.forEach(failure => console.log(`   - ${failure}`));
+
+      if (!report.passed) failed++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`❌ ${fixture.name}\n   - ${errorMessage}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n${selected.length - failed}/${selected.length} fixtures passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
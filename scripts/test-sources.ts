@@ -0,0 +1,138 @@
+// Checks the academic source adapters (arXiv, Semantic Scholar, PubMed, Crossref) against saved
+// API responses in scripts/source-fixtures, served by a fake HttpClient so no network is needed.
+//
+//   npm run test-sources
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ArxivAdapter } from '../src/lib/honig/sources/arxivAdapter';
+import { CrossrefAdapter } from '../src/lib/honig/sources/crossrefAdapter';
+import type { HttpClient } from '../src/lib/honig/sources/httpClient';
+import { PubMedAdapter } from '../src/lib/honig/sources/pubmedAdapter';
+import { SemanticScholarAdapter } from '../src/lib/honig/sources/semanticScholarAdapter';
+import type { SourceSearchRequest } from '../src/lib/honig/sources/sourceAdapter';
+import { check, expect, finish } from './check';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'source-fixtures');
+const fixture = (name: string) => readFileSync(join(fixturesDir, name), 'utf8');
+
+// Answers each request with the fixture whose URL prefix matches, and records what was asked
+function fakeHttp(routes: Record<string, string | number>): HttpClient & { requests: string[] } {
+  const requests: string[] = [];
+  return {
+    requests,
+    async get(url) {
+      requests.push(url);
+      const route = Object.keys(routes).find(prefix => url.startsWith(prefix));
+      if (route === undefined) throw new Error(`unexpected request ${url}`);
+
+      const body = routes[route];
+      const status = typeof body === 'number' ? body : 200;
+      const text = typeof body === 'number' ? '' : fixture(body);
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        text: async () => text,
+        json: async () => JSON.parse(text)
+      };
+    }
+  };
+}
+
+const request = (searchTerms: string[]): SourceSearchRequest => ({
+  searchTerms,
+  query: searchTerms.join(' '),
+  maxResults: 3
+});
+
+async function main() {
+  await check('arXiv: Atom entries become papers with authors, DOI, year and https links', async () => {
+    const http = fakeHttp({ 'https://export.arxiv.org/api/query': 'arxiv-feed.xml' });
+    const results = await new ArxivAdapter({ http }).search(request(['tidal energy', 'forecasting']));
+
+    expect(http.requests[0].includes(encodeURIComponent('all:"tidal energy" AND all:forecasting')), `query was ${http.requests[0]}`);
+    expect(results.length === 2, `${results.length} results`);
+    const [first, second] = results;
+    expect(first.title === 'Forecasting Tidal Stream Power with Physics-Informed Neural Networks', `title was "${first.title}"`);
+    expect(first.metadata?.authors?.join(', ') === 'Ana Lindqvist, Tomás Ferreira', `authors were ${first.metadata?.authors}`);
+    expect(first.metadata?.doi === '10.1016/j.renene.2024.120001', `doi was ${first.metadata?.doi}`);
+    expect(first.metadata?.year === 2024 && first.metadata.venue === 'Renewable Energy 224 (2024) 120001', 'year or venue wrong');
+    expect(first.metadata?.abstract?.startsWith('We forecast tidal stream power') === true, 'abstract missing');
+    expect(first.url === 'https://arxiv.org/abs/2402.01234v2' && first.metadata?.pdfUrl === 'https://arxiv.org/pdf/2402.01234v2', 'links should be https');
+    expect(first.metadata?.externalIds?.arxiv === '2402.01234v2', `arXiv id was ${first.metadata?.externalIds?.arxiv}`);
+    expect(second.metadata?.venue === 'arXiv preprint' && second.metadata.doi === undefined, 'preprint without DOI');
+    expect((first.relevanceScore || 0) > (second.relevanceScore || 0), 'results should keep the feed order');
+  });
+
+  await check('Semantic Scholar: papers keep DOI, citations and PDF; untitled papers are dropped', async () => {
+    const http = fakeHttp({ 'https://api.semanticscholar.org/graph/v1/paper/search': 'semantic-scholar-search.json' });
+    const results = await new SemanticScholarAdapter({ http, apiKey: 'test-key' }).search(request(['tidal turbine wake']));
+
+    expect(results.length === 2, `${results.length} results`);
+    const [first, second] = results;
+    expect(first.metadata?.authors?.join(', ') === 'Ruth Okafor, Lars Eide', `authors were ${first.metadata?.authors}`);
+    expect(first.metadata?.doi === '10.1016/j.oceaneng.2022.111234', `doi was ${first.metadata?.doi}`);
+    expect(first.metadata?.year === 2022 && first.publishedAt === '2022-06-15', 'year or date wrong');
+    expect(first.metadata?.citationCount === 48 && first.metadata.pdfUrl === 'https://example.org/wake-recovery.pdf', 'citations or PDF missing');
+    expect(first.metadata?.externalIds?.corpusid === '249012345', 'external ids should be lower-cased strings');
+    expect(second.title === 'Environmental Effects of Tidal Lagoons' && second.metadata?.abstract === undefined, 'second paper wrong');
+    expect(second.url === 'https://www.semanticscholar.org/paper/c4d5e6f7a8', `fallback url was ${second.url}`);
+    expect((first.relevanceScore || 0) > (second.relevanceScore || 0), 'results should keep the API order');
+  });
+
+  await check('PubMed: efetch articles follow the esearch ranking and keep structured abstracts', async () => {
+    const http = fakeHttp({
+      'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi': 'pubmed-esearch.json',
+      'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi': 'pubmed-efetch.xml'
+    });
+    const results = await new PubMedAdapter({ http }).search(request(['tidal energy', 'injuries']));
+
+    expect(http.requests.length === 2 && http.requests[1].includes('id=38123456,37011122'), `requests were ${http.requests}`);
+    expect(results.map(result => result.metadata?.externalIds?.pubmed).join(',') === '38123456,37011122', 'results should follow the esearch order');
+    const [first, second] = results;
+    expect(first.metadata?.authors?.join(', ') === 'Fiona MacLeod, Jonas K Brandt', `authors were ${first.metadata?.authors}`);
+    expect(first.metadata?.doi === '10.3389/fpubh.2024.1234567', `doi was ${first.metadata?.doi}`);
+    expect(first.metadata?.year === 2024 && first.metadata.venue === 'Frontiers in Public Health', 'year or journal wrong');
+    expect(first.metadata?.abstract === 'BACKGROUND: Maintenance crews work in cold, fast-moving water.\nRESULTS: Eleven immersion injuries were recorded over two seasons.',
+      `abstract was ${JSON.stringify(first.metadata?.abstract)}`);
+    expect(first.metadata?.externalIds?.pmc === 'PMC10987654' && first.url === 'https://pubmed.ncbi.nlm.nih.gov/38123456/', 'ids or url wrong');
+    expect(second.metadata?.year === 2022, `MedlineDate year was ${second.metadata?.year}`);
+    expect(second.metadata?.authors?.join(', ') === 'Owen Hughes, Offshore Health Study Group', `authors were ${second.metadata?.authors}`);
+  });
+
+  await check('PubMed: no esearch hits means no efetch', async () => {
+    const http = fakeHttp({ 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi': 'pubmed-esearch-empty.json' });
+    const results = await new PubMedAdapter({ http }).search(request(['nothing']));
+    expect(results.length === 0 && http.requests.length === 1, `${results.length} results, ${http.requests.length} requests`);
+  });
+
+  await check('Crossref: JATS abstracts become text and authors keep given and family names', async () => {
+    const http = fakeHttp({ 'https://api.crossref.org/works': 'crossref-works.json' });
+    const results = await new CrossrefAdapter({ http, mailto: 'team@example.org' }).search(request(['Pentland Firth tidal']));
+
+    expect(http.requests[0].includes('mailto=team%40example.org'), 'polite pool address missing');
+    expect(results.length === 2, `${results.length} results`);
+    const [first, second] = results;
+    expect(first.metadata?.authors?.join(', ') === 'Thomas Adcock, Scott Draper, Marine Energy Consortium', `authors were ${first.metadata?.authors}`);
+    expect(first.metadata?.doi === '10.1098/rsta.2014.0103' && first.metadata.citationCount === 131, 'doi or citations wrong');
+    expect(first.metadata?.year === 2015 && first.publishedAt === '2015', `year was ${first.metadata?.year}`);
+    expect(first.metadata?.abstract === 'The Pentland Firth could supply 1.9 GW on average.', `abstract was "${first.metadata?.abstract}"`);
+    expect(second.metadata?.year === undefined && second.url === 'https://doi.org/10.1016/j.energy.2019.05.001', 'missing year or url fallback wrong');
+    expect((first.relevanceScore || 0) > (second.relevanceScore || 0), 'results should keep the API order');
+  });
+
+  await check('API errors are thrown with the source name and status', async () => {
+    const http = fakeHttp({ 'https://api.crossref.org/works': 503 });
+    try {
+      await new CrossrefAdapter({ http }).search(request(['tides']));
+      throw new Error('expected an error');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      expect(message === 'Crossref API error: 503', `error was "${message}"`);
+    }
+  });
+
+  finish();
+}
+
+main();
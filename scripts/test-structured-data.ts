@@ -0,0 +1,115 @@
+// Checks JSON-LD, microdata and OpenGraph extraction against the pages in
+// scripts/structured-data-fixtures, and how the page's metadata fills in search results.
+//
+//   npm run test-structured-data
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { SearchResult } from '../src/lib/types';
+import { ContentExtractor } from '../src/lib/scraper/contentExtractor';
+import type { StructuredEntity } from '../src/lib/scraper/structuredData';
+import { applyPageMetadata } from '../src/lib/scraper/webScraper';
+import { check, expect, finish } from './check';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'structured-data-fixtures');
+const fixture = (name: string) => readFileSync(join(fixturesDir, name), 'utf8');
+
+function entity<T extends StructuredEntity['type']>(
+  entities: StructuredEntity[] | undefined,
+  type: T
+): StructuredEntity & { type: T } {
+  const found = entities?.find(candidate => candidate.type === type);
+  if (!found) throw new Error(`no ${type} among ${entities?.map(candidate => candidate.type).join(', ') || 'no entities'}`);
+  return found as StructuredEntity & { type: T };
+}
+
+async function main() {
+  const extractor = new ContentExtractor();
+
+  await check('JSON-LD @graph articles resolve their authors and publisher by @id', async () => {
+    const page = await extractor.extract(fixture('news-article-graph.html'), 'https://gazette.example.com/news/ferry-fares');
+    const article = entity(page.structured?.entities, 'NewsArticle');
+    expect(page.structured?.entities.filter(candidate => candidate.type === 'NewsArticle').length === 1, 'article found twice');
+    expect(article.authors.join(', ') === 'Maren Holt, Jonas Berg', `authors were ${article.authors}`);
+    expect(article.publisher === 'Coastline Gazette', `publisher was ${article.publisher}`);
+    expect(article.section === 'Transport' && article.keywords.join(',') === 'ferries,fares,harbour', 'section or keywords missing');
+    expect(page.structured?.openGraph['og:site_name'] === 'Coastline Gazette', 'OpenGraph tags missing');
+  });
+
+  await check('article metadata comes from schema.org, not the first byline or <time> on the page', async () => {
+    const page = await extractor.extract(fixture('news-article-graph.html'), 'https://gazette.example.com/news/ferry-fares');
+    expect(page.metadata.author === 'Maren Holt, Jonas Berg', `author was "${page.metadata.author}"`);
+    expect(page.metadata.publishedAt === '2025-02-03T06:30:00.000Z', `publishedAt was ${page.metadata.publishedAt}`);
+    expect(page.metadata.modifiedAt === '2025-02-03T10:05:00.000Z', `modifiedAt was ${page.metadata.modifiedAt}`);
+    expect(page.content.includes('second freeze in a row'), 'article text missing');
+  });
+
+  await check('microdata recipes keep nested authors, ratings and steps', async () => {
+    const page = await extractor.extract(fixture('recipe-microdata.html'), 'https://kitchen.example.org/rye-bread');
+    const recipe = entity(page.structured?.entities, 'Recipe');
+    expect(recipe.name === 'Rye bread with caraway', `name was ${recipe.name}`);
+    expect(recipe.ingredients.length === 3 && recipe.ingredients[2] === '1 tbsp caraway seeds', `ingredients were ${recipe.ingredients}`);
+    expect(recipe.instructions.length === 3 && recipe.instructions[2] === 'Bake at 220 °C for one hour.', `instructions were ${recipe.instructions}`);
+    expect(recipe.rating?.value === 4.6 && recipe.rating.count === 212, `rating was ${JSON.stringify(recipe.rating)}`);
+    expect(recipe.totalTime === 'PT14H' && recipe.yield === '1 loaf', 'times or yield missing');
+    expect(page.metadata.author === 'Ilse Vogt', `author was "${page.metadata.author}"`);
+    expect(page.metadata.publishedAt === '2024-11-20T00:00:00.000Z', `publishedAt was ${page.metadata.publishedAt}`);
+  });
+
+  await check('products, events and FAQs are read from a JSON-LD array', async () => {
+    const page = await extractor.extract(fixture('shop-event-faq.html'), 'https://shop.example.com/trail-lantern');
+    const product = entity(page.structured?.entities, 'Product');
+    expect(product.brand === 'Northlight' && product.price === '49.90' && product.currency === 'EUR', 'offer fields missing');
+    expect(product.availability === 'InStock' && product.rating?.count === 87, 'availability or rating missing');
+
+    const event = entity(page.structured?.entities, 'Event');
+    expect(event.schemaType === 'MusicEvent' && event.status === 'EventRescheduled', `event was ${event.schemaType} ${event.status}`);
+    expect(event.location === 'Lindenhof Park, Parkweg 3, Lübeck, DE', `location was ${event.location}`);
+    expect(event.startDate === '2025-04-12T18:00:00.000Z', `startDate was ${event.startDate}`);
+
+    const faq = entity(page.structured?.entities, 'FAQPage');
+    expect(faq.questions.length === 2, `${faq.questions.length} questions`);
+    expect(faq.questions[0].answer === 'About 40 hours on the low setting.', `answer was "${faq.questions[0].answer}"`);
+  });
+
+  await check('OpenGraph is the fallback; profile URLs and unparseable dates are dropped', async () => {
+    const page = await extractor.extract(`<html><head>
+      <meta property="og:title" content="Night trains return to the coast">
+      <meta property="article:published_time" content="2024-09-30T05:00:00Z">
+      <meta property="article:author" content="https://www.facebook.com/railweekly">
+      <meta name="date" content="last Tuesday">
+      <script type="application/ld+json">{ not json }</script>
+    </head><body><article><p>Sleeper services resume along the coast line this winter with two departures a week.</p></article></body></html>`,
+    'https://rail.example.com/night-trains');
+    expect(page.structured?.entities.length === 0, 'no entities expected');
+    expect(page.metadata.publishedAt === '2024-09-30T05:00:00.000Z', `publishedAt was ${page.metadata.publishedAt}`);
+    expect(page.metadata.author === undefined, `author was "${page.metadata.author}"`);
+
+    const plain = await extractor.extract('<html><body><p>No metadata here.</p><time datetime="someday">soon</time></body></html>', 'https://example.com/');
+    expect(plain.structured === undefined && plain.metadata.publishedAt === undefined, 'plain pages should have no structured data or date');
+  });
+
+  await check('scraped metadata fills missing or relative dates and bylines in search results', async () => {
+    const page = await extractor.extract(fixture('news-article-graph.html'), 'https://gazette.example.com/news/ferry-fares');
+    const result = (publishedAt?: string, author?: string): SearchResult => ({
+      title: 'Harbour ferry fares frozen',
+      url: 'https://gazette.example.com/news/ferry-fares',
+      snippet: '',
+      source: 'Web Search',
+      type: 'web',
+      publishedAt,
+      ...(author && { metadata: { author } })
+    });
+
+    const relative = applyPageMetadata(result('3 days ago'), page);
+    expect(relative.publishedAt === '2025-02-03T06:30:00.000Z', `publishedAt was ${relative.publishedAt}`);
+    expect(relative.metadata?.author === 'Maren Holt, Jonas Berg', `author was ${relative.metadata?.author}`);
+
+    const dated = applyPageMetadata(result('2025-02-03T08:00:00Z', 'Gazette Staff'), page);
+    expect(dated.publishedAt === '2025-02-03T08:00:00Z' && dated.metadata?.author === 'Gazette Staff', 'valid search metadata was replaced');
+  });
+
+  finish();
+}
+
+main();
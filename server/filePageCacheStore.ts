@@ -0,0 +1,37 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PageCacheEntry, PageCacheStore } from '../src/lib/scraper/pageCache';
+
+// Page cache for scrapers running under Node: one JSON file per entry, named by a hash of its key.
+//
+//   new WebScraper({}, undefined, new PageCache([new MemoryPageCacheStore(), new FilePageCacheStore('.cache/pages')]))
+export class FilePageCacheStore implements PageCacheStore {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<PageCacheEntry | null> {
+    try {
+      const entry: PageCacheEntry = JSON.parse(await readFile(this.pathFor(key), 'utf8'));
+      // A hash collision would hand back another page
+      return entry.key === key ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(entry: PageCacheEntry): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    await this.ready;
+    await writeFile(this.pathFor(entry.key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,67 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { createScrapeProxy, scrapeProxyConfigFromEnv, type ScrapeProxyConfig } from './scrapeProxy';
+
+// Runs the scrape proxy as a plain Node server, for development and the proxy tests.
+//
+//   npm run scrape-proxy    # http://localhost:8787/?url=https://example.com
+//
+// Point the app at it with VITE_SCRAPE_PROXY_URL=http://localhost:8787
+
+export interface LocalScrapeProxy {
+  url: string;
+  close: () => Promise<void>;
+}
+
+async function toRequest(req: IncomingMessage, origin: string): Promise<Request> {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+  });
+
+  return new Request(new URL(req.url || '/', origin), { method: req.method, headers });
+}
+
+async function sendResponse(res: ServerResponse, response: Response) {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+// Port 0 picks a free port; the returned url has the one actually used
+export function startLocalScrapeProxy(config: ScrapeProxyConfig = {}, port = 8787): Promise<LocalScrapeProxy> {
+  const handle = createScrapeProxy(config);
+
+  const server = createServer(async (req, res) => {
+    try {
+      const origin = `http://${req.headers.host || 'localhost'}`;
+      await sendResponse(res, await handle(await toRequest(req, origin)));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      res.statusCode = 500;
+      res.end(JSON.stringify({ error: errorMessage }));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}`,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || 8787;
+  const config = scrapeProxyConfigFromEnv(process.env);
+  // The proxy runs on its own port in development, so let the Vite dev server read it
+  if (config.allowedOrigins?.length === 0) config.allowedOrigins = ['http://localhost:5173'];
+  startLocalScrapeProxy(config, port).then(proxy => {
+    console.log(`🛰️ Scrape proxy listening on ${proxy.url}`);
+  });
+}
@@ -0,0 +1,413 @@
+import { lookup as dnsLookup } from 'node:dns/promises';
+import { isIP, type LookupFunction } from 'node:net';
+import { Agent, fetch as undiciFetch } from 'undici';
+import type { ExtractedContent } from '../src/lib/scraper/contentExtractor';
+import { DocumentExtractor, documentFormat } from '../src/lib/scraper/documentExtractors';
+
+// Server-side fetch (and optional extraction) for pages the browser can't read cross-origin.
+// Exposed as a Netlify Function (netlify/functions/scrape.ts) and as a local Node server
+// (server/localScrapeProxy.ts). Only public http(s) hosts are fetched: every hostname, including
+// each redirect hop, is resolved and rejected if any address is private, loopback or link-local,
+// and the connection then goes to the addresses that were checked rather than a second lookup.
+// Nothing is fetched until allowedDomains is set, and only the proxy's own origin may read its
+// answers unless allowedOrigins says otherwise, so a deployment is never an open proxy by default.
+//
+//   GET ?url=<page>            -> { url, finalUrl, status, contentType, contents, fetchedAt, cached }
+//                                 (PDFs come back base64-encoded, with encoding: 'base64')
+//   GET ?url=<page>&extract=1  -> the same with `extracted` (ExtractedContent) instead of `contents`
+
+export interface ScrapeProxyConfig {
+  allowedDomains?: string[]; // hostnames (subdomains included); '*' allows any public host, empty none
+  allowedOrigins?: string[]; // CORS origins; empty allows only the proxy's own origin
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  cacheTtlMs?: number;
+  cacheMaxEntries?: number;
+  userAgent?: string;
+  fetch?: typeof fetch; // injectable for tests; called with an undici `dispatcher` in its init
+  lookup?: (hostname: string) => Promise<string[]>; // resolves a hostname to its addresses
+}
+
+export interface ScrapeProxyPayload {
+  url: string;
+  finalUrl: string;
+  status: number;
+  contentType: string;
+  contents?: string;
+  encoding?: 'base64';
+  extracted?: ExtractedContent;
+  fetchedAt: string;
+  cached: boolean;
+}
+
+const DEFAULT_CONFIG = {
+  maxBytes: 2 * 1024 * 1024,
+  timeoutMs: 10000,
+  maxRedirects: 5,
+  cacheTtlMs: 10 * 60 * 1000,
+  cacheMaxEntries: 200,
+  userAgent: 'Mozilla/5.0 (compatible; HonigScraper/1.0; +https://honigg.netlify.app)'
+};
+
+const ALLOWED_CONTENT_TYPES = /^(text\/|application\/(xhtml\+xml|xml|rss\+xml|atom\+xml|json|pdf))/i;
+const BINARY_CONTENT_TYPES = /^application\/pdf/i;
+
+export class ScrapeProxyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ScrapeProxyError';
+  }
+}
+
+export function scrapeProxyConfigFromEnv(env: Record<string, string | undefined>): ScrapeProxyConfig {
+  const list = (value?: string) => value?.split(',').map(item => item.trim().toLowerCase()).filter(Boolean) || [];
+  const number = (value?: string) => (value && Number.isFinite(Number(value)) ? Number(value) : undefined);
+
+  return {
+    allowedDomains: list(env.SCRAPE_PROXY_ALLOWED_DOMAINS),
+    allowedOrigins: list(env.SCRAPE_PROXY_ALLOWED_ORIGINS),
+    maxBytes: number(env.SCRAPE_PROXY_MAX_BYTES),
+    timeoutMs: number(env.SCRAPE_PROXY_TIMEOUT_MS),
+    cacheTtlMs: number(env.SCRAPE_PROXY_CACHE_TTL_MS)
+  };
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved and broadcast
+];
+
+// The eight 16-bit groups of an IPv6 address, including ones ending in dotted IPv4
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase();
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[2]);
+    text = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const [before, after] = [parse(head), parse(tail)];
+  return tail === undefined ? before : [...before, ...Array(8 - before.length - after.length).fill(0), ...after];
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      const start = ipv4ToNumber(base);
+      return value >= start && value < start + size;
+    });
+  }
+
+  if (version === 6) {
+    const groups = ipv6Groups(address);
+    const embeddedIpv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+
+    // IPv4-mapped (::ffff:10.0.0.1, or ::ffff:a00:1 as URLs normalize it) is as safe as its IPv4 address
+    if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+      return isPrivateAddress(embeddedIpv4());
+    }
+
+    // Ranges that carry or translate to IPv4 addresses are refused outright, since the gateway or
+    // host on the other end decides where they lead
+    return groups.slice(0, 6).every(group => group === 0) || // ::, ::1 and IPv4-compatible ::a.b.c.d
+      (groups[0] === 0x64 && groups[1] === 0xff9b) || // NAT64 64:ff9b::/96 and 64:ff9b:1::/48
+      groups[0] === 0x2002 || // 6to4 2002::/16
+      (groups[0] === 0x2001 && groups[1] === 0) || // Teredo 2001::/32
+      (groups[0] === 0x2001 && groups[1] === 0xdb8) || // documentation 2001:db8::/32
+      (groups[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+      (groups[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+      (groups[0] & 0xffc0) === 0xfec0 || // site-local fec0::/10
+      (groups[0] & 0xff00) === 0xff00; // multicast
+  }
+
+  return true; // not an IP address at all
+}
+
+function isAllowedDomain(hostname: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.includes('*')) return true;
+  return allowedDomains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+async function defaultLookup(hostname: string): Promise<string[]> {
+  const addresses = await dnsLookup(hostname, { all: true, verbatim: true });
+  return addresses.map(entry => entry.address);
+}
+
+// Answers connection lookups from the addresses assertFetchable checked, so a DNS answer that
+// changes between the check and the connection (DNS rebinding) can't redirect it
+export function pinnedLookup(checked: Map<string, string[]>): LookupFunction {
+  return (hostname, options, callback) => {
+    const addresses = checked.get(hostname.replace(/^\[|\]$/g, '').toLowerCase()) || [];
+    const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : Number(options.family) || 0;
+    const matching = addresses
+      .map(address => ({ address, family: isIP(address) }))
+      .filter(entry => !family || entry.family === family);
+
+    if (matching.length === 0) {
+      callback(Object.assign(new Error(`${hostname} was not checked before connecting`), { code: 'ENOTFOUND' }), '', 0);
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, matching[0].address, matching[0].family);
+    }
+  };
+}
+
+// Canonical form used as the cache key: lowercase host, no fragment, default ports dropped
+function canonicalUrl(url: URL): string {
+  const canonical = new URL(url.toString());
+  canonical.hash = '';
+  return canonical.toString();
+}
+
+export function createScrapeProxy(config: ScrapeProxyConfig = {}): (request: Request) => Promise<Response> {
+  const opts = {
+    allowedDomains: config.allowedDomains || [],
+    allowedOrigins: config.allowedOrigins || [],
+    maxBytes: config.maxBytes ?? DEFAULT_CONFIG.maxBytes,
+    timeoutMs: config.timeoutMs ?? DEFAULT_CONFIG.timeoutMs,
+    maxRedirects: config.maxRedirects ?? DEFAULT_CONFIG.maxRedirects,
+    cacheTtlMs: config.cacheTtlMs ?? DEFAULT_CONFIG.cacheTtlMs,
+    cacheMaxEntries: config.cacheMaxEntries ?? DEFAULT_CONFIG.cacheMaxEntries,
+    userAgent: config.userAgent || DEFAULT_CONFIG.userAgent
+  };
+  // undici's own fetch, so the Agent passed as its dispatcher is one it understands
+  const fetchImpl = config.fetch || (undiciFetch as unknown as typeof fetch);
+  const lookup = config.lookup || defaultLookup;
+  const extractor = new DocumentExtractor();
+
+  // XML and other text the scraper has no extractor for are read as HTML, as before
+  const extractPage = (page: Omit<ScrapeProxyPayload, 'cached' | 'extracted'>): Promise<ExtractedContent> => {
+    const format = documentFormat(page.contentType, page.finalUrl) || 'html';
+    if (page.encoding !== 'base64') return extractor.extract(page.contents || '', format, page.finalUrl);
+
+    const bytes = Buffer.from(page.contents || '', 'base64');
+    return extractor.extract(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength), format, page.finalUrl);
+  };
+  const cache = new Map<string, { payload: ScrapeProxyPayload; expiresAt: number }>();
+
+  const corsHeaders = (request: Request): Record<string, string> => {
+    const origin = request.headers.get('origin') || '';
+    // Deployed next to the app (as the Netlify Function is), the proxy's own origin is the app's
+    const allowedOrigins = opts.allowedOrigins.length > 0 ? opts.allowedOrigins : [new URL(request.url).origin];
+    const allowOrigin = allowedOrigins.includes(origin.toLowerCase()) ? origin : '';
+
+    return {
+      ...(allowOrigin && { 'Access-Control-Allow-Origin': allowOrigin }),
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      Vary: 'Origin'
+    };
+  };
+
+  const assertFetchable = async (url: URL, checked: Map<string, string[]>) => {
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new ScrapeProxyError('Only HTTP and HTTPS URLs are supported', 400);
+    }
+    if (url.username || url.password) {
+      throw new ScrapeProxyError('URLs with credentials are not allowed', 400);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (opts.allowedDomains.length === 0) {
+      throw new ScrapeProxyError('No allowed domains are configured; set SCRAPE_PROXY_ALLOWED_DOMAINS', 403);
+    }
+    if (!isAllowedDomain(hostname, opts.allowedDomains)) {
+      throw new ScrapeProxyError(`${hostname} is not in the allowed domains`, 403);
+    }
+
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+    } catch {
+      throw new ScrapeProxyError(`Could not resolve ${hostname}`, 502);
+    }
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      throw new ScrapeProxyError(`${hostname} resolves to a private or reserved address`, 403);
+    }
+    checked.set(hostname, addresses);
+  };
+
+  const readLimited = async (response: Response): Promise<Buffer> => {
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > opts.maxBytes) {
+      throw new ScrapeProxyError(`Response is larger than ${opts.maxBytes} bytes`, 413);
+    }
+    if (!response.body) return Buffer.alloc(0);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > opts.maxBytes) {
+        await reader.cancel();
+        throw new ScrapeProxyError(`Response is larger than ${opts.maxBytes} bytes`, 413);
+      }
+      chunks.push(value);
+    }
+
+    return Buffer.concat(chunks);
+  };
+
+  // Redirects are followed by hand so every hop goes through the same checks
+  const fetchPage = async (target: URL): Promise<Omit<ScrapeProxyPayload, 'cached' | 'extracted'>> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), opts.timeoutMs);
+    const checked = new Map<string, string[]>();
+    const dispatcher = new Agent({ connect: { lookup: pinnedLookup(checked) } });
+
+    try {
+      let current = target;
+      for (let hop = 0; hop <= opts.maxRedirects; hop++) {
+        await assertFetchable(current, checked);
+
+        const response = await fetchImpl(current.toString(), {
+          signal: controller.signal,
+          redirect: 'manual',
+          dispatcher,
+          headers: {
+            'User-Agent': opts.userAgent,
+            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.5'
+          }
+        } as RequestInit);
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          current = new URL(location, current);
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new ScrapeProxyError(`Upstream answered HTTP ${response.status}`, 502);
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (!ALLOWED_CONTENT_TYPES.test(contentType)) {
+          throw new ScrapeProxyError(`Unsupported content type: ${contentType || 'unknown'}`, 415);
+        }
+
+        const body = await readLimited(response);
+        const binary = BINARY_CONTENT_TYPES.test(contentType);
+        return {
+          url: target.toString(),
+          finalUrl: current.toString(),
+          status: response.status,
+          contentType,
+          contents: body.toString(binary ? 'base64' : 'utf8'),
+          ...(binary && { encoding: 'base64' as const }),
+          fetchedAt: new Date().toISOString()
+        };
+      }
+
+      throw new ScrapeProxyError(`More than ${opts.maxRedirects} redirects`, 502);
+    } catch (error) {
+      if (error instanceof ScrapeProxyError) throw error;
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ScrapeProxyError(`Upstream timed out after ${opts.timeoutMs}ms`, 504);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ScrapeProxyError(`Upstream fetch failed: ${errorMessage}`, 502);
+    } finally {
+      clearTimeout(timeoutId);
+      dispatcher.destroy().catch(() => {});
+    }
+  };
+
+  const cached = (key: string): ScrapeProxyPayload | null => {
+    const entry = cache.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      cache.delete(key);
+      return null;
+    }
+
+    // Re-insert so the Map's order doubles as least-recently-used order
+    cache.delete(key);
+    cache.set(key, entry);
+    return entry.payload;
+  };
+
+  const remember = (key: string, payload: ScrapeProxyPayload) => {
+    cache.set(key, { payload, expiresAt: Date.now() + opts.cacheTtlMs });
+    while (cache.size > opts.cacheMaxEntries) {
+      cache.delete(cache.keys().next().value!);
+    }
+  };
+
+  return async (request: Request): Promise<Response> => {
+    const headers = corsHeaders(request);
+    const json = (body: unknown, status: number, extra: Record<string, string> = {}) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...headers, ...extra }
+      });
+
+    if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers });
+    if (request.method !== 'GET') return json({ error: 'Only GET is supported' }, 405);
+
+    const params = new URL(request.url).searchParams;
+    const rawUrl = params.get('url');
+    const extract = params.get('extract') === '1';
+
+    let target: URL;
+    try {
+      target = new URL(rawUrl || '');
+    } catch {
+      return json({ error: 'A valid `url` parameter is required' }, 400);
+    }
+
+    const key = `${extract ? 'extract' : 'raw'}:${canonicalUrl(target)}`;
+    const hit = cached(key);
+    if (hit) return json({ ...hit, cached: true }, 200, { 'X-Cache': 'HIT' });
+
+    try {
+      const page = await fetchPage(target);
+      const payload: ScrapeProxyPayload = extract
+        ? {
+            ...page,
+            contents: undefined,
+            encoding: undefined,
+            extracted: await extractPage(page),
+            cached: false
+          }
+        : { ...page, cached: false };
+
+      remember(key, payload);
+      return json(payload, 200, {
+        'X-Cache': 'MISS',
+        'Cache-Control': `public, max-age=${Math.floor(opts.cacheTtlMs / 1000)}`
+      });
+    } catch (error) {
+      const status = error instanceof ScrapeProxyError ? error.status : 500;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return json({ error: errorMessage }, status);
+    }
+  };
+}
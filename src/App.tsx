@@ -11,6 +11,7 @@ import BeforeUnloadWarning from './components/BeforeUnloadWarning';
 import SimpleFileUpload from './components/SimpleFileUpload';
 import { useChatStore } from './store/chatStore';
 import { supabase, upsertUserProfile } from './lib/supabase';
+import { ragService } from './lib/ragService';
 
 function App() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -44,6 +45,8 @@ function App() {
     supabase.auth.getSession().then(({ data: { session } }) => {
       console.log('Initial session:', session?.user?.id);
       setSession(session);
+      // The user's own categories take part in query classification from the start
+      ragService.loadCustomCategories(session?.user?.id ?? null);
       if (session?.user) {
         setUserId(session.user.id);
         setGuestMode(false);
@@ -73,6 +76,7 @@ function App() {
         setGuestMode(false);
         upsertUserProfile(session.user);
         setShowAuthModal(false); // Close auth modal on successful sign in
+        ragService.loadCustomCategories(session.user.id);
         // Load conversations after setting user ID with a small delay to ensure state is updated
         setTimeout(() => {
           console.log('Loading conversations after auth state change');
@@ -83,6 +87,7 @@ function App() {
         setUserId(null);
         setGuestMode(true);
         setAuthError(null); // Clear errors on sign out
+        ragService.loadCustomCategories(null);
       } else if (event === 'USER_UPDATED') {
         setSession(session);
         if (session?.user) {
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Rss, Globe, FolderPlus, AlertCircle, Loader2 } from 'lucide-react';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ragService } from '../lib/ragService';
+import {
+  listCustomCategories,
+  createCustomCategory,
+  deleteCustomCategory,
+  addCategorySource,
+  deleteCategorySource,
+  type CustomCategory
+} from '../lib/rag/categoryStore';
+
+interface CategorySettingsProps {
+  user: User;
+}
+
+const emptyCategoryForm = { name: '', description: '', keywords: '' };
+
+const emptySourceForm = {
+  name: '',
+  url: '',
+  feedUrl: '',
+  title: '',
+  content: '',
+  article: '',
+  priority: 5
+};
+
+const inputClassName =
+  'w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm';
+
+const CategorySettings: React.FC<CategorySettingsProps> = ({ user }) => {
+  const [categories, setCategories] = useState<CustomCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [categoryForm, setCategoryForm] = useState(emptyCategoryForm);
+  const [sourceForms, setSourceForms] = useState<Record<string, typeof emptySourceForm>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const loaded = await listCustomCategories(supabase, user.id);
+      setCategories(loaded);
+      setError(null);
+      await ragService.loadCustomCategories(user.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runAndRefresh = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCreateCategory = () => {
+    if (!categoryForm.name.trim()) return;
+
+    runAndRefresh(async () => {
+      await createCustomCategory(supabase, user.id, {
+        name: categoryForm.name,
+        description: categoryForm.description,
+        keywords: categoryForm.keywords.split(',')
+      });
+      setCategoryForm(emptyCategoryForm);
+    });
+  };
+
+  const handleAddSource = (categoryId: string) => {
+    const form = sourceForms[categoryId] || emptySourceForm;
+    if (!form.name.trim() || !form.url.trim()) return;
+
+    runAndRefresh(async () => {
+      await addCategorySource(supabase, categoryId, {
+        name: form.name,
+        url: form.url,
+        feedUrl: form.feedUrl,
+        selectors: { title: form.title, content: form.content, article: form.article },
+        priority: form.priority
+      });
+      setSourceForms(forms => ({ ...forms, [categoryId]: emptySourceForm }));
+    });
+  };
+
+  const updateSourceForm = (categoryId: string, field: keyof typeof emptySourceForm, value: string | number) => {
+    setSourceForms(forms => ({
+      ...forms,
+      [categoryId]: { ...(forms[categoryId] || emptySourceForm), [field]: value }
+    }));
+  };
+
+  const renderSourceForm = (categoryId: string) => {
+    const form = sourceForms[categoryId] || emptySourceForm;
+
+    return (
+      <div className="mt-3 p-3 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => updateSourceForm(categoryId, 'name', e.target.value)}
+            placeholder="Source name"
+            className={inputClassName}
+          />
+          <input
+            type="url"
+            value={form.url}
+            onChange={(e) => updateSourceForm(categoryId, 'url', e.target.value)}
+            placeholder="https://example.com"
+            className={inputClassName}
+          />
+          <input
+            type="url"
+            value={form.feedUrl}
+            onChange={(e) => updateSourceForm(categoryId, 'feedUrl', e.target.value)}
+            placeholder="RSS/Atom feed URL (optional)"
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={form.priority}
+            onChange={(e) => updateSourceForm(categoryId, 'priority', Number(e.target.value) || 5)}
+            title="Priority (1-10)"
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <input
+            type="text"
+            value={form.title}
+            onChange={(e) => updateSourceForm(categoryId, 'title', e.target.value)}
+            placeholder="Title selector, e.g. h1"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={form.content}
+            onChange={(e) => updateSourceForm(categoryId, 'content', e.target.value)}
+            placeholder="Content selector"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={form.article}
+            onChange={(e) => updateSourceForm(categoryId, 'article', e.target.value)}
+            placeholder="Article selector"
+            className={inputClassName}
+          />
+        </div>
+        <button
+          onClick={() => handleAddSource(categoryId)}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Source
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          📚 Categories & Sources
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Queries matching a category's keywords are answered from its sources first. Naming a category
+          after a built-in one (technology, biology, environment, startups, science) adds to it.
+        </p>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <AlertCircle className="w-4 h-4 text-red-600" />
+            <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        {/* New Category */}
+        <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+          <div className="flex items-center gap-3 mb-1">
+            <FolderPlus className="w-5 h-5 text-blue-600" />
+            <p className="font-medium text-gray-900 dark:text-gray-100">New Category</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={categoryForm.name}
+              onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+              placeholder="Name"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={categoryForm.description}
+              onChange={(e) => setCategoryForm({ ...categoryForm, description: e.target.value })}
+              placeholder="Description"
+              className={inputClassName}
+            />
+          </div>
+          <input
+            type="text"
+            value={categoryForm.keywords}
+            onChange={(e) => setCategoryForm({ ...categoryForm, keywords: e.target.value })}
+            placeholder="Keywords, comma separated"
+            className={inputClassName}
+          />
+          <button
+            onClick={handleCreateCategory}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Create Category
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading categories...
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {categories.map((category) => (
+            <div key={category.id} className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-gray-100 capitalize">{category.name}</p>
+                  {category.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{category.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {category.keywords.join(', ') || 'No keywords'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => runAndRefresh(() => deleteCustomCategory(supabase, category.id))}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete category"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="mt-3 space-y-2">
+                {category.sources.map((source) => (
+                  <div
+                    key={source.id}
+                    className="flex items-center justify-between p-2 bg-white dark:bg-gray-700 rounded-md"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      {source.feedUrl ? (
+                        <Rss className="w-4 h-4 text-orange-500 flex-shrink-0" />
+                      ) : (
+                        <Globe className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      )}
+                      <span className="text-sm text-gray-900 dark:text-gray-100">{source.name}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{source.url}</span>
+                    </div>
+                    <button
+                      onClick={() => runAndRefresh(() => deleteCategorySource(supabase, source.id))}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove source"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {renderSourceForm(category.id)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategorySettings;
@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Paperclip, Mic, MicOff, Link } from 'lucide-react';
+import { Send, Loader2, Paperclip, Mic, MicOff, Link, Telescope } from 'lucide-react';
 import { useChatStore } from '../store/chatStore';
 import { motion } from 'framer-motion';
 import ConnectionsPanel from './ConnectionsPanel';
 import { messageAutomationService } from '../lib/connections/messageAutomation';
+import ModelSelector from './ModelSelector';
+import { llmRouter, setPreferredLLMProvider } from '../lib/llm/registry';
 
 interface ChatInputProps {
   onLoginRequired: () => void;
@@ -20,6 +22,8 @@ const ChatInput: React.FC<ChatInputProps> = ({ onLoginRequired, onFileUpload })
   const [autoStopEnabled, setAutoStopEnabled] = useState(true);
   const [showConnections, setShowConnections] = useState(false);
   const [isProcessingAutomation, setIsProcessingAutomation] = useState(false);
+  const [deepResearch, setDeepResearch] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState(llmRouter.getDefaultProvider() || '');
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const recognitionRef = useRef<any>(null);
   const { sendMessage, isProcessing, isGuestMode, messages, userId } = useChatStore();
@@ -29,6 +33,12 @@ const ChatInput: React.FC<ChatInputProps> = ({ onLoginRequired, onFileUpload })
   const MIN_SPEECH_DURATION = 1000; // Minimum 1 second of speech before allowing auto-stop
 
   const isLoggedIn = !!userId;
+  const availableProviders = llmRouter.getAvailableModels();
+
+  const handleProviderChange = (provider: string) => {
+    setPreferredLLMProvider(provider);
+    setSelectedProvider(provider);
+  };
 
   // Load voice auto-stop setting from localStorage
   useEffect(() => {
@@ -216,7 +226,7 @@ const ChatInput: React.FC<ChatInputProps> = ({ onLoginRequired, onFileUpload })
     }
 
     // Send as normal message
-    await sendMessage(userInput);
+    await sendMessage(userInput, { deepResearch });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -281,6 +291,9 @@ const ChatInput: React.FC<ChatInputProps> = ({ onLoginRequired, onFileUpload })
         return "🎤 Listening... Click microphone to stop manually";
       }
     }
+    if (deepResearch) {
+      return "Deep research: describe what to investigate and Honig will search in several rounds and write a report...";
+    }
     return "Ask Honig anything, upload a file, use voice input, or send automated messages...";
   };
 
@@ -338,6 +351,21 @@ const ChatInput: React.FC<ChatInputProps> = ({ onLoginRequired, onFileUpload })
           >
             <Link className="w-4 h-4 text-white" />
           </button>
+
+          {/* Deep Research Toggle */}
+          <button
+            type="button"
+            onClick={() => setDeepResearch(!deepResearch)}
+            className={`w-10 h-10 rounded-md transition-colors self-start mt-2 flex items-center justify-center ${
+              deepResearch
+                ? 'bg-indigo-600 hover:bg-indigo-700 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300'
+            }`}
+            title={deepResearch ? 'Deep research on: multi-round search and a long-form report' : 'Deep research off'}
+            aria-pressed={deepResearch}
+          >
+            <Telescope className="w-4 h-4" />
+          </button>
           
           <div className="flex-1 relative">
             <textarea
@@ -416,6 +444,14 @@ const ChatInput: React.FC<ChatInputProps> = ({ onLoginRequired, onFileUpload })
         
         <div className="text-xs text-center mt-2 text-gray-500 dark:text-gray-400">
           <div className="flex items-center justify-center gap-4 flex-wrap">
+            {availableProviders.length > 1 && (
+              <ModelSelector
+                selectedModel={selectedProvider}
+                onModelChange={handleProviderChange}
+                availableModels={availableProviders}
+              />
+            )}
+
             <span>
               Built by <strong>ASR</strong> • Powered by <strong>Honig</strong> • Built with <strong>Bolt.new</strong>
             </span>
@@ -2,6 +2,7 @@ import React, { useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useChatStore } from '../store/chatStore';
 import Message from './Message';
+import { llmRouter } from '../lib/llm/registry';
 
 const ChatThread: React.FC = () => {
   const { messages } = useChatStore();
@@ -102,12 +103,12 @@ const ChatThread: React.FC = () => {
               <div className="flex items-center justify-center gap-6 text-sm">
                 <div className="flex items-center gap-2">
                   <div className={`w-3 h-3 rounded-full ${
-                    import.meta.env.VITE_GEMINI_API_KEY && import.meta.env.VITE_GEMINI_API_KEY !== 'your_gemini_api_key_here'
+                    llmRouter.hasProviders()
                       ? 'bg-green-500' 
                       : 'bg-yellow-500'
                   }`}></div>
                   <span className="font-medium text-gray-700 dark:text-gray-300">
-                    {import.meta.env.VITE_GEMINI_API_KEY && import.meta.env.VITE_GEMINI_API_KEY !== 'your_gemini_api_key_here'
+                    {llmRouter.hasProviders()
                       ? 'AI Features: Ready' 
                       : 'AI Features: Configure API Key'
                     }
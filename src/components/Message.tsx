@@ -1,19 +1,34 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ExternalLink, Clock, Database, Edit2, Check, X, Copy, Share2, Target, Globe, Brain, Search } from 'lucide-react';
+import { ExternalLink, Clock, Database, Edit2, Check, X, Copy, Share2, Target, Globe, Brain, Search, Quote, ShieldCheck, CheckCircle, XCircle, HelpCircle, Telescope } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { formatDistanceToNow } from 'date-fns';
 import { Message as MessageType, useChatStore } from '../store/chatStore';
+import SearchIndicator from './SearchIndicator';
+import type { HonigStage } from '../lib/honig/honigEngine';
+import { replaceCitationMarkers } from '../lib/rag/citationEngine';
 
 interface MessageProps {
   message: MessageType;
 }
 
+const searchStageByHonigStage = {
+  databaseCheck: 'database_check',
+  queryProcessing: 'classifying',
+  sourceRetrieval: 'web_search',
+  contentScraping: 'scraping',
+  synthesis: 'generating',
+  verification: 'verifying',
+  research: 'researching'
+} as const satisfies Record<HonigStage, string>;
+
 const Message: React.FC<MessageProps> = ({ message }) => {
   const [showSources, setShowSources] = useState(false);
   const [showingNote, setShowingNote] = useState(false);
   const [noteText, setNoteText] = useState(message.note || '');
   const [showCopySuccess, setShowCopySuccess] = useState(false);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+  const [showClaims, setShowClaims] = useState(false);
   const { addNote, isGuestMode } = useChatStore();
   const codeBlockRef = useRef<HTMLDivElement>(null);
 
@@ -25,6 +40,29 @@ const Message: React.FC<MessageProps> = ({ message }) => {
   const processingTime = message.metadata?.processingStages?.total || message.metadata?.processingTime;
   const databaseUsed = message.metadata?.databaseUsed;
   const databaseSource = message.metadata?.databaseSource;
+  const citations = message.metadata?.citations;
+  const verification = message.metadata?.verification;
+  const research = message.metadata?.research;
+  const unverifiedSources = new Set(
+    citations?.checks.filter(check => check.status !== 'verified').map(check => check.sourceIndex) ?? []
+  );
+
+  // Scroll to the highlighted source card once the sources panel has rendered it
+  useEffect(() => {
+    if (highlightedSource === null) return;
+
+    document
+      .getElementById(`source-${message.id}-${highlightedSource}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    const timer = setTimeout(() => setHighlightedSource(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedSource, message.id]);
+
+  const handleCitationClick = (sourceIndex: number) => {
+    setShowSources(true);
+    setHighlightedSource(sourceIndex);
+  };
 
   const handleAddNote = async () => {
     if (noteText.trim() === message.note) {
@@ -139,9 +177,49 @@ const Message: React.FC<MessageProps> = ({ message }) => {
     },
     pre: ({ children }: any) => {
       return <>{children}</>;
+    },
+    // [n] markers are turned into #cite-n links by linkCitations
+    a: ({ href, title, children }: React.ComponentPropsWithoutRef<'a'>) => {
+      const citation = /^#cite-(\d+)$/.exec(href || '');
+      if (!citation) {
+        return <a href={href} title={title}>{children}</a>;
+      }
+
+      const sourceIndex = Number(citation[1]);
+      const source = message.sources?.[sourceIndex - 1];
+      const unverified = unverifiedSources.has(sourceIndex);
+
+      return (
+        <sup className="mx-0.5">
+          <button
+            type="button"
+            onClick={() => handleCitationClick(sourceIndex)}
+            title={unverified ? `${source?.title} (not found in the source text)` : source?.title}
+            className={`px-1 rounded text-[0.7rem] font-medium no-underline transition-colors ${
+              unverified
+                ? 'text-amber-700 bg-amber-100 hover:bg-amber-200 dark:text-amber-300 dark:bg-amber-900/30'
+                : 'text-blue-700 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/30'
+            }`}
+          >
+            {sourceIndex}
+          </button>
+        </sup>
+      );
     }
   };
 
+  // Only markers that point at a listed source become links; anything else stays as typed
+  const linkCitations = (content: string) => {
+    const sourceCount = message.sources?.length ?? 0;
+    if (sourceCount === 0) return content;
+
+    return replaceCitationMarkers(content, (sourceIndexes, marker) =>
+      sourceIndexes.every(index => index >= 1 && index <= sourceCount)
+        ? sourceIndexes.map(index => `[${index}](#cite-${index})`).join('')
+        : marker
+    );
+  };
+
   const processContent = (content: string) => {
     if (content.includes('📊 ALL TABLES DETECTED AND FORMATTED')) {
       const tableContent = `📊 ALL TABLES DETECTED AND FORMATTED
@@ -273,7 +351,15 @@ Table 1: Examination Schedule Table
 
           {/* Message content */}
           <div className={`prose prose-gray dark:prose-invert max-w-none ${message.isLoading ? 'opacity-70' : ''}`}>
-            {message.isLoading && message.content === '' ? (
+            {message.isLoading && message.content === '' && message.progress ? (
+              <SearchIndicator
+                isSearching
+                searchStage={searchStageByHonigStage[message.progress.stage]}
+                sourcesFound={message.progress.sourcesFound}
+                researchRound={message.progress.researchRound}
+                maxResearchRounds={message.progress.maxResearchRounds}
+              />
+            ) : message.isLoading && message.content === '' ? (
               <div className="flex items-center gap-3 py-4">
                 <div className="flex gap-1">
                   <div className="w-2 h-2 rounded-full bg-gray-400 dark:bg-gray-600 animate-pulse"></div>
@@ -284,7 +370,7 @@ Table 1: Examination Schedule Table
               </div>
             ) : (
               <div className="prose-content">
-                <ReactMarkdown components={renderers}>{processContent(message.content)}</ReactMarkdown>
+                <ReactMarkdown components={renderers}>{linkCitations(processContent(message.content))}</ReactMarkdown>
               </div>
             )}
           </div>
@@ -309,6 +395,40 @@ Table 1: Examination Schedule Table
                 </button>
               )}
               
+              {research && (
+                <span
+                  className="flex items-center gap-1"
+                  title="Search rounds run before the report was written"
+                >
+                  <Telescope className="w-3 h-3" />
+                  Deep research · {research.rounds.length} {research.rounds.length === 1 ? 'round' : 'rounds'}
+                </span>
+              )}
+              
+              {citations && citations.checks.length > 0 && (
+                <span
+                  className="flex items-center gap-1"
+                  title="Inline citations whose claim was found in the cited source text"
+                >
+                  <Quote className="w-3 h-3" />
+                  {citations.verified}/{citations.checks.length} citations verified
+                </span>
+              )}
+              
+              {verification && verification.claims.length > 0 && (
+                <button
+                  onClick={() => setShowClaims(!showClaims)}
+                  className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                >
+                  <ShieldCheck className="w-3 h-3" />
+                  {showClaims
+                    ? 'Hide fact check'
+                    : `Fact check (${verification.supported}/${verification.claims.length} supported${
+                        verification.contradicted > 0 ? `, ${verification.contradicted} contradicted` : ''
+                      })`}
+                </button>
+              )}
+              
               {!isGuestMode && (
                 <button 
                   onClick={() => setShowingNote(true)}
@@ -357,6 +477,49 @@ Table 1: Examination Schedule Table
             </div>
           )}
           
+          {/* Claim verification report */}
+          {verification && showClaims && (
+            <div className="mt-4 p-4 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+              <h4 className="font-medium mb-3 text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                <ShieldCheck className="w-4 h-4" />
+                Fact check
+              </h4>
+              <ul className="space-y-3">
+                {verification.claims.map((claim, i) => (
+                  <li key={i} className="flex items-start gap-2 text-sm">
+                    {claim.label === 'supported' ? (
+                      <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600 dark:text-green-400" />
+                    ) : claim.label === 'contradicted' ? (
+                      <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" />
+                    ) : (
+                      <HelpCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-800 dark:text-gray-200">
+                        {claim.claim}
+                        {claim.sourceIndexes
+                          .filter(sourceIndex => sourceIndex <= (message.sources?.length ?? 0))
+                          .map(sourceIndex => (
+                            <button
+                              key={sourceIndex}
+                              type="button"
+                              onClick={() => handleCitationClick(sourceIndex)}
+                              className="ml-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              [{sourceIndex}]
+                            </button>
+                          ))}
+                      </p>
+                      {claim.explanation && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{claim.explanation}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
           {/* Sources display */}
           {hasLiveData && showSources && (
             <div className="mt-4 p-4 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
@@ -366,7 +529,13 @@ Table 1: Examination Schedule Table
               </h4>
               <div className="space-y-4">
                 {message.sources?.map((source, i) => (
-                  <div key={i} className="border-b border-gray-200 dark:border-gray-600 pb-3 last:border-0 last:pb-0">
+                  <div
+                    key={i}
+                    id={`source-${message.id}-${i + 1}`}
+                    className={`border-b border-gray-200 dark:border-gray-600 pb-3 last:border-0 last:pb-0 rounded-md transition-colors duration-500 ${
+                      highlightedSource === i + 1 ? 'bg-yellow-100 dark:bg-yellow-900/30 ring-2 ring-yellow-400' : ''
+                    }`}
+                  >
                     <div className="flex items-start gap-3">
                       <div className="flex-shrink-0 mt-1">
                         {source.type === 'knowledge' ? (
@@ -378,6 +547,7 @@ Table 1: Examination Schedule Table
                         )}
                       </div>
                       <div className="flex-1 min-w-0">
+                        <span className="text-xs font-medium text-gray-400 dark:text-gray-500 mr-1">[{i + 1}]</span>
                         <a
                           href={source.link}
                           target="_blank"
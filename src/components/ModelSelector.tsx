@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { ChevronDown, Cpu, Zap, Brain, Code } from 'lucide-react';
+import { ChevronDown, Cpu, Zap, Brain, Code, HardDrive } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface ModelSelectorProps {
@@ -17,22 +17,28 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
 
   const modelInfo = {
     'gemini': {
-      name: 'Gemini 2.0 Flash',
+      name: 'Gemini',
       icon: <Zap className="w-4 h-4" />,
       description: 'Fast, versatile AI for general tasks',
       color: 'text-blue-600 dark:text-blue-400'
     },
-    'gpt-4': {
-      name: 'GPT-4',
+    'openai': {
+      name: 'OpenAI-compatible',
       icon: <Brain className="w-4 h-4" />,
-      description: 'Advanced reasoning and creativity',
+      description: 'OpenAI or any /chat/completions endpoint',
       color: 'text-green-600 dark:text-green-400'
     },
-    'claude': {
-      name: 'Claude',
+    'anthropic': {
+      name: 'Anthropic',
       icon: <Code className="w-4 h-4" />,
       description: 'Excellent for analysis and coding',
       color: 'text-purple-600 dark:text-purple-400'
+    },
+    'ollama': {
+      name: 'Ollama',
+      icon: <HardDrive className="w-4 h-4" />,
+      description: 'Local models, no data leaves your machine',
+      color: 'text-orange-600 dark:text-orange-400'
     }
   };
 
@@ -47,6 +53,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
     <div className="relative">
       <button
         onClick={() => setIsOpen(!isOpen)}
+        type="button"
         className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
       >
         <span className={currentModel.color}>
@@ -68,10 +75,10 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
               onClick={() => setIsOpen(false)}
             />
             <motion.div
-              initial={{ opacity: 0, y: -10 }}
+              initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              className="absolute top-full left-0 mt-2 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-20"
+              exit={{ opacity: 0, y: 10 }}
+              className="absolute bottom-full left-0 mb-2 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-20"
             >
               <div className="p-2">
                 {availableModels.map((model) => {
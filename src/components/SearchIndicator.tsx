@@ -1,23 +1,32 @@
 import React from 'react';
-import { Search, Globe, Clock, Database, Target, Zap } from 'lucide-react';
+import { Search, Globe, Clock, Database, Target, Zap, Telescope } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface SearchIndicatorProps {
   isSearching: boolean;
-  searchStage?: 'classifying' | 'category_search' | 'web_search' | 'scraping' | 'processing' | 'generating';
+  searchStage?: 'database_check' | 'classifying' | 'category_search' | 'web_search' | 'scraping' | 'processing' | 'generating' | 'verifying' | 'researching';
   sourcesFound?: number;
   categoriesMatched?: string[];
+  researchRound?: number;
+  maxResearchRounds?: number;
 }
 
 const SearchIndicator: React.FC<SearchIndicatorProps> = ({
   isSearching,
   searchStage = 'classifying',
   sourcesFound = 0,
-  categoriesMatched = []
+  categoriesMatched = [],
+  researchRound,
+  maxResearchRounds
 }) => {
   if (!isSearching) return null;
 
   const stages = {
+    database_check: {
+      icon: <Database className="w-4 h-4" />,
+      text: 'Checking the Honig knowledge base...',
+      color: 'text-green-600 dark:text-green-400'
+    },
     classifying: {
       icon: <Target className="w-4 h-4" />,
       text: 'Analyzing query and identifying relevant categories...',
@@ -47,6 +56,16 @@ const SearchIndicator: React.FC<SearchIndicatorProps> = ({
       icon: <Zap className="w-4 h-4" />,
       text: 'Generating response with citations...',
       color: 'text-orange-600 dark:text-orange-400'
+    },
+    verifying: {
+      icon: <Target className="w-4 h-4" />,
+      text: 'Fact-checking claims against the sources...',
+      color: 'text-green-600 dark:text-green-400'
+    },
+    researching: {
+      icon: <Telescope className="w-4 h-4" />,
+      text: 'Drafting and looking for knowledge gaps...',
+      color: 'text-indigo-600 dark:text-indigo-400'
     }
   };
 
@@ -71,6 +90,12 @@ const SearchIndicator: React.FC<SearchIndicatorProps> = ({
         <span className="text-gray-700 dark:text-gray-300">
           {currentStage.text}
         </span>
+
+        {researchRound && maxResearchRounds && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            Deep research · round {researchRound} of {maxResearchRounds}
+          </div>
+        )}
         
         {categoriesMatched.length > 0 && searchStage === 'category_search' && (
           <div className="flex gap-1 mt-1">
@@ -6,11 +6,12 @@ import {
   Github, Linkedin, Twitter, Globe, MapPin, Building, 
   Phone, Mail, Check, AlertCircle, Download, Trash2,
   Brain, MessageSquare, Clock, Mic, MicOff, Sun, Moon,
-  Eye, EyeOff, Database, Zap, ChevronRight, LogIn, Monitor
+  Eye, EyeOff, Database, Zap, ChevronRight, LogIn, Monitor, Newspaper
 } from 'lucide-react';
 import { Auth } from '@supabase/auth-ui-react';
 import { ThemeSupa } from '@supabase/auth-ui-shared';
 import { supabase } from '../lib/supabase';
+import CategorySettings from './CategorySettings';
 import type { User } from '@supabase/supabase-js';
 
 interface SettingsProps {
@@ -146,6 +147,7 @@ const Settings: React.FC<SettingsProps> = ({
   const tabs = [
     { id: 'general', label: 'General', icon: SettingsIcon, locked: false },
     { id: 'personalization', label: 'Personalization', icon: Brain, locked: !isLoggedIn },
+    { id: 'sources', label: 'Sources', icon: Newspaper, locked: !isLoggedIn },
     { id: 'notifications', label: 'Notifications', icon: Bell, locked: !isLoggedIn },
     { id: 'account', label: 'Account', icon: UserIcon, locked: !isLoggedIn },
     { id: 'privacy', label: 'Privacy', icon: Shield, locked: false },
@@ -536,6 +538,8 @@ const Settings: React.FC<SettingsProps> = ({
         return renderGeneralSettings();
       case 'personalization':
         return renderPersonalizationSettings();
+      case 'sources':
+        return user ? <CategorySettings user={user} /> : renderGeneralSettings();
       case 'notifications':
         return renderNotificationsSettings();
       case 'account':
@@ -646,6 +650,7 @@ const Settings: React.FC<SettingsProps> = ({
                   <li>• Custom AI instructions and personalization</li>
                   <li>• Conversation memory and history</li>
                   <li>• Voice auto-stop customization</li>
+                  <li>• Custom research categories and sources</li>
                   <li>• Notification preferences</li>
                   <li>• Account management and data export</li>
                 </ul>
@@ -1,4 +1,5 @@
 import { connectionsService } from './connectionsService';
+import { llmRouter } from '../llm/registry';
 
 interface ParsedCommand {
   action: 'send_whatsapp' | 'send_email' | 'unknown';
@@ -10,22 +11,12 @@ interface ParsedCommand {
 }
 
 class MessageAutomationService {
-  private geminiApiKey: string;
-
-  constructor() {
-    this.geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
-  }
-
   async parseCommand(userInput: string): Promise<ParsedCommand> {
-    if (!this.geminiApiKey) {
-      throw new Error('Gemini API key not configured');
+    if (!llmRouter.hasProviders()) {
+      throw new Error('No LLM provider configured');
     }
 
     try {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(this.geminiApiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
       const prompt = `
 You are a message automation parser. Analyze the user's command and extract messaging intent.
 
@@ -57,9 +48,7 @@ Examples:
 Respond with ONLY the JSON object, no other text.
 `;
 
-      const result = await model.generateContent([prompt]);
-      const response = await result.response;
-      const text = response.text().trim();
+      const text = (await llmRouter.complete(prompt)).trim();
 
       // Extract JSON from response
       const jsonMatch = text.match(/\{[\s\S]*\}/);
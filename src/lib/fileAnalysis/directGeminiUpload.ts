@@ -1,3 +1,6 @@
+import { llmRouter } from '../llm/registry';
+import { loadStageModelsFromEnv, resolveStageModels, type HonigStageModelConfig } from '../honig/stageModels';
+
 export interface DirectGeminiResponse {
   summary: string;
   extractedContent: string;
@@ -7,34 +10,21 @@ export interface DirectGeminiResponse {
 }
 
 export class DirectGeminiUpload {
-  private genAI: any;
-  private model: any;
-  private visionModel: any;
   private isInitialized = false;
+  private modelConfig: HonigStageModelConfig;
+
+  constructor(modelConfig?: HonigStageModelConfig) {
+    const availableProviders = llmRouter.getAvailableModels();
+    this.modelConfig = modelConfig
+      ?? resolveStageModels(loadStageModelsFromEnv(availableProviders), availableProviders).fileAnalysis;
 
-  constructor() {
-    const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!geminiKey || geminiKey === 'your_gemini_api_key_here') {
-      console.warn('⚠️ Gemini API key not configured');
+    if (!llmRouter.hasProviders()) {
+      console.warn('⚠️ No LLM provider configured');
       return;
     }
 
-    try {
-      // Dynamic import to avoid build issues
-      import('@google/generative-ai').then(({ GoogleGenerativeAI }) => {
-        this.genAI = new GoogleGenerativeAI(geminiKey);
-        this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-        this.visionModel = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-        this.isInitialized = true;
-        console.log('✅ UNIVERSAL STRUCTURED FILE ANALYSIS with PERFECT TABLE ALIGNMENT initialized');
-      });
-    } catch (error) {
-      if (error instanceof Error) {
-        console.error('❌ Failed to initialize Structured File Analysis:', error.message);
-      } else {
-        console.error('❌ Failed to initialize Structured File Analysis:', error);
-      }
-    }
+    this.isInitialized = true;
+    console.log('✅ UNIVERSAL STRUCTURED FILE ANALYSIS with PERFECT TABLE ALIGNMENT initialized');
   }
 
   async uploadAndAnalyze(file: File): Promise<DirectGeminiResponse> {
@@ -394,16 +384,12 @@ This section contains [description of what this section covers].
 **REMEMBER:** This must be a complete, perfectly structured extraction of ALL content in the PDF. No shortcuts, no summaries - extract everything with beautiful formatting, comprehensive organization, perfect table alignment in code blocks with EXACT column widths, and every bullet point on its own unique line.
 `;
 
-    const imagePart = {
-      inlineData: {
-        data: base64Data.split(',')[1],
-        mimeType: file.type
-      }
+    const attachment = {
+      data: base64Data.split(',')[1],
+      mimeType: file.type
     };
 
-    const result = await this.visionModel.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    return response.text();
+    return llmRouter.complete(prompt, { ...this.modelConfig, attachments: [attachment] });
   }
 
   private async universalImageAnalysis(file: File): Promise<string> {
@@ -724,16 +710,12 @@ You are Honig's UNIVERSAL Image Analysis System with ADVANCED TABLE DETECTION an
 **REMEMBER:** This must be a complete OCR extraction with perfect organization, beautiful formatting, perfect table alignment in code blocks with EXACT column widths, and every bullet point on its own unique line. Read everything visible and structure it comprehensively.
 `;
 
-    const imagePart = {
-      inlineData: {
-        data: base64Data.split(',')[1],
-        mimeType: file.type
-      }
+    const attachment = {
+      data: base64Data.split(',')[1],
+      mimeType: file.type
     };
 
-    const result = await this.visionModel.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    return response.text();
+    return llmRouter.complete(prompt, { ...this.modelConfig, attachments: [attachment] });
   }
 
   private async universalTextAnalysis(file: File): Promise<string> {
@@ -1094,9 +1076,7 @@ ${textContent}
 **REMEMBER:** This must be a complete analysis of the entire file with perfect organization, beautiful formatting, comprehensive technical insights, perfect table alignment in code blocks with EXACT column widths, and every bullet point on its own unique line.
 `;
 
-    const result = await this.model.generateContent([prompt]);
-    const response = await result.response;
-    return response.text();
+    return llmRouter.complete(prompt, this.modelConfig);
   }
 
   private async universalBinaryAnalysis(file: File): Promise<string> {
@@ -1430,9 +1410,7 @@ You are Honig's UNIVERSAL Binary File Analysis System. Analyze ALL file properti
 **REMEMBER:** This must be a complete, authoritative guide for working with this file type, perfectly structured with comprehensive information for all possible use cases and scenarios, with every bullet point on its own unique line.
 `;
 
-    const result = await this.model.generateContent([prompt]);
-    const response = await result.response;
-    return response.text();
+    return llmRouter.complete(prompt, this.modelConfig);
   }
 
   // Helper methods
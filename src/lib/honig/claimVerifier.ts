@@ -0,0 +1,240 @@
+import type { SearchResult } from '../types';
+import type { LLMRouter } from '../llm/llmRouter';
+import type { HonigStageModelConfig } from './stageModels';
+import { DocumentChunker } from '../rag/documentChunker';
+import { BM25Index, tokenize } from '../rag/chunkRanker';
+import { INLINE_CITATION_PATTERN } from '../rag/citationEngine';
+
+export type ClaimLabel = 'supported' | 'contradicted' | 'unsupported';
+
+export interface VerifiedClaim {
+  claim: string;
+  label: ClaimLabel;
+  sourceIndexes: number[]; // 1-based, same numbering as the [n] citations
+  evidence?: string; // passage the label was based on
+  explanation?: string;
+}
+
+export interface ClaimVerificationReport {
+  claims: VerifiedClaim[];
+  supported: number;
+  contradicted: number;
+  unsupported: number;
+  groundedConfidence: number; // share of claims backed by the sources, contradictions count against it
+  method: 'llm' | 'lexical'; // lexical when the model's verdicts couldn't be used
+}
+
+interface EvidencePassage {
+  sourceIndex: number;
+  text: string;
+}
+
+export class ClaimVerifier {
+  private llm: LLMRouter;
+  private modelConfig: HonigStageModelConfig;
+  private documentChunker: DocumentChunker;
+  private maxClaims = 12;
+  private evidencePerClaim = 3;
+
+  constructor(llm: LLMRouter, modelConfig: HonigStageModelConfig = {}) {
+    this.llm = llm;
+    this.modelConfig = modelConfig;
+    this.documentChunker = new DocumentChunker();
+  }
+
+  async verify(
+    answer: string,
+    sources: SearchResult[],
+    scrapedContent: Map<string, string>
+  ): Promise<ClaimVerificationReport> {
+    const claims = await this.extractClaims(answer);
+    if (claims.length === 0) {
+      return this.buildReport([], 'llm');
+    }
+
+    const passages = this.buildPassages(sources, scrapedContent);
+    const index = new BM25Index(passages.map(passage => passage.text));
+    const evidence = claims.map(claim => this.findEvidence(claim, passages, index));
+
+    try {
+      const verdicts = await this.judgeClaims(claims, evidence);
+      return this.buildReport(verdicts, 'llm');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Claim judging failed, falling back to lexical overlap:', errorMessage);
+      return this.buildReport(claims.map((claim, i) => this.judgeLexically(claim, evidence[i])), 'lexical');
+    }
+  }
+
+  private async extractClaims(answer: string): Promise<string[]> {
+    const prompt = `
+You are Honig's Fact Verification Engine. Break the answer below into atomic factual claims.
+
+ANSWER:
+${answer}
+
+RULES:
+- Each claim states exactly one checkable fact and makes sense on its own (resolve "it", "they", etc.)
+- Skip opinions, advice, hedges, questions and statements about the sources themselves
+- Return at most ${this.maxClaims} claims, most important first
+
+Respond ONLY with valid JSON: {"claims": ["..."]}
+`;
+
+    try {
+      const text = await this.llm.complete(prompt, this.modelConfig);
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No valid JSON found in response');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (!Array.isArray(parsed.claims)) {
+        throw new Error('Response has no claims array');
+      }
+
+      return parsed.claims
+        .filter((claim: unknown): claim is string => typeof claim === 'string' && claim.trim().length > 0)
+        .map((claim: string) => claim.trim())
+        .slice(0, this.maxClaims);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Claim extraction failed, using answer sentences:', errorMessage);
+      return this.fallbackClaims(answer);
+    }
+  }
+
+  // One claim per prose sentence when the model can't split the answer for us
+  private fallbackClaims(answer: string): string[] {
+    return answer
+      .replace(/```[\s\S]*?```/g, ' ')
+      .replace(INLINE_CITATION_PATTERN, '')
+      .replace(/[*_#>`|]/g, ' ')
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.replace(/^\s*(?:-|\d+\.)\s+/, '').trim())
+      .filter(sentence => sentence.length > 20 && !sentence.endsWith('?') && !sentence.endsWith(':'))
+      .slice(0, this.maxClaims);
+  }
+
+  private buildPassages(sources: SearchResult[], scrapedContent: Map<string, string>): EvidencePassage[] {
+    const passages: EvidencePassage[] = [];
+
+    sources.forEach((source, index) => {
+      const content = scrapedContent.get(source.url);
+      const chunks = content
+        ? this.documentChunker.chunk(content, source.url, { chunkSize: 600, chunkOverlap: 100 })
+        : [];
+
+      if (chunks.length > 0) {
+        chunks.forEach(chunk => passages.push({ sourceIndex: index + 1, text: chunk.content }));
+      } else if (source.snippet) {
+        passages.push({ sourceIndex: index + 1, text: source.snippet });
+      }
+    });
+
+    return passages;
+  }
+
+  private findEvidence(claim: string, passages: EvidencePassage[], index: BM25Index): EvidencePassage[] {
+    const scores = index.score(tokenize(claim));
+
+    return passages
+      .map((passage, i) => ({ passage, score: scores[i] }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.evidencePerClaim)
+      .map(({ passage }) => passage);
+  }
+
+  private async judgeClaims(claims: string[], evidence: EvidencePassage[][]): Promise<VerifiedClaim[]> {
+    const claimBlocks = claims.map((claim, i) => {
+      const passages = evidence[i].length > 0
+        ? evidence[i].map(passage => `[Source ${passage.sourceIndex}] ${passage.text}`).join('\n')
+        : '(no matching passages found)';
+      return `CLAIM ${i + 1}: ${claim}\nEVIDENCE:\n${passages}`;
+    });
+
+    const prompt = `
+You are Honig's Fact Verification Engine. Judge each claim ONLY against the evidence listed under it.
+
+${claimBlocks.join('\n\n---\n\n')}
+
+LABELS:
+- "supported": the evidence states or directly implies the claim
+- "contradicted": the evidence states something incompatible with the claim
+- "unsupported": the evidence doesn't address the claim either way
+
+Respond ONLY with valid JSON:
+{"verdicts": [{"claim": 1, "label": "supported", "source": 2, "explanation": "one short sentence"}]}
+Use the source number the verdict relies on, or null when unsupported.
+`;
+
+    const text = await this.llm.complete(prompt, this.modelConfig);
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No valid JSON found in response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed.verdicts)) {
+      throw new Error('Response has no verdicts array');
+    }
+
+    return claims.map((claim, i) => {
+      const verdict = parsed.verdicts.find((candidate: { claim?: unknown }) => Number(candidate.claim) === i + 1);
+      if (!verdict || !['supported', 'contradicted', 'unsupported'].includes(verdict.label)) {
+        return this.judgeLexically(claim, evidence[i]);
+      }
+
+      const label = verdict.label as ClaimLabel;
+      const sourceIndex = Number(verdict.source);
+      const evidencePassage = evidence[i].find(passage => passage.sourceIndex === sourceIndex);
+
+      return {
+        claim,
+        label,
+        sourceIndexes: label !== 'unsupported' && Number.isInteger(sourceIndex) && sourceIndex > 0 ? [sourceIndex] : [],
+        evidence: label !== 'unsupported' ? evidencePassage?.text : undefined,
+        explanation: typeof verdict.explanation === 'string' ? verdict.explanation : undefined
+      };
+    });
+  }
+
+  // Lexical overlap can confirm support but never detect a contradiction
+  private judgeLexically(claim: string, evidence: EvidencePassage[]): VerifiedClaim {
+    const claimTerms = Array.from(new Set(tokenize(claim)));
+    const best = evidence
+      .map(passage => {
+        const passageTerms = new Set(tokenize(passage.text));
+        const overlap = claimTerms.filter(term => passageTerms.has(term)).length;
+        return { passage, coverage: claimTerms.length > 0 ? overlap / claimTerms.length : 0 };
+      })
+      .sort((a, b) => b.coverage - a.coverage)[0];
+
+    if (best && best.coverage >= 0.6) {
+      return {
+        claim,
+        label: 'supported',
+        sourceIndexes: [best.passage.sourceIndex],
+        evidence: best.passage.text
+      };
+    }
+
+    return { claim, label: 'unsupported', sourceIndexes: [] };
+  }
+
+  private buildReport(claims: VerifiedClaim[], method: ClaimVerificationReport['method']): ClaimVerificationReport {
+    const supported = claims.filter(claim => claim.label === 'supported').length;
+    const contradicted = claims.filter(claim => claim.label === 'contradicted').length;
+    const unsupported = claims.filter(claim => claim.label === 'unsupported').length;
+
+    return {
+      claims,
+      supported,
+      contradicted,
+      unsupported,
+      groundedConfidence: claims.length > 0 ? Math.max(0, (supported - contradicted) / claims.length) : 0,
+      method
+    };
+  }
+}
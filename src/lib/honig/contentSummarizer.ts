@@ -1,12 +1,15 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { SearchResult } from '../types';
 import type { ProcessedQuery } from './queryProcessor';
+import type { LLMRouter } from '../llm/llmRouter';
+import type { HonigStageModelConfig } from './stageModels';
+import { CitationEngine, type CitationPassage, type CitationReport } from '../rag/citationEngine';
 
 export interface SummarizedResponse {
   answer: string;
   sources: SearchResult[];
   confidence: number;
   processingTime: number;
+  citations: CitationReport;
   metadata: {
     originalQuery: string;
     refinedQuery: string;
@@ -16,49 +19,70 @@ export interface SummarizedResponse {
   };
 }
 
+export interface SynthesisOptions {
+  format?: 'answer' | 'report'; // 'report' asks for a long-form, sectioned write-up (deep research)
+}
+
 export class ContentSummarizer {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMRouter;
+  private modelConfig: HonigStageModelConfig;
+  private citationEngine: CitationEngine;
 
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+  constructor(llm: LLMRouter, modelConfig: HonigStageModelConfig = {}) {
+    this.llm = llm;
+    this.modelConfig = modelConfig;
+    this.citationEngine = new CitationEngine();
   }
 
   async summarizeAndSynthesize(
     processedQuery: ProcessedQuery,
     searchResults: SearchResult[],
-    scrapedContent: Map<string, string>
+    scrapedContent: Map<string, string>,
+    options: SynthesisOptions = {}
   ): Promise<SummarizedResponse> {
     const startTime = Date.now();
 
     try {
-      // Build context from scraped content
-      const context = this.buildContext(searchResults, scrapedContent);
-      
-      // Create synthesis prompt
-      const prompt = this.createSynthesisPrompt(processedQuery, context, searchResults);
+      const passages = this.buildSourcePassages(searchResults, scrapedContent);
+      const prompt = this.buildPrompt(processedQuery, searchResults, passages, options);
       
       // Generate response
-      const result = await this.model.generateContent([prompt]);
-      const response = await result.response;
-      const answer = response.text();
-
-      const processingTime = Date.now() - startTime;
-
-      return {
-        answer,
-        sources: searchResults,
-        confidence: this.calculateConfidence(searchResults, scrapedContent),
-        processingTime,
-        metadata: {
-          originalQuery: processedQuery.originalQuery,
-          refinedQuery: processedQuery.refinedQuery,
-          queryType: processedQuery.queryType,
-          sourcesUsed: scrapedContent.size,
-          totalSources: searchResults.length
+      const answer = await this.llm.complete(prompt, this.modelConfig);
+
+      return this.buildResponse(answer, processedQuery, searchResults, scrapedContent, passages, startTime);
+    } catch (error) {
+      console.error('Content summarization failed:', error);
+      if (error instanceof Error) {
+        throw new Error(`Summarization failed: ${error.message}`);
+      } else {
+        throw new Error(`Summarization failed: ${String(error)}`);
+      }
+    }
+  }
+
+  // Streams the answer as the model produces it; the generator's return value is the full response
+  async *summarizeAndSynthesizeStream(
+    processedQuery: ProcessedQuery,
+    searchResults: SearchResult[],
+    scrapedContent: Map<string, string>,
+    options: SynthesisOptions = {}
+  ): AsyncGenerator<string, SummarizedResponse> {
+    const startTime = Date.now();
+
+    try {
+      const passages = this.buildSourcePassages(searchResults, scrapedContent);
+      const prompt = this.buildPrompt(processedQuery, searchResults, passages, options);
+
+      let answer = '';
+
+      for await (const chunkText of this.llm.completeStream(prompt, this.modelConfig)) {
+        if (chunkText) {
+          answer += chunkText;
+          yield chunkText;
         }
-      };
+      }
+
+      return this.buildResponse(answer, processedQuery, searchResults, scrapedContent, passages, startTime);
     } catch (error) {
       console.error('Content summarization failed:', error);
       if (error instanceof Error) {
@@ -69,51 +93,112 @@ export class ContentSummarizer {
     }
   }
 
-  private buildContext(searchResults: SearchResult[], scrapedContent: Map<string, string>): string {
-    const contextParts: string[] = [];
+  private buildPrompt(
+    processedQuery: ProcessedQuery,
+    searchResults: SearchResult[],
+    passages: CitationPassage[],
+    options: SynthesisOptions
+  ): string {
+    // Build context from scraped content
+    const context = this.buildContext(searchResults, passages);
     
-    searchResults.forEach((result, index) => {
+    // Create synthesis prompt
+    return this.createSynthesisPrompt(processedQuery, context, searchResults, options);
+  }
+
+  private buildResponse(
+    answer: string,
+    processedQuery: ProcessedQuery,
+    searchResults: SearchResult[],
+    scrapedContent: Map<string, string>,
+    passages: CitationPassage[],
+    startTime: number
+  ): SummarizedResponse {
+    const citations = this.citationEngine.verifyInlineCitations(answer, passages);
+    if (citations.checks.length > 0) {
+      console.log(`🔗 Citations: ${citations.verified} verified, ${citations.unsupported} unsupported, ${citations.invalid} invalid`);
+    }
+
+    return {
+      answer,
+      sources: searchResults,
+      confidence: this.calculateConfidence(searchResults, scrapedContent),
+      processingTime: Date.now() - startTime,
+      citations,
+      metadata: {
+        originalQuery: processedQuery.originalQuery,
+        refinedQuery: processedQuery.refinedQuery,
+        queryType: processedQuery.queryType,
+        sourcesUsed: scrapedContent.size,
+        totalSources: searchResults.length
+      }
+    };
+  }
+
+  // Exactly the text the model sees for each [Source n] block, so citations are checked against it
+  private buildSourcePassages(searchResults: SearchResult[], scrapedContent: Map<string, string>): CitationPassage[] {
+    return searchResults.map((result, index) => {
+      // Infobox facts lead the passage so they can be cited like the text
+      const infobox = result.metadata?.infobox;
+      const facts = infobox
+        ? 'Key facts:\n' + Object.entries(infobox).map(([label, value]) => `- ${label}: ${value}`).join('\n') + '\n\n'
+        : '';
+
       const content = scrapedContent.get(result.url);
       if (content) {
-        const sourceInfo = `[Source ${index + 1}: ${result.title} - ${result.source}]`;
         const truncatedContent = content.length > 2000 
           ? content.substring(0, 2000) + '...' 
           : content;
-        
-        contextParts.push(`${sourceInfo}\n${truncatedContent}\n`);
-      } else {
-        // Use snippet if no scraped content
-        const sourceInfo = `[Source ${index + 1}: ${result.title} - ${result.source}]`;
-        contextParts.push(`${sourceInfo}\n${result.snippet}\n`);
+        return { sourceIndex: index + 1, text: facts + truncatedContent };
       }
+
+      // Use snippet if no scraped content
+      return { sourceIndex: index + 1, text: facts + result.snippet };
     });
+  }
 
-    return contextParts.join('\n---\n\n');
+  private buildContext(searchResults: SearchResult[], passages: CitationPassage[]): string {
+    return passages
+      .map(passage => {
+        const result = searchResults[passage.sourceIndex - 1];
+        return `[Source ${passage.sourceIndex}: ${result.title} - ${result.source}]\n${passage.text}\n`;
+      })
+      .join('\n---\n\n');
   }
 
   private createSynthesisPrompt(
     processedQuery: ProcessedQuery, 
     context: string, 
-    sources: SearchResult[]
+    sources: SearchResult[],
+    options: SynthesisOptions = {}
   ): string {
     const queryTypeInstructions = this.getQueryTypeInstructions(processedQuery.queryType);
+    // Follow-ups only make sense with the conversation, which the synthesis prompt doesn't include
+    const standaloneLine = processedQuery.standaloneQuery !== processedQuery.originalQuery
+      ? `\nSTANDALONE QUERY (answer this; it resolves the original query against the conversation): "${processedQuery.standaloneQuery}"`
+      : '';
+    const structureInstructions = options.format === 'report'
+      ? this.getReportInstructions(processedQuery)
+      : processedQuery.subQuestions.length > 0
+        ? this.getSubQuestionInstructions(processedQuery, sources)
+        : '';
     
     return `
 You are Honig's Content Synthesis Engine. Your task is to provide a comprehensive, accurate, and well-structured response based on the retrieved information.
 
-ORIGINAL QUERY: "${processedQuery.originalQuery}"
+ORIGINAL QUERY: "${processedQuery.originalQuery}"${standaloneLine}
 REFINED QUERY: "${processedQuery.refinedQuery}"
 QUERY TYPE: ${processedQuery.queryType}
 
 ${queryTypeInstructions}
-
+${structureInstructions}
 RETRIEVED INFORMATION:
 ${context}
 
 SYNTHESIS INSTRUCTIONS:
 1. Provide a clear, comprehensive answer to the user's question
 2. Synthesize information from multiple sources when possible
-3. Maintain accuracy and cite specific sources when making claims
+3. Cite every claim inline with the number of its [Source n] block, e.g. "The bridge opened in 1937 [2]."
 4. Structure your response with clear sections if the topic is complex
 5. Include relevant details but keep the response focused and readable
 6. If sources conflict, acknowledge the different perspectives
@@ -123,12 +208,53 @@ IMPORTANT:
 - Base your response ONLY on the provided information
 - If the information is insufficient, clearly state what's missing
 - Don't make assumptions beyond what the sources provide
-- Include source attribution naturally in your response
+- Only cite a source for information that actually appears in that source's text
+- Use one marker per source, e.g. [1][3]; never invent source numbers
+- Don't add a separate list of sources at the end, they are shown alongside your answer
 
 Provide your synthesized response:
 `;
   }
 
+  // Multi-part queries get one section per sub-question and a table that lines the parts up
+  private getSubQuestionInstructions(processedQuery: ProcessedQuery, sources: SearchResult[]): string {
+    const subQuestionList = processedQuery.subQuestions.map((subQuestion, index) => {
+      const sourceNumbers = sources
+        .map((source, sourceIndex) => (source.searchQuery === subQuestion.question ? sourceIndex + 1 : 0))
+        .filter(sourceNumber => sourceNumber > 0);
+      const sourceHint = sourceNumbers.length > 0 ? ` (retrieved: Sources ${sourceNumbers.join(', ')})` : '';
+      return `${index + 1}. ${subQuestion.question}${sourceHint}`;
+    });
+
+    return `
+MULTI-PART QUERY: the query was split into these sub-questions:
+${subQuestionList.join('\n')}
+
+STRUCTURE YOUR RESPONSE AS:
+1. A short overview that answers the original query directly (2-3 sentences)
+2. One "## " section per sub-question, in the order above, titled after what it covers
+3. A "## Comparison" section with a markdown table: one column per item or sub-question, one row per aspect that matters for the original query; keep cells short and write "Not covered" where the sources are silent
+4. A brief "## Bottom line" tying the parts back to the original query
+`;
+  }
+
+  // Deep research: the engine appends the bibliography and search trail itself
+  private getReportInstructions(processedQuery: ProcessedQuery): string {
+    const subQuestionLine = processedQuery.subQuestions.length > 0
+      ? `\nMake sure these parts of the question each get covered: ${processedQuery.subQuestions.map(subQuestion => `"${subQuestion.question}"`).join(', ')}\n`
+      : '';
+
+    return `
+RESEARCH REPORT: the sources below were gathered over several rounds of research. Write a long-form report, not a chat answer.
+${subQuestionLine}
+STRUCTURE YOUR RESPONSE AS:
+1. A "# " title naming the topic of the report
+2. A "## Summary" of the key findings (one short paragraph)
+3. Thematic "## " sections (use "### " subsections where helpful) that together cover the question in depth, drawing on as many of the sources as are relevant
+4. A "## Open questions" section listing what the sources leave unresolved or disagree on
+`;
+  }
+
   private getQueryTypeInstructions(queryType: string): string {
     switch (queryType) {
       case 'factual':
@@ -192,7 +318,7 @@ GENERAL QUERY GUIDELINES:
     // Boost confidence for high-quality sources
     const hasWikipedia = searchResults.some(r => r.source === 'wikipedia');
     const hasNews = searchResults.some(r => r.type === 'news');
-    const hasAcademic = searchResults.some(r => r.source === 'academic');
+    const hasAcademic = searchResults.some(r => r.type === 'academic' || r.source === 'academic');
     
     if (hasWikipedia) confidence += 0.1;
     if (hasNews) confidence += 0.05;
@@ -1,3 +1,6 @@
+import type { LLMRouter } from '../llm/llmRouter';
+import type { HonigStageModelConfig } from './stageModels';
+
 export interface DatabaseQueryResult {
   found: boolean;
   response?: string;
@@ -8,19 +11,22 @@ export interface DatabaseQueryResult {
 
 export class DatabaseQueryProcessor {
   private supabase: any;
+  private llm: LLMRouter;
+  private modelConfig: HonigStageModelConfig;
 
-  constructor(supabaseClient: any) {
+  constructor(supabaseClient: any, llm: LLMRouter, modelConfig: HonigStageModelConfig = {}) {
     this.supabase = supabaseClient;
+    this.llm = llm;
+    this.modelConfig = modelConfig;
   }
 
   async processWithDatabase(query: string): Promise<DatabaseQueryResult> {
     try {
       console.log('📚 Honig: Checking database for relevant responses...');
       
-      // Get all responses from database
+      // Ranked full-text candidates from Postgres instead of the whole table
       const { data: responses, error } = await this.supabase
-        .from('responses')
-        .select('*');
+        .rpc('search_responses', { search_query: query, match_count: 20 });
 
       if (error) {
         console.warn('Database query failed:', error);
@@ -59,19 +65,20 @@ export class DatabaseQueryProcessor {
     }
   }
 
+  // Re-ranks the full-text candidates with trigger-phrase matching
   private findRelevantResponses(query: string, responses: any[]): any[] {
     const queryLower = query.toLowerCase().trim();
     const queryWords = queryLower.split(/\s+/);
     
-    const scoredResponses = responses.map(response => {
+    const scoredResponses = (responses || []).map(response => {
       const score = this.calculateRelevanceScore(queryLower, queryWords, response);
       return { ...response, relevanceScore: score };
     });
 
-    // Return responses with score > 0.3, sorted by relevance
+    // Return responses with score > 0.3, sorted by relevance (full-text rank breaks ties)
     return scoredResponses
       .filter(response => response.relevanceScore > 0.3)
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || (b.rank || 0) - (a.rank || 0))
       .slice(0, 10); // Limit to top 10 most relevant
   }
 
@@ -116,17 +123,10 @@ export class DatabaseQueryProcessor {
 
   private async synthesizeFromDatabase(query: string, relevantResponses: any[]): Promise<string | null> {
     try {
-      // Import Gemini here to avoid circular dependencies
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      
-      const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-      if (!geminiKey || geminiKey === 'your_gemini_api_key_here') {
+      if (!this.llm.hasProviders()) {
         return null;
       }
 
-      const genAI = new GoogleGenerativeAI(geminiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
       // Build context from database responses
       const context = relevantResponses.map((response, index) => 
         `[Database Response ${index + 1} - Type: ${response.trigger_type}]\n${response.response_text}`
@@ -161,13 +161,11 @@ INSTRUCTIONS:
 Provide your response:
 `;
 
-      const result = await model.generateContent([prompt]);
-      const response = await result.response;
-      const text = response.text().trim();
+      const text = (await this.llm.complete(prompt, this.modelConfig)).trim();
 
-      // Check if Gemini determined there's insufficient info
+      // Check if the model determined there's insufficient info
       if (text === 'INSUFFICIENT_DATABASE_INFO') {
-        console.log('📚 Gemini determined database info is insufficient');
+        console.log('📚 LLM determined database info is insufficient');
         return null;
       }
 
@@ -1,17 +1,54 @@
-import { QueryProcessor, type ProcessedQuery } from './queryProcessor';
-import { SourceRetriever } from './sourceRetriever';
+import { QueryProcessor, type ConversationTurn, type ProcessedQuery, type SubQuestion } from './queryProcessor';
+import { SourceRetriever, type SourceRetrievalStat } from './sourceRetriever';
+import { createDefaultSourceRegistry } from './sources/sourceRegistry';
+import type { SourceAdapter } from './sources/sourceAdapter';
 import { ContentSummarizer, type SummarizedResponse } from './contentSummarizer';
 import { DatabaseQueryProcessor, type DatabaseQueryResult } from './databaseQueryProcessor';
-import { WebScraper } from '../scraper/webScraper';
+import { ClaimVerifier, type ClaimVerificationReport } from './claimVerifier';
+import {
+  DEFAULT_RESEARCH_BUDGET,
+  ResearchPlanner,
+  type ResearchBudget,
+  type ResearchRound,
+  type ResearchStopReason,
+  type ResearchTrail
+} from './researchPlanner';
+import { WebScraper, applyPageMetadata, scrapeSkipReason, type SkippedSource } from '../scraper/webScraper';
+import { llmRouter } from '../llm/registry';
+import type { LLMRouter } from '../llm/llmRouter';
+import {
+  resolveStageModels,
+  type HonigModelStage,
+  type HonigStageModelConfig,
+  type HonigStageModels,
+  type ResolvedStageModel
+} from './stageModels';
 import type { SearchResult } from '../types';
+import type { CitationReport } from '../rag/citationEngine';
 
 export interface HonigConfig {
-  geminiApiKey: string;
+  llm?: LLMRouter; // defaults to the shared registry built from .env
+  models?: HonigStageModels; // per-stage provider/model/temperature/token/system prompt overrides
   serperApiKey?: string;
   newsApiKey?: string;
+  semanticScholarApiKey?: string;
+  ncbiApiKey?: string; // PubMed E-utilities
+  crossrefMailto?: string;
+  stackExchangeKey?: string;
+  sources?: SourceAdapter[]; // extra or replacement sources, registered on top of the built-in ones
   supabaseClient?: any;
   maxSources?: number;
   scrapingTimeout?: number;
+  scrapeProxyUrl?: string; // server-side fetch for pages the browser can't read; defaults to VITE_SCRAPE_PROXY_URL
+  retrievalTimeout?: number; // global deadline for one search fan-out; slower sources are left out
+  verifyClaims?: boolean; // fact-check the answer against the scraped pages (one extra pair of LLM calls)
+  decomposeQueries?: boolean; // split comparative / multi-part queries into sub-questions retrieved in parallel
+  researchBudget?: Partial<ResearchBudget>; // default rounds / sources / time for deep research
+}
+
+export interface HonigQueryOptions {
+  deepResearch?: boolean; // several search rounds ending in a long-form report instead of a single answer
+  researchBudget?: Partial<ResearchBudget>; // per-query override of HonigConfig.researchBudget
 }
 
 export interface HonigResponse {
@@ -19,6 +56,7 @@ export interface HonigResponse {
   sources: SearchResult[];
   metadata: {
     originalQuery: string;
+    standaloneQuery?: string; // set when the query was rewritten using the conversation
     refinedQuery?: string;
     queryType?: string;
     processingStages: {
@@ -27,48 +65,120 @@ export interface HonigResponse {
       sourceRetrieval?: number;
       contentScraping?: number;
       synthesis?: number;
+      verification?: number;
+      research?: number; // drafting and gap analysis between deep research rounds
       total: number;
     };
-    confidence: number;
+    confidence: number; // grounded in the claim check when it ran, otherwise a source-count heuristic
     sourcesRetrieved: number;
     sourcesScraped: number;
+    skippedSources?: SkippedSource[]; // pages that couldn't be scraped and why, e.g. robots_disallowed
     targetSources?: string[];
+    subQuestions?: string[];
+    sourceStats?: SourceRetrievalStat[]; // latency, result count and failure of every source queried
     databaseUsed?: boolean;
     databaseSource?: string;
+    models?: Partial<Record<HonigModelStage, ResolvedStageModel>>;
+    citations?: CitationReport; // [n] markers in the response, checked against the source text
+    verification?: ClaimVerificationReport; // per-claim supported / contradicted / unsupported labels
+    research?: ResearchTrail; // deep research only: budget, rounds run and why research stopped
   };
 }
 
+export type HonigStage = Exclude<keyof HonigResponse['metadata']['processingStages'], 'total'>;
+
+export type HonigEvent =
+  | { type: 'stage_start'; stage: HonigStage }
+  | { type: 'stage_end'; stage: HonigStage; duration: number }
+  | { type: 'sources_found'; sources: SearchResult[]; targetSources: string[] }
+  | { type: 'pages_scraped'; scraped: number; attempted: number }
+  | { type: 'research_round'; round: number; maxRounds: number; searches: string[] }
+  | { type: 'token'; text: string }
+  | { type: 'complete'; response: HonigResponse };
+
 export class HonigEngine {
   private queryProcessor: QueryProcessor;
   private sourceRetriever: SourceRetriever;
   private contentSummarizer: ContentSummarizer;
+  private claimVerifier: ClaimVerifier;
+  private researchPlanner: ResearchPlanner;
   private databaseQueryProcessor: DatabaseQueryProcessor | null = null;
   private webScraper: WebScraper;
   private config: HonigConfig;
+  private llm: LLMRouter;
+  private stageModels: Record<HonigModelStage, HonigStageModelConfig>;
 
   constructor(config: HonigConfig) {
     this.config = {
       maxSources: 15,
       scrapingTimeout: 8000,
+      retrievalTimeout: 10000,
+      verifyClaims: true,
+      decomposeQueries: true,
       ...config
     };
 
-    if (!config.geminiApiKey) {
-      throw new Error('Gemini API key is required for Honig');
+    this.llm = config.llm || llmRouter;
+    if (!this.llm.hasProviders()) {
+      throw new Error('At least one LLM provider is required for Honig');
     }
 
-    this.queryProcessor = new QueryProcessor(config.geminiApiKey);
-    this.sourceRetriever = new SourceRetriever(config.serperApiKey, config.newsApiKey);
-    this.contentSummarizer = new ContentSummarizer(config.geminiApiKey);
-    this.webScraper = new WebScraper();
+    this.stageModels = resolveStageModels(config.models, this.llm.getAvailableModels());
+
+    const sourceRegistry = createDefaultSourceRegistry({
+      serperApiKey: config.serperApiKey,
+      newsApiKey: config.newsApiKey,
+      semanticScholarApiKey: config.semanticScholarApiKey,
+      ncbiApiKey: config.ncbiApiKey,
+      crossrefMailto: config.crossrefMailto,
+      stackExchangeKey: config.stackExchangeKey
+    });
+    config.sources?.forEach(adapter => sourceRegistry.register(adapter));
+
+    this.queryProcessor = new QueryProcessor(this.llm, this.stageModels.queryRefinement, sourceRegistry);
+    this.sourceRetriever = new SourceRetriever(config.serperApiKey, config.newsApiKey, {
+      totalTimeoutMs: this.config.retrievalTimeout,
+      registry: sourceRegistry
+    });
+    this.contentSummarizer = new ContentSummarizer(this.llm, this.stageModels.contentSynthesis);
+    this.claimVerifier = new ClaimVerifier(this.llm, this.stageModels.claimVerification);
+    this.researchPlanner = new ResearchPlanner(this.llm, this.stageModels.researchPlanning, sourceRegistry);
+    this.webScraper = new WebScraper(config.scrapeProxyUrl ? { proxyEndpoint: config.scrapeProxyUrl } : {});
 
     // Initialize database processor if Supabase client is provided
     if (config.supabaseClient) {
-      this.databaseQueryProcessor = new DatabaseQueryProcessor(config.supabaseClient);
+      this.databaseQueryProcessor = new DatabaseQueryProcessor(config.supabaseClient, this.llm, this.stageModels.databaseSynthesis);
     }
   }
 
-  async processQuery(userQuery: string): Promise<HonigResponse> {
+  async processQuery(
+    userQuery: string,
+    conversationHistory: ConversationTurn[] = [],
+    onEvent?: (event: HonigEvent) => void,
+    options: HonigQueryOptions = {}
+  ): Promise<HonigResponse> {
+    for await (const event of this.processQueryStream(userQuery, conversationHistory, options)) {
+      onEvent?.(event);
+      if (event.type === 'complete') {
+        return event.response;
+      }
+    }
+
+    throw new Error('Honig processing failed: stream ended without a response');
+  }
+
+  // Streaming variant of processQuery: yields stage progress while the pipeline runs,
+  // then the synthesized answer token by token, and finally the complete response.
+  async *processQueryStream(
+    userQuery: string,
+    conversationHistory: ConversationTurn[] = [],
+    options: HonigQueryOptions = {}
+  ): AsyncGenerator<HonigEvent> {
+    if (options.deepResearch) {
+      yield* this.researchStream(userQuery, conversationHistory, options.researchBudget);
+      return;
+    }
+
     const totalStartTime = Date.now();
     const timings = {
       databaseCheck: 0,
@@ -76,103 +186,168 @@ export class HonigEngine {
       sourceRetrieval: 0,
       contentScraping: 0,
       synthesis: 0,
+      verification: 0,
       total: 0
     };
 
     try {
       console.log('🚀 Honig: Starting query processing...');
 
+      // Follow-ups are rewritten first so the database check sees the standalone question
+      let processedQuery: ProcessedQuery | null = null;
+      if (conversationHistory.length > 0) {
+        processedQuery = yield* this.processQueryStage(userQuery, conversationHistory, timings);
+      }
+
       // Stage 0: Database Check (NEW STEP)
       if (this.databaseQueryProcessor) {
         console.log('📚 Stage 0: Checking database for existing responses...');
+        yield { type: 'stage_start', stage: 'databaseCheck' };
         const dbStart = Date.now();
-        const databaseResult = await this.databaseQueryProcessor.processWithDatabase(userQuery);
+        const databaseResult = await this.databaseQueryProcessor.processWithDatabase(
+          processedQuery?.standaloneQuery ?? userQuery
+        );
         timings.databaseCheck = Date.now() - dbStart;
+        yield { type: 'stage_end', stage: 'databaseCheck', duration: timings.databaseCheck };
 
         if (databaseResult.found && databaseResult.response) {
           timings.total = Date.now() - totalStartTime;
+
+          const stagesUsed: HonigModelStage[] = [];
+          if (processedQuery) stagesUsed.push('queryRefinement');
+          if (databaseResult.source === 'gemini_synthesis') stagesUsed.push('databaseSynthesis');
           
           console.log('✅ Database response found, skipping internet search');
           console.log('⏱️ Database-only processing time:', timings.total, 'ms');
 
-          return {
-            response: databaseResult.response,
-            sources: [],
-            metadata: {
-              originalQuery: userQuery,
-              processingStages: timings,
-              confidence: databaseResult.confidence,
-              sourcesRetrieved: 0,
-              sourcesScraped: 0,
-              databaseUsed: true,
-              databaseSource: databaseResult.source
+          yield { type: 'token', text: databaseResult.response };
+          yield {
+            type: 'complete',
+            response: {
+              response: databaseResult.response,
+              sources: [],
+              metadata: {
+                originalQuery: userQuery,
+                standaloneQuery: this.rewrittenQuery(processedQuery),
+                processingStages: timings,
+                confidence: databaseResult.confidence,
+                sourcesRetrieved: 0,
+                sourcesScraped: 0,
+                databaseUsed: true,
+                databaseSource: databaseResult.source,
+                models: this.resolveStageModelsUsed(stagesUsed)
+              }
             }
           };
+          return;
         } else {
           console.log('📚 No sufficient database response found, proceeding to internet search...');
         }
       }
 
-      // Stage 1: Query Processing with Gemini
-      console.log('🧠 Stage 1: Processing query with Gemini...');
-      const stage1Start = Date.now();
-      const processedQuery = await this.queryProcessor.processQuery(userQuery);
-      timings.queryProcessing = Date.now() - stage1Start;
-      
-      console.log('✅ Query processed:', {
-        type: processedQuery.queryType,
-        sources: processedQuery.targetSources,
-        confidence: processedQuery.confidence
-      });
+      // Stage 1: Query Processing
+      if (!processedQuery) {
+        processedQuery = yield* this.processQueryStage(userQuery, conversationHistory, timings);
+      }
 
       // Stage 2: Targeted Source Retrieval
       console.log('🔍 Stage 2: Retrieving from targeted sources...');
+      yield { type: 'stage_start', stage: 'sourceRetrieval' };
       const stage2Start = Date.now();
-      const searchResults = await this.sourceRetriever.retrieveFromSources(
-        processedQuery.searchTerms,
-        processedQuery.targetSources,
-        processedQuery.refinedQuery
-      );
+      const sourceStats: SourceRetrievalStat[] = [];
+      const searchResults = await this.retrieveSources(processedQuery, sourceStats);
+      const targetSources = processedQuery.subQuestions.length > 0
+        ? Array.from(new Set(processedQuery.subQuestions.flatMap(subQuestion => subQuestion.targetSources)))
+        : processedQuery.targetSources;
       timings.sourceRetrieval = Date.now() - stage2Start;
+      yield { type: 'sources_found', sources: searchResults, targetSources };
+      yield { type: 'stage_end', stage: 'sourceRetrieval', duration: timings.sourceRetrieval };
       
-      console.log(`✅ Retrieved ${searchResults.length} sources from: ${processedQuery.targetSources.join(', ')}`);
+      console.log(`✅ Retrieved ${searchResults.length} sources from: ${targetSources.join(', ')}`);
 
       // Stage 3: Content Scraping
       console.log('🕷️ Stage 3: Scraping content from sources...');
+      yield { type: 'stage_start', stage: 'contentScraping' };
       const stage3Start = Date.now();
-      const scrapedContent = await this.scrapeContent(searchResults);
+      const skippedSources: SkippedSource[] = [];
+      const scrapedContent = await this.scrapeContent(searchResults, skippedSources);
       timings.contentScraping = Date.now() - stage3Start;
+      yield {
+        type: 'pages_scraped',
+        scraped: scrapedContent.size,
+        attempted: Math.min(searchResults.length, this.config.maxSources!)
+      };
+      yield { type: 'stage_end', stage: 'contentScraping', duration: timings.contentScraping };
       
       console.log(`✅ Successfully scraped ${scrapedContent.size}/${searchResults.length} sources`);
 
-      // Stage 4: Content Synthesis with Gemini
-      console.log('🧠 Stage 4: Synthesizing response with Gemini...');
+      // Stage 4: Content Synthesis, streamed token by token
+      console.log('🧠 Stage 4: Synthesizing response...');
+      yield { type: 'stage_start', stage: 'synthesis' };
       const stage4Start = Date.now();
-      const synthesizedResponse = await this.contentSummarizer.summarizeAndSynthesize(
+      const synthesis = this.contentSummarizer.summarizeAndSynthesizeStream(
         processedQuery,
         searchResults,
         scrapedContent
       );
+      let step = await synthesis.next();
+      while (!step.done) {
+        yield { type: 'token', text: step.value };
+        step = await synthesis.next();
+      }
+      const synthesizedResponse = step.value;
       timings.synthesis = Date.now() - stage4Start;
+      yield { type: 'stage_end', stage: 'synthesis', duration: timings.synthesis };
+
+      // Stage 5: Claim Verification
+      let verification: ClaimVerificationReport | undefined;
+      if (this.config.verifyClaims) {
+        console.log('🔎 Stage 5: Verifying claims against sources...');
+        yield { type: 'stage_start', stage: 'verification' };
+        const stage5Start = Date.now();
+        verification = await this.verifyClaims(synthesizedResponse.answer, searchResults, scrapedContent);
+        timings.verification = Date.now() - stage5Start;
+        yield { type: 'stage_end', stage: 'verification', duration: timings.verification };
+
+        if (verification) {
+          console.log(`✅ Claims: ${verification.supported} supported, ${verification.contradicted} contradicted, ${verification.unsupported} unsupported`);
+        }
+      }
       
       timings.total = Date.now() - totalStartTime;
 
       console.log('✅ Honig: Query processing completed successfully');
       console.log('⏱️ Timing breakdown:', timings);
 
-      return {
-        response: synthesizedResponse.answer,
-        sources: searchResults,
-        metadata: {
-          originalQuery: processedQuery.originalQuery,
-          refinedQuery: processedQuery.refinedQuery,
-          queryType: processedQuery.queryType,
-          processingStages: timings,
-          confidence: synthesizedResponse.confidence,
-          sourcesRetrieved: searchResults.length,
-          sourcesScraped: scrapedContent.size,
-          targetSources: processedQuery.targetSources,
-          databaseUsed: false
+      yield {
+        type: 'complete',
+        response: {
+          response: synthesizedResponse.answer,
+          sources: searchResults,
+          metadata: {
+            originalQuery: processedQuery.originalQuery,
+            standaloneQuery: this.rewrittenQuery(processedQuery),
+            refinedQuery: processedQuery.refinedQuery,
+            queryType: processedQuery.queryType,
+            processingStages: timings,
+            confidence: verification && verification.claims.length > 0
+              ? verification.groundedConfidence
+              : synthesizedResponse.confidence,
+            sourcesRetrieved: searchResults.length,
+            sourcesScraped: scrapedContent.size,
+            skippedSources,
+            targetSources,
+            subQuestions: processedQuery.subQuestions.length > 0
+              ? processedQuery.subQuestions.map(subQuestion => subQuestion.question)
+              : undefined,
+            databaseUsed: false,
+            models: this.resolveStageModelsUsed(
+              verification ? ['queryRefinement', 'contentSynthesis', 'claimVerification'] : ['queryRefinement', 'contentSynthesis']
+            ),
+            sourceStats,
+            citations: synthesizedResponse.citations,
+            verification
+          }
         }
       };
 
@@ -186,48 +361,412 @@ export class HonigEngine {
     }
   }
 
-  private async scrapeContent(searchResults: SearchResult[]): Promise<Map<string, string>> {
+  // Deep research: retrieve, draft, ask the planner what the draft is missing and search for that,
+  // until the budget runs out or nothing is missing; then write one report from everything found
+  private async *researchStream(
+    userQuery: string,
+    conversationHistory: ConversationTurn[],
+    budgetOverrides: Partial<ResearchBudget> = {}
+  ): AsyncGenerator<HonigEvent> {
+    const totalStartTime = Date.now();
+    const budget: ResearchBudget = { ...DEFAULT_RESEARCH_BUDGET, ...this.config.researchBudget, ...budgetOverrides };
+    const deadline = totalStartTime + budget.maxDurationMs;
+    const timings = {
+      queryProcessing: 0,
+      sourceRetrieval: 0,
+      contentScraping: 0,
+      research: 0,
+      synthesis: 0,
+      verification: 0,
+      total: 0
+    };
+
+    try {
+      console.log('🔬 Honig: Starting deep research with budget:', budget);
+
+      // The knowledge base is skipped: research is about finding what isn't stored yet
+      const processedQuery = yield* this.processQueryStage(userQuery, conversationHistory, timings);
+
+      const sources: SearchResult[] = [];
+      const sourceStats: SourceRetrievalStat[] = [];
+      const scrapedContent = new Map<string, string>();
+      const skippedSources: SkippedSource[] = [];
+      const rounds: ResearchRound[] = [];
+      const searchesRun: string[] = [];
+      let searches: SubQuestion[] = processedQuery.subQuestions.length > 0
+        ? processedQuery.subQuestions
+        : [{
+            question: processedQuery.refinedQuery,
+            searchTerms: processedQuery.searchTerms,
+            targetSources: processedQuery.targetSources
+          }];
+      let gaps: string[] = [];
+      let plannerUsed = false;
+      let stopReason: ResearchStopReason = 'max_rounds';
+
+      for (let round = 1; round <= budget.maxRounds; round++) {
+        console.log(`🔬 Research round ${round}/${budget.maxRounds}:`, searches.map(search => search.question));
+        yield { type: 'research_round', round, maxRounds: budget.maxRounds, searches: searches.map(search => search.question) };
+        const roundStart = Date.now();
+
+        yield { type: 'stage_start', stage: 'sourceRetrieval' };
+        const retrievalStart = Date.now();
+        const found = round === 1
+          ? await this.retrieveSources(processedQuery, sourceStats)
+          : await this.retrieveSubQuestions(searches, sourceStats, processedQuery.language);
+        const seenUrls = new Set(sources.map(source => source.url));
+        const newSources = found
+          .filter(result => !seenUrls.has(result.url))
+          .slice(0, budget.maxSources - sources.length);
+        sources.push(...newSources);
+        timings.sourceRetrieval += Date.now() - retrievalStart;
+        yield {
+          type: 'sources_found',
+          sources,
+          targetSources: Array.from(new Set(searches.flatMap(search => search.targetSources)))
+        };
+        yield { type: 'stage_end', stage: 'sourceRetrieval', duration: timings.sourceRetrieval };
+
+        yield { type: 'stage_start', stage: 'contentScraping' };
+        const scrapingStart = Date.now();
+        const scraped = await this.scrapeContent(newSources, skippedSources);
+        scraped.forEach((content, url) => scrapedContent.set(url, content));
+        timings.contentScraping += Date.now() - scrapingStart;
+        yield { type: 'pages_scraped', scraped: scrapedContent.size, attempted: sources.length };
+        yield { type: 'stage_end', stage: 'contentScraping', duration: timings.contentScraping };
+
+        searchesRun.push(...searches.map(search => search.question));
+        rounds.push({
+          round,
+          gaps,
+          searches: searches.map(search => search.question),
+          newSources: newSources.length,
+          duration: Date.now() - roundStart
+        });
+        console.log(`✅ Round ${round}: ${newSources.length} new sources, ${scraped.size} scraped`);
+
+        if (round === budget.maxRounds) {
+          stopReason = 'max_rounds';
+          break;
+        }
+        if (round > 1 && newSources.length === 0) {
+          stopReason = 'no_new_sources';
+          break;
+        }
+        if (sources.length >= budget.maxSources) {
+          stopReason = 'max_sources';
+          break;
+        }
+        if (Date.now() >= deadline) {
+          stopReason = 'time_limit';
+          break;
+        }
+
+        // Draft from what we have so the planner can see what's still missing
+        yield { type: 'stage_start', stage: 'research' };
+        const researchStart = Date.now();
+        const draft = await this.contentSummarizer.summarizeAndSynthesize(processedQuery, sources, scrapedContent);
+        const plan = await this.researchPlanner.planNextRound(
+          processedQuery.standaloneQuery,
+          processedQuery.queryType,
+          draft.answer,
+          sources,
+          searchesRun
+        );
+        plannerUsed = true;
+        timings.research += Date.now() - researchStart;
+        yield { type: 'stage_end', stage: 'research', duration: timings.research };
+
+        if (plan.searches.length === 0) {
+          stopReason = 'no_gaps';
+          break;
+        }
+
+        searches = plan.searches;
+        gaps = plan.gaps;
+      }
+
+      console.log(`🔬 Research finished (${stopReason}): ${rounds.length} rounds, ${sources.length} sources`);
+
+      // The report is always written, even when the time budget ran out
+      yield { type: 'stage_start', stage: 'synthesis' };
+      const synthesisStart = Date.now();
+      const synthesis = this.contentSummarizer.summarizeAndSynthesizeStream(
+        processedQuery,
+        sources,
+        scrapedContent,
+        { format: 'report' }
+      );
+      let step = await synthesis.next();
+      while (!step.done) {
+        yield { type: 'token', text: step.value };
+        step = await synthesis.next();
+      }
+      const report = step.value;
+      const appendix = this.formatResearchAppendix(sources, rounds);
+      yield { type: 'token', text: appendix };
+      timings.synthesis = Date.now() - synthesisStart;
+      yield { type: 'stage_end', stage: 'synthesis', duration: timings.synthesis };
+
+      let verification: ClaimVerificationReport | undefined;
+      if (this.config.verifyClaims) {
+        yield { type: 'stage_start', stage: 'verification' };
+        const verificationStart = Date.now();
+        verification = await this.verifyClaims(report.answer, sources, scrapedContent);
+        timings.verification = Date.now() - verificationStart;
+        yield { type: 'stage_end', stage: 'verification', duration: timings.verification };
+      }
+
+      timings.total = Date.now() - totalStartTime;
+      console.log('✅ Honig: Deep research completed');
+      console.log('⏱️ Timing breakdown:', timings);
+
+      const stagesUsed: HonigModelStage[] = ['queryRefinement', 'contentSynthesis'];
+      if (plannerUsed) stagesUsed.push('researchPlanning');
+      if (verification) stagesUsed.push('claimVerification');
+
+      yield {
+        type: 'complete',
+        response: {
+          response: report.answer + appendix,
+          sources,
+          metadata: {
+            originalQuery: processedQuery.originalQuery,
+            standaloneQuery: this.rewrittenQuery(processedQuery),
+            refinedQuery: processedQuery.refinedQuery,
+            queryType: processedQuery.queryType,
+            processingStages: timings,
+            confidence: verification && verification.claims.length > 0
+              ? verification.groundedConfidence
+              : report.confidence,
+            sourcesRetrieved: sources.length,
+            sourcesScraped: scrapedContent.size,
+            skippedSources,
+            targetSources: Array.from(new Set(sources.map(source => source.type))),
+            subQuestions: processedQuery.subQuestions.length > 0
+              ? processedQuery.subQuestions.map(subQuestion => subQuestion.question)
+              : undefined,
+            databaseUsed: false,
+            models: this.resolveStageModelsUsed(stagesUsed),
+            sourceStats,
+            citations: report.citations,
+            verification,
+            research: { budget, rounds, stopReason }
+          }
+        }
+      };
+
+    } catch (error) {
+      console.error('💥 Honig: Deep research failed:', error);
+      if (error instanceof Error) {
+        throw new Error(`Honig research failed: ${error.message}`);
+      } else {
+        throw new Error(`Honig research failed: ${String(error)}`);
+      }
+    }
+  }
+
+  // Bibliography numbers match the report's [n] citations; the trail shows how each round was searched
+  private formatResearchAppendix(sources: SearchResult[], rounds: ResearchRound[]): string {
+    const bibliography = sources.map((source, index) => {
+      const title = source.title.replace(/[[\]]/g, '');
+      const authors = source.metadata?.authors || [];
+      const byline = authors.length > 2 ? `${authors[0]} et al.` : authors.join(' & ');
+      const details = [byline, source.metadata?.venue || source.source, source.metadata?.year || source.publishedAt]
+        .filter(Boolean)
+        .join(', ');
+      return `${index + 1}. [${title}](${source.url})${details ? ` — ${details}` : ''}`;
+    });
+
+    const trail = rounds.map(round => {
+      const lines = [`**Round ${round.round}** — ${round.newSources} new sources in ${(round.duration / 1000).toFixed(1)}s`];
+      if (round.gaps.length > 0) {
+        lines.push(`Gaps: ${round.gaps.join('; ')}`);
+      }
+      lines.push(...round.searches.map(search => `- ${search}`));
+      return lines.join('\n');
+    });
+
+    return `\n\n## Bibliography\n\n${bibliography.join('\n')}\n\n## Search trail\n\n${trail.join('\n\n')}\n`;
+  }
+
+  private async *processQueryStage(
+    userQuery: string,
+    conversationHistory: ConversationTurn[],
+    timings: HonigResponse['metadata']['processingStages']
+  ): AsyncGenerator<HonigEvent, ProcessedQuery> {
+    console.log('🧠 Stage 1: Processing query...');
+    yield { type: 'stage_start', stage: 'queryProcessing' };
+    const stage1Start = Date.now();
+    const processedQuery = await this.queryProcessor.processQuery(userQuery, conversationHistory, {
+      decompose: this.config.decomposeQueries
+    });
+    timings.queryProcessing = Date.now() - stage1Start;
+    yield { type: 'stage_end', stage: 'queryProcessing', duration: timings.queryProcessing };
+
+    console.log('✅ Query processed:', {
+      standalone: processedQuery.standaloneQuery,
+      subQuestions: processedQuery.subQuestions.length,
+      type: processedQuery.queryType,
+      sources: processedQuery.targetSources,
+      confidence: processedQuery.confidence
+    });
+
+    return processedQuery;
+  }
+
+  // Sub-questions are searched in parallel; each result keeps its sub-question in `searchQuery`
+  // so synthesis can give every sub-question its own section
+  // Per-source stats of every fan-out are appended to `sourceStats`
+  private async retrieveSources(
+    processedQuery: ProcessedQuery,
+    sourceStats: SourceRetrievalStat[]
+  ): Promise<SearchResult[]> {
+    if (processedQuery.subQuestions.length === 0) {
+      const report = await this.sourceRetriever.retrieveWithReport(
+        processedQuery.searchTerms,
+        processedQuery.targetSources,
+        processedQuery.refinedQuery,
+        { language: processedQuery.language }
+      );
+      sourceStats.push(...report.stats);
+      return report.results;
+    }
+
+    console.log(`🧩 Retrieving ${processedQuery.subQuestions.length} sub-questions in parallel`);
+    return this.retrieveSubQuestions(processedQuery.subQuestions, sourceStats, processedQuery.language);
+  }
+
+  private async retrieveSubQuestions(
+    subQuestions: SubQuestion[],
+    sourceStats: SourceRetrievalStat[],
+    language?: string
+  ): Promise<SearchResult[]> {
+    const resultsPerQuestion = await Promise.all(
+      subQuestions.map(async subQuestion => {
+        const report = await this.sourceRetriever.retrieveWithReport(
+          subQuestion.searchTerms,
+          subQuestion.targetSources,
+          subQuestion.question,
+          { language }
+        );
+        sourceStats.push(...report.stats);
+        return report.results.map(result => ({ ...result, searchQuery: subQuestion.question }));
+      })
+    );
+
+    // Round-robin so every sub-question is represented before the scraping limit cuts the list
+    const merged: SearchResult[] = [];
+    const seenUrls = new Set<string>();
+    const longest = Math.max(...resultsPerQuestion.map(results => results.length));
+
+    for (let rank = 0; rank < longest && merged.length < this.config.maxSources!; rank++) {
+      for (const results of resultsPerQuestion) {
+        const result = results[rank];
+        if (!result || seenUrls.has(result.url) || merged.length >= this.config.maxSources!) continue;
+        seenUrls.add(result.url);
+        merged.push(result);
+      }
+    }
+
+    return merged;
+  }
+
+  private rewrittenQuery(processedQuery: ProcessedQuery | null): string | undefined {
+    return processedQuery && processedQuery.standaloneQuery !== processedQuery.originalQuery
+      ? processedQuery.standaloneQuery
+      : undefined;
+  }
+
+  // Pages that fail are added to skippedSources with the reason they were left out
+  private async scrapeContent(searchResults: SearchResult[], skippedSources: SkippedSource[]): Promise<Map<string, string>> {
     const scrapedContent = new Map<string, string>();
     
     // Limit scraping to prevent timeouts
-    const urlsToScrape = searchResults
-      .slice(0, this.config.maxSources)
-      .map(result => result.url);
+    const sources = searchResults.slice(0, this.config.maxSources);
+
+    // Some sources hand over the text themselves, e.g. accepted Stack Overflow answers
+    sources
+      .filter(result => result.content)
+      .forEach(result => scrapedContent.set(result.url, result.content!));
+
+    const sourcesToScrape = sources.filter(result => !result.content);
+    if (sourcesToScrape.length === 0) {
+      return scrapedContent;
+    }
 
-    const scrapingResults = await this.webScraper.scrapeMultiple(urlsToScrape, {
+    const scrapingResults = await this.webScraper.scrapeMultiple(sourcesToScrape.map(result => result.url), {
       timeout: this.config.scrapingTimeout,
       maxContentLength: 15000
     });
 
     scrapingResults.forEach((result, index) => {
-      if (!(result instanceof Error) && result.content.length > 100) {
-        const url = urlsToScrape[index];
-        scrapedContent.set(url, result.content);
+      if (result instanceof Error) {
+        skippedSources.push({
+          url: sourcesToScrape[index].url,
+          reason: scrapeSkipReason(result),
+          error: result.message
+        });
+      } else if (result.content.length > 100) {
+        const source = applyPageMetadata(sourcesToScrape[index], result);
+        scrapedContent.set(source.url, result.content);
       }
     });
 
     return scrapedContent;
   }
 
+  // Verification is advisory: if it fails the answer still goes out with the heuristic confidence
+  private async verifyClaims(
+    answer: string,
+    searchResults: SearchResult[],
+    scrapedContent: Map<string, string>
+  ): Promise<ClaimVerificationReport | undefined> {
+    try {
+      return await this.claimVerifier.verify(answer, searchResults, scrapedContent);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Claim verification failed:', errorMessage);
+      return undefined;
+    }
+  }
+
+  // Resolved at query time since the default provider can change from the model selector
+  private resolveStageModelsUsed(stages: HonigModelStage[]): Partial<Record<HonigModelStage, ResolvedStageModel>> {
+    const models: Partial<Record<HonigModelStage, ResolvedStageModel>> = {};
+    for (const stage of stages) {
+      models[stage] = this.llm.resolveModel(this.stageModels[stage]);
+    }
+    return models;
+  }
+
+  getStageModel(stage: HonigModelStage): HonigStageModelConfig {
+    return { ...this.stageModels[stage] };
+  }
+
   // Method to check if Honig is properly configured
   isConfigured(): boolean {
-    return !!this.config.geminiApiKey;
+    return this.llm.hasProviders();
   }
 
   // Method to get configuration status
   getConfigurationStatus(): {
-    hasGemini: boolean;
+    llmProviders: string[];
+    defaultLLMProvider: string | null;
     hasSerper: boolean;
     hasNewsAPI: boolean;
     hasDatabase: boolean;
+    sources: string[];
     isFullyConfigured: boolean;
   } {
     return {
-      hasGemini: !!this.config.geminiApiKey,
+      llmProviders: this.llm.getAvailableModels(),
+      defaultLLMProvider: this.llm.getDefaultProvider(),
       hasSerper: !!this.config.serperApiKey,
       hasNewsAPI: !!this.config.newsApiKey,
       hasDatabase: !!this.databaseQueryProcessor,
-      isFullyConfigured: !!this.config.geminiApiKey && (!!this.config.serperApiKey || !!this.config.newsApiKey)
+      sources: this.sourceRetriever.getRegistry().list().filter(adapter => adapter.isConfigured()).map(adapter => adapter.id),
+      isFullyConfigured: this.llm.hasProviders() && (!!this.config.serperApiKey || !!this.config.newsApiKey)
     };
   }
 }
\ No newline at end of file
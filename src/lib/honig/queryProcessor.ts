@@ -1,35 +1,129 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LLMRouter } from '../llm/llmRouter';
+import type { HonigStageModelConfig } from './stageModels';
+import { createDefaultSourceRegistry, type SourceRegistry } from './sources/sourceRegistry';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface SubQuestion {
+  question: string;
+  searchTerms: string[];
+  targetSources: string[];
+}
+
+export interface QueryProcessingOptions {
+  decompose?: boolean; // split comparative or multi-part queries into sub-questions
+}
+
+// Scripts that identify a language on their own; kana and hangul are checked before Han characters
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\u3040-\u30ff]/, 'ja'],
+  [/[\uac00-\ud7af]/, 'ko'],
+  [/[\u4e00-\u9fff]/, 'zh'],
+  [/[\u0400-\u04ff]/, 'ru'],
+  [/[\u0600-\u06ff]/, 'ar'],
+  [/[\u0590-\u05ff]/, 'he'],
+  [/[\u0370-\u03ff]/, 'el'],
+  [/[\u0900-\u097f]/, 'hi'],
+  [/[\u0e00-\u0e7f]/, 'th']
+];
+
+// Frequent short words; English is counted too so shared words like "is" or "die" don't tip the balance
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'is', 'what', 'how', 'why', 'of', 'and', 'to', 'in', 'for', 'with', 'does', 'are'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'wie', 'warum', 'nicht', 'ein', 'eine', 'ich', 'mit', 'für'],
+  fr: ['le', 'la', 'les', 'est', 'une', 'des', 'et', 'qui', 'quoi', 'pourquoi', 'comment', 'du', 'pour'],
+  es: ['el', 'los', 'las', 'es', 'una', 'qué', 'cómo', 'por', 'del', 'porque', 'cuál', 'para', 'con'],
+  it: ['il', 'gli', 'è', 'una', 'che', 'cosa', 'perché', 'come', 'della', 'del', 'per', 'sono'],
+  pt: ['os', 'as', 'é', 'uma', 'que', 'como', 'por', 'do', 'da', 'não', 'para', 'são'],
+  nl: ['de', 'het', 'een', 'is', 'wat', 'hoe', 'waarom', 'niet', 'van', 'en', 'voor', 'zijn']
+};
+
+// Heuristic ISO 639-1 code for when the model can't tell us; defaults to English
+export function detectQueryLanguage(text: string): string {
+  const script = SCRIPT_LANGUAGES.find(([pattern]) => pattern.test(text));
+  if (script) return script[1];
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const hitsFor = (language: string) => words.filter(word => STOPWORDS[language].includes(word)).length;
+  let best = { language: 'en', hits: Math.max(1, hitsFor('en')) }; // one shared word isn't enough to leave English
+  for (const language of Object.keys(STOPWORDS)) {
+    const hits = hitsFor(language);
+    if (hits > best.hits) best = { language, hits };
+  }
+  return best.language;
+}
 
 export interface ProcessedQuery {
   originalQuery: string;
+  standaloneQuery: string; // originalQuery rewritten to make sense without the conversation
   refinedQuery: string;
   queryType: 'factual' | 'opinion' | 'news' | 'technical' | 'general';
   targetSources: string[];
   searchTerms: string[];
+  subQuestions: SubQuestion[]; // empty unless decomposition was requested and the query has several parts
+  language: string; // ISO 639-1 code of the language the user wrote in, e.g. for Wikipedia editions
   confidence: number;
 }
 
 export class QueryProcessor {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMRouter;
+  private modelConfig: HonigStageModelConfig;
+  private maxHistoryTurns = 6;
+  private maxTurnLength = 600;
+  private maxSubQuestions = 4;
+  private sourceRegistry: SourceRegistry;
 
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+  // targetSources are checked against the registry so only sources that can be searched are returned
+  constructor(
+    llm: LLMRouter,
+    modelConfig: HonigStageModelConfig = {},
+    sourceRegistry: SourceRegistry = createDefaultSourceRegistry()
+  ) {
+    this.llm = llm;
+    this.modelConfig = modelConfig;
+    this.sourceRegistry = sourceRegistry;
   }
 
-  async processQuery(userQuery: string): Promise<ProcessedQuery> {
+  // Pass the conversation so follow-ups like "what about in 2023?" are searched with their context
+  async processQuery(
+    userQuery: string,
+    conversationHistory: ConversationTurn[] = [],
+    options: QueryProcessingOptions = {}
+  ): Promise<ProcessedQuery> {
+    const history = this.recentHistory(userQuery, conversationHistory);
+    const decompositionField = options.decompose
+      ? `
+8. subQuestions: If the query compares several things or asks several distinct questions, an array of 2-${this.maxSubQuestions}
+   objects {"question": "...", "searchTerms": ["..."], "targetSources": ["..."]}, one per thing or part, each answerable
+   by its own search (e.g. "compare the EU AI Act with US executive orders on AI" -> one about the EU AI Act, one about
+   the US executive orders). Otherwise an empty array.`
+      : '';
+    const conversationSection = history.length > 0
+      ? `
+CONVERSATION SO FAR (oldest first):
+${history.map(turn => `${turn.role === 'user' ? 'User' : 'Honig'}: ${turn.content}`).join('\n')}
+
+The user query is the next message in this conversation. It may rely on it through pronouns ("it", "they"),
+omitted subjects ("what about in 2023?") or references to earlier answers. Resolve those references first.
+`
+      : '';
+
     const prompt = `
 You are Honig's Query Processing Engine. Analyze the user's query and provide a structured response.
-
+${conversationSection}
 User Query: "${userQuery}"
 
 Analyze this query and respond with a JSON object containing:
-1. refinedQuery: A more precise, search-optimized version of the query
-2. queryType: One of "factual", "opinion", "news", "technical", "general"
-3. targetSources: Array of recommended source types from ["wikipedia", "reddit", "quora", "news", "academic", "forums"]
-4. searchTerms: Array of 3-5 key search terms
-5. confidence: Confidence score (0-1) in the analysis
+1. standaloneQuery: The query rewritten as a self-contained question that can be understood without the conversation (the query itself if it already is)
+2. refinedQuery: A more precise, search-optimized version of the standalone query
+3. queryType: One of "factual", "opinion", "news", "technical", "general"
+4. targetSources: Array of recommended source names from the AVAILABLE SOURCES below
+5. searchTerms: Array of 3-5 key search terms
+6. confidence: Confidence score (0-1) in the analysis
+7. language: ISO 639-1 code of the language the user query is written in (e.g. "en", "de", "ja")${decompositionField}
 
 Query Type Guidelines:
 - "factual": Seeking objective facts, definitions, or data (use Wikipedia, academic sources)
@@ -38,13 +132,14 @@ Query Type Guidelines:
 - "technical": Programming, science, engineering topics (use academic, specialized forums)
 - "general": Broad topics needing multiple perspectives (use mixed sources)
 
+AVAILABLE SOURCES:
+${this.sourceRegistry.describeSources()}
+
 Respond ONLY with valid JSON:
 `;
 
     try {
-      const result = await this.model.generateContent([prompt]);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.llm.complete(prompt, this.modelConfig);
       
       // Extract JSON from response
       const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -53,25 +148,86 @@ Respond ONLY with valid JSON:
       }
 
       const parsed = JSON.parse(jsonMatch[0]);
-      
+      const standaloneQuery = typeof parsed.standaloneQuery === 'string' && parsed.standaloneQuery.trim()
+        ? parsed.standaloneQuery.trim()
+        : userQuery;
+      const queryType: ProcessedQuery['queryType'] =
+        ['factual', 'opinion', 'news', 'technical', 'general'].includes(parsed.queryType) ? parsed.queryType : 'general';
+      const targetSources = this.sourceRegistry.validateTargetSources(parsed.targetSources, queryType).sources;
+      const language = typeof parsed.language === 'string' && /^[a-z]{2,3}$/.test(parsed.language.trim().toLowerCase())
+        ? parsed.language.trim().toLowerCase()
+        : detectQueryLanguage(userQuery);
+
       return {
         originalQuery: userQuery,
-        refinedQuery: parsed.refinedQuery || userQuery,
-        queryType: parsed.queryType || 'general',
-        targetSources: parsed.targetSources || ['wikipedia', 'news'],
+        standaloneQuery,
+        refinedQuery: parsed.refinedQuery || standaloneQuery,
+        queryType,
+        targetSources,
         searchTerms: parsed.searchTerms || [userQuery],
+        subQuestions: options.decompose ? this.parseSubQuestions(parsed.subQuestions, queryType, targetSources) : [],
+        language,
         confidence: parsed.confidence || 0.7
       };
     } catch (error) {
       console.error('Query processing failed:', error);
       
       // Fallback processing
-      return this.fallbackProcessing(userQuery);
+      return this.fallbackProcessing(userQuery, history, options);
     }
   }
 
-  private fallbackProcessing(query: string): ProcessedQuery {
-    const queryLower = query.toLowerCase();
+  // A single sub-question is no decomposition at all
+  private parseSubQuestions(
+    value: unknown,
+    queryType: ProcessedQuery['queryType'],
+    defaultSources: string[]
+  ): SubQuestion[] {
+    if (!Array.isArray(value)) return [];
+
+    const subQuestions = value
+      .filter((item): item is { question: string; searchTerms?: unknown; targetSources?: unknown } =>
+        !!item && typeof item.question === 'string' && item.question.trim().length > 0
+      )
+      .slice(0, this.maxSubQuestions)
+      .map(item => ({
+        question: item.question.trim(),
+        searchTerms: Array.isArray(item.searchTerms) && item.searchTerms.length > 0
+          ? item.searchTerms.filter((term): term is string => typeof term === 'string')
+          : [item.question.trim()],
+        targetSources: Array.isArray(item.targetSources) && item.targetSources.length > 0
+          ? this.sourceRegistry.validateTargetSources(item.targetSources, queryType).sources
+          : defaultSources
+      }));
+
+    return subQuestions.length >= 2 ? subQuestions : [];
+  }
+
+  // Last few turns before the current message; stores include the message being answered, so drop it
+  private recentHistory(userQuery: string, conversationHistory: ConversationTurn[]): ConversationTurn[] {
+    const turns = conversationHistory.filter(turn => turn.content && turn.content.trim());
+    const last = turns[turns.length - 1];
+    if (last && last.role === 'user' && last.content.trim() === userQuery.trim()) {
+      turns.pop();
+    }
+
+    return turns.slice(-this.maxHistoryTurns).map(turn => ({
+      role: turn.role,
+      content: turn.content.length > this.maxTurnLength
+        ? turn.content.substring(0, this.maxTurnLength) + '...'
+        : turn.content
+    }));
+  }
+
+  private fallbackProcessing(
+    query: string,
+    history: ConversationTurn[] = [],
+    options: QueryProcessingOptions = {}
+  ): ProcessedQuery {
+    // Without the model, anchor a follow-up to the previous question so the search keeps its subject
+    const previousQuestion = [...history].reverse().find(turn => turn.role === 'user');
+    const standaloneQuery = previousQuestion ? `${previousQuestion.content} ${query}` : query;
+    const queryLower = standaloneQuery.toLowerCase();
     
     // Simple heuristics for fallback
     let queryType: ProcessedQuery['queryType'] = 'general';
@@ -91,13 +247,36 @@ Respond ONLY with valid JSON:
       targetSources = ['academic', 'forums'];
     }
 
+    // Keeps the heuristics usable when some of their sources aren't registered or configured
+    targetSources = this.sourceRegistry.validateTargetSources(targetSources, queryType).sources;
+
     return {
       originalQuery: query,
-      refinedQuery: query,
+      standaloneQuery,
+      refinedQuery: standaloneQuery,
       queryType,
       targetSources,
-      searchTerms: query.split(' ').filter(word => word.length > 2).slice(0, 5),
+      searchTerms: standaloneQuery.split(' ').filter(word => word.length > 2).slice(0, 5),
+      subQuestions: options.decompose ? this.fallbackSubQuestions(standaloneQuery, targetSources) : [],
+      language: detectQueryLanguage(query),
       confidence: 0.6
     };
   }
-}
\ No newline at end of file
+
+  // "X vs Y", "compare X with Y" and "difference between X and Y" become one sub-question per side
+  private fallbackSubQuestions(query: string, targetSources: string[]): SubQuestion[] {
+    const cleaned = query.replace(/[?.!]+$/, '').trim();
+    const match =
+      cleaned.match(/^(?:compare\s+)?(.+?)\s+(?:vs\.?|versus)\s+(.+)$/i) ||
+      cleaned.match(/^compare\s+(.+?)\s+(?:with|and|to)\s+(.+)$/i) ||
+      cleaned.match(/difference(?:s)?\s+between\s+(.+?)\s+and\s+(.+)$/i);
+
+    if (!match) return [];
+
+    return [match[1], match[2]].map(subject => ({
+      question: `What is ${subject.trim()}?`,
+      searchTerms: [subject.trim()],
+      targetSources
+    }));
+  }
+}
@@ -0,0 +1,126 @@
+import type { SearchResult } from '../types';
+import type { LLMRouter } from '../llm/llmRouter';
+import type { HonigStageModelConfig } from './stageModels';
+import type { ProcessedQuery, SubQuestion } from './queryProcessor';
+import { createDefaultSourceRegistry, type SourceRegistry } from './sources/sourceRegistry';
+
+export interface ResearchBudget {
+  maxRounds: number; // retrieval rounds including the first one
+  maxSources: number; // sources across all rounds
+  maxDurationMs: number; // no new round starts after this; the final report is always written
+}
+
+export interface ResearchRound {
+  round: number;
+  gaps: string[]; // what the previous draft was missing (empty for the first round)
+  searches: string[];
+  newSources: number;
+  duration: number;
+}
+
+export type ResearchStopReason = 'max_rounds' | 'max_sources' | 'time_limit' | 'no_gaps' | 'no_new_sources';
+
+export interface ResearchTrail {
+  budget: ResearchBudget;
+  rounds: ResearchRound[];
+  stopReason: ResearchStopReason;
+}
+
+export interface ResearchPlan {
+  gaps: string[];
+  searches: SubQuestion[]; // empty when the draft already covers the question
+}
+
+export const DEFAULT_RESEARCH_BUDGET: ResearchBudget = {
+  maxRounds: 3,
+  maxSources: 30,
+  maxDurationMs: 120000
+};
+
+export class ResearchPlanner {
+  private llm: LLMRouter;
+  private modelConfig: HonigStageModelConfig;
+  private maxSearchesPerRound = 3;
+  private sourceRegistry: SourceRegistry;
+
+  constructor(
+    llm: LLMRouter,
+    modelConfig: HonigStageModelConfig = {},
+    sourceRegistry: SourceRegistry = createDefaultSourceRegistry()
+  ) {
+    this.llm = llm;
+    this.modelConfig = modelConfig;
+    this.sourceRegistry = sourceRegistry;
+  }
+
+  // Reads the current draft and proposes follow-up searches for what it couldn't answer
+  async planNextRound(
+    question: string,
+    queryType: ProcessedQuery['queryType'],
+    draft: string,
+    sources: SearchResult[],
+    previousSearches: string[]
+  ): Promise<ResearchPlan> {
+    const prompt = `
+You are Honig's Research Planner. A draft answer was written from the sources found so far.
+Find the knowledge gaps that keep it from fully answering the research question, and plan web searches to fill them.
+
+RESEARCH QUESTION: "${question}"
+
+SOURCES SO FAR:
+${sources.map((source, index) => `${index + 1}. ${source.title} (${source.source})`).join('\n')}
+
+SEARCHES ALREADY RUN:
+${previousSearches.map(search => `- ${search}`).join('\n')}
+
+DRAFT:
+${draft}
+
+RULES:
+- Gaps are missing facts, unanswered parts of the question, unverified claims or perspectives the sources lack
+- Plan at most ${this.maxSearchesPerRound} searches, each different from the searches already run
+- If the draft already answers the question well, return empty arrays
+
+AVAILABLE SOURCES:
+${this.sourceRegistry.describeSources()}
+
+Respond ONLY with valid JSON:
+{"gaps": ["..."], "searches": [{"question": "...", "searchTerms": ["..."], "targetSources": ["<source name>"]}]}
+`;
+
+    try {
+      const text = await this.llm.complete(prompt, this.modelConfig);
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No valid JSON found in response');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      const previous = new Set(previousSearches.map(search => search.toLowerCase()));
+
+      const searches: SubQuestion[] = (Array.isArray(parsed.searches) ? parsed.searches : [])
+        .filter((search: { question?: unknown }) => typeof search?.question === 'string' && search.question.trim())
+        .map((search: { question: string; searchTerms?: unknown; targetSources?: unknown }) => ({
+          question: search.question.trim(),
+          searchTerms: Array.isArray(search.searchTerms) && search.searchTerms.length > 0
+            ? search.searchTerms.filter((term): term is string => typeof term === 'string')
+            : [search.question.trim()],
+          targetSources: this.sourceRegistry.validateTargetSources(search.targetSources, queryType).sources
+        }))
+        .filter((search: SubQuestion) => !previous.has(search.question.toLowerCase()))
+        .slice(0, this.maxSearchesPerRound);
+
+      return {
+        gaps: Array.isArray(parsed.gaps)
+          ? parsed.gaps.filter((gap: unknown): gap is string => typeof gap === 'string')
+          : [],
+        searches
+      };
+    } catch (error) {
+      // Without a plan there's nothing to search for; the report is written from what we have
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Research planning failed, finishing with the current sources:', errorMessage);
+      return { gaps: [], searches: [] };
+    }
+  }
+}
@@ -1,308 +1,167 @@
 import type { SearchResult } from '../types';
+import type { SourceAdapter } from './sources/sourceAdapter';
+import { createDefaultSourceRegistry, type SourceRegistry } from './sources/sourceRegistry';
 
-export interface SourceConfig {
-  name: string;
-  baseUrl: string;
-  searchPath: string;
-  priority: number;
-  maxResults: number;
+export interface SourceRetrieverOptions {
+  totalTimeoutMs?: number; // global deadline for one retrieval; sources still running are cut off
+  registry?: SourceRegistry; // defaults to the built-in sources configured with the keys passed in
 }
 
-export class SourceRetriever {
-  private sources: Map<string, SourceConfig> = new Map();
-  private serperApiKey: string;
-  private newsApiKey: string;
-
-  constructor(serperApiKey?: string, newsApiKey?: string) {
-    this.serperApiKey = serperApiKey || '';
-    this.newsApiKey = newsApiKey || '';
-    this.initializeSources();
-  }
-
-  private initializeSources() {
-    // Wikipedia
-    this.sources.set('wikipedia', {
-      name: 'Wikipedia',
-      baseUrl: 'https://en.wikipedia.org',
-      searchPath: '/w/api.php',
-      priority: 9,
-      maxResults: 3
-    });
+export interface RetrievalOptions {
+  deadline?: number; // epoch ms; tightens the global deadline, e.g. for time-boxed research
+  language?: string; // passed on to the adapters
+}
 
-    // Reddit (via Google Search with site filter)
-    this.sources.set('reddit', {
-      name: 'Reddit',
-      baseUrl: 'https://www.reddit.com',
-      searchPath: '',
-      priority: 8,
-      maxResults: 4
-    });
+export interface SourceRetrievalStat {
+  source: string;
+  query: string;
+  status: 'ok' | 'error' | 'timeout' | 'skipped';
+  latencyMs: number;
+  resultCount: number;
+  error?: string;
+}
 
-    // Quora (via Google Search with site filter)
-    this.sources.set('quora', {
-      name: 'Quora',
-      baseUrl: 'https://www.quora.com',
-      searchPath: '',
-      priority: 7,
-      maxResults: 3
-    });
+export interface SourceRetrievalReport {
+  results: SearchResult[];
+  stats: SourceRetrievalStat[];
+}
 
-    // News sources
-    this.sources.set('news', {
-      name: 'News',
-      baseUrl: '',
-      searchPath: '',
-      priority: 9,
-      maxResults: 5
-    });
+export class SourceRetriever {
+  private registry: SourceRegistry;
+  private totalTimeoutMs: number;
+  private requestLog: Map<string, number[]> = new Map();
 
-    // Academic/Technical forums
-    this.sources.set('academic', {
-      name: 'Academic',
-      baseUrl: '',
-      searchPath: '',
-      priority: 8,
-      maxResults: 3
-    });
+  constructor(serperApiKey?: string, newsApiKey?: string, options: SourceRetrieverOptions = {}) {
+    this.registry = options.registry || createDefaultSourceRegistry({ serperApiKey, newsApiKey });
+    this.totalTimeoutMs = options.totalTimeoutMs ?? 10000;
+  }
 
-    // General forums
-    this.sources.set('forums', {
-      name: 'Forums',
-      baseUrl: '',
-      searchPath: '',
-      priority: 6,
-      maxResults: 3
-    });
+  getRegistry(): SourceRegistry {
+    return this.registry;
   }
 
   async retrieveFromSources(
-    searchTerms: string[], 
-    targetSources: string[], 
-    refinedQuery: string
+    searchTerms: string[],
+    targetSources: string[],
+    refinedQuery: string,
+    options: RetrievalOptions = {}
   ): Promise<SearchResult[]> {
-    const allResults: SearchResult[] = [];
-    
-    console.log(`🔍 Honig: Retrieving from sources: ${targetSources.join(', ')}`);
-    
-    for (const sourceType of targetSources) {
-      try {
-        const results = await this.retrieveFromSource(sourceType, searchTerms, refinedQuery);
-        allResults.push(...results);
-      } catch (error) {
-        console.error(`Failed to retrieve from ${sourceType}:`, error);
-      }
-    }
-
-    // Sort by relevance and priority
-    return allResults
-      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
-      .slice(0, 15); // Limit total results
+    const report = await this.retrieveWithReport(searchTerms, targetSources, refinedQuery, options);
+    return report.results;
   }
 
-  private async retrieveFromSource(
-    sourceType: string, 
-    searchTerms: string[], 
-    refinedQuery: string
-  ): Promise<SearchResult[]> {
-    const source = this.sources.get(sourceType);
-    if (!source) return [];
-
-    switch (sourceType) {
-      case 'wikipedia':
-        return this.searchWikipedia(searchTerms, refinedQuery);
-      
-      case 'reddit':
-        return this.searchReddit(searchTerms, refinedQuery);
-      
-      case 'quora':
-        return this.searchQuora(searchTerms, refinedQuery);
-      
-      case 'news':
-        return this.searchNews(searchTerms, refinedQuery);
-      
-      case 'academic':
-        return this.searchAcademic(searchTerms, refinedQuery);
-      
-      case 'forums':
-        return this.searchForums(searchTerms, refinedQuery);
-      
-      default:
-        return [];
+  // All target sources are queried at once; whatever has answered by the deadline is used
+  // and every source's latency, result count and failure is reported alongside the results
+  async retrieveWithReport(
+    searchTerms: string[],
+    targetSources: string[],
+    refinedQuery: string,
+    options: RetrievalOptions = {}
+  ): Promise<SourceRetrievalReport> {
+    const startTime = Date.now();
+    const deadline = Math.min(startTime + this.totalTimeoutMs, options.deadline ?? Infinity);
+    const sourceIds = this.registry.expand(targetSources);
+
+    console.log(`🔍 Honig: Retrieving from sources: ${sourceIds.join(', ')}`);
+
+    const outcomes = await Promise.all(
+      sourceIds.map(sourceType => this.retrieveWithTimeout(sourceType, searchTerms, refinedQuery, deadline, options.language))
+    );
+
+    const stats = outcomes.map(outcome => outcome.stat);
+    const failed = stats.filter(stat => stat.status === 'error' || stat.status === 'timeout');
+    if (failed.length > 0) {
+      console.warn(`⚠️ Partial retrieval: ${failed.map(stat => `${stat.source} (${stat.status})`).join(', ')}`);
     }
-  }
+    console.log(`⏱️ Retrieval finished in ${Date.now() - startTime}ms:`, stats.map(stat => `${stat.source} ${stat.latencyMs}ms/${stat.resultCount}`).join(', '));
+
+    // Sort by relevance, then by source priority
+    const results = outcomes
+      .flatMap(outcome => outcome.results.map(result => ({ result, priority: outcome.priority })))
+      .sort((a, b) =>
+        (b.result.relevanceScore || 0) - (a.result.relevanceScore || 0) || b.priority - a.priority
+      )
+      .map(({ result }) => result)
+      .slice(0, 15); // Limit total results
 
-  private async searchWikipedia(searchTerms: string[], query: string): Promise<SearchResult[]> {
-    try {
-      const searchQuery = searchTerms.join(' ');
-      const url = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(searchQuery)}&format=json&origin=*&srlimit=3`;
-      
-      const response = await fetch(url);
-      const data = await response.json();
-      
-      if (!data.query?.search) return [];
-      
-      return data.query.search.map((item: any, index: number) => ({
-        title: item.title,
-        url: `https://en.wikipedia.org/wiki/${encodeURIComponent(item.title.replace(/ /g, '_'))}`,
-        snippet: item.snippet.replace(/<[^>]*>/g, ''), // Remove HTML tags
-        source: 'wikipedia',
-        type: 'knowledge' as const,
-        relevanceScore: Math.max(0.1, 0.9 - (index * 0.1)),
-        metadata: {
-          wordcount: item.wordcount,
-          timestamp: item.timestamp
-        }
-      }));
-    } catch (error) {
-      console.error('Wikipedia search failed:', error);
-      return [];
-    }
+    return { results, stats };
   }
 
-  private async searchReddit(searchTerms: string[], query: string): Promise<SearchResult[]> {
-    if (!this.serperApiKey) return [];
-
-    try {
-      const searchQuery = `site:reddit.com ${searchTerms.join(' ')}`;
-      return this.searchWithSerper(searchQuery, 'reddit', 4);
-    } catch (error) {
-      console.error('Reddit search failed:', error);
-      return [];
-    }
-  }
-
-  private async searchQuora(searchTerms: string[], query: string): Promise<SearchResult[]> {
-    if (!this.serperApiKey) return [];
+  private async retrieveWithTimeout(
+    sourceType: string,
+    searchTerms: string[],
+    refinedQuery: string,
+    deadline: number,
+    language?: string
+  ): Promise<{ results: SearchResult[]; priority: number; stat: SourceRetrievalStat }> {
+    const startTime = Date.now();
+    const stat = (status: SourceRetrievalStat['status'], resultCount = 0, error?: string): SourceRetrievalStat => ({
+      source: sourceType,
+      query: refinedQuery,
+      status,
+      latencyMs: Date.now() - startTime,
+      resultCount,
+      error
+    });
 
-    try {
-      const searchQuery = `site:quora.com ${searchTerms.join(' ')}`;
-      return this.searchWithSerper(searchQuery, 'quora', 3);
-    } catch (error) {
-      console.error('Quora search failed:', error);
-      return [];
+    const adapter = this.registry.get(sourceType);
+    if (!adapter) {
+      return { results: [], priority: 0, stat: stat('skipped', 0, 'Unknown source') };
     }
-  }
-
-  private async searchNews(searchTerms: string[], query: string): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-
-    // Try NewsAPI first
-    if (this.newsApiKey) {
-      try {
-        const newsResults = await this.searchWithNewsAPI(searchTerms.join(' '));
-        results.push(...newsResults);
-      } catch (error) {
-        console.error('NewsAPI search failed:', error);
-      }
+    if (!adapter.isConfigured()) {
+      return { results: [], priority: adapter.priority, stat: stat('skipped', 0, 'No API key configured') };
     }
-
-    // Fallback to Serper for news
-    if (results.length === 0 && this.serperApiKey) {
-      try {
-        const serperResults = await this.searchWithSerper(searchTerms.join(' '), 'news', 5);
-        results.push(...serperResults);
-      } catch (error) {
-        console.error('Serper news search failed:', error);
-      }
+    if (this.isRateLimited(adapter)) {
+      return { results: [], priority: adapter.priority, stat: stat('skipped', 0, 'Rate limit reached') };
     }
 
-    return results;
-  }
-
-  private async searchAcademic(searchTerms: string[], query: string): Promise<SearchResult[]> {
-    if (!this.serperApiKey) return [];
-
-    try {
-      const searchQuery = `${searchTerms.join(' ')} site:arxiv.org OR site:scholar.google.com OR site:researchgate.net`;
-      return this.searchWithSerper(searchQuery, 'academic', 3);
-    } catch (error) {
-      console.error('Academic search failed:', error);
-      return [];
+    const timeoutMs = Math.min(adapter.timeoutMs, deadline - startTime);
+    if (timeoutMs <= 0) {
+      return { results: [], priority: adapter.priority, stat: stat('timeout', 0, 'Deadline passed before the source was queried') };
     }
-  }
 
-  private async searchForums(searchTerms: string[], query: string): Promise<SearchResult[]> {
-    if (!this.serperApiKey) return [];
+    // Aborting cancels the fetch; the race also covers adapters that ignore the signal
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`${adapter.name} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
 
     try {
-      const searchQuery = `${searchTerms.join(' ')} site:stackoverflow.com OR site:stackexchange.com OR site:discourse.org`;
-      return this.searchWithSerper(searchQuery, 'forums', 3);
+      const results = await Promise.race([
+        adapter.search({ searchTerms, query: refinedQuery, maxResults: adapter.maxResults, language }, controller.signal),
+        timeout
+      ]);
+      return { results, priority: adapter.priority, stat: stat('ok', results.length) };
     } catch (error) {
-      console.error('Forums search failed:', error);
-      return [];
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (controller.signal.aborted) {
+        return { results: [], priority: adapter.priority, stat: stat('timeout', 0, `${adapter.name} timed out after ${timeoutMs}ms`) };
+      }
+      console.error(`Failed to retrieve from ${sourceType}:`, errorMessage);
+      return { results: [], priority: adapter.priority, stat: stat('error', 0, errorMessage) };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private async searchWithSerper(query: string, sourceType: string, maxResults: number): Promise<SearchResult[]> {
-    const response = await fetch('https://google.serper.dev/search', {
-      method: 'POST',
-      headers: {
-        'X-API-KEY': this.serperApiKey,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        q: query,
-        num: maxResults
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Serper API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    const results: SearchResult[] = [];
+  // Counts the request when it's allowed through
+  private isRateLimited(adapter: SourceAdapter): boolean {
+    const limit = adapter.capabilities.rateLimit;
+    if (!limit) return false;
 
-    // Process organic results
-    if (data.organic) {
-      results.push(...data.organic.map((item: any, index: number) => ({
-        title: item.title,
-        url: item.link,
-        snippet: item.snippet || '',
-        source: sourceType,
-        type: sourceType === 'news' ? 'news' as const : 'web' as const,
-        relevanceScore: Math.max(0.1, 0.9 - (index * 0.1)),
-        metadata: {
-          position: item.position,
-          displayLink: item.displayLink
-        }
-      })));
+    const now = Date.now();
+    const recent = (this.requestLog.get(adapter.id) || []).filter(timestamp => now - timestamp < limit.perMs);
+    if (recent.length >= limit.requests) {
+      this.requestLog.set(adapter.id, recent);
+      return true;
     }
 
-    return results;
+    recent.push(now);
+    this.requestLog.set(adapter.id, recent);
+    return false;
   }
-
-  private async searchWithNewsAPI(query: string): Promise<SearchResult[]> {
-    const response = await fetch(`https://newsapi.org/v2/everything?q=${encodeURIComponent(query)}&apiKey=${this.newsApiKey}&pageSize=5&sortBy=relevancy`);
-    
-    // Handle NewsAPI quota exceeded (426 Payment Required)
-    if (response.status === 426) {
-      console.warn('NewsAPI quota exceeded or payment required. Skipping NewsAPI search.');
-      return [];
-    }
-    
-    if (!response.ok) {
-      throw new Error(`NewsAPI error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.articles) return [];
-
-    return data.articles.map((article: any, index: number) => ({
-      title: article.title,
-      url: article.url,
-      snippet: article.description || '',
-      source: 'news',
-      type: 'news' as const,
-      relevanceScore: Math.max(0.1, 0.9 - (index * 0.1)),
-      publishedAt: article.publishedAt,
-      metadata: {
-        author: article.author,
-        sourceName: article.source?.name,
-        imageUrl: article.urlToImage
-      }
-    }));
-  }
-}
\ No newline at end of file
+}
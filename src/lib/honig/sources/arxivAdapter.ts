@@ -0,0 +1,84 @@
+import * as cheerio from 'cheerio';
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import { fetchHttpClient, getText, rankScore, truncateAbstract, type HttpAdapterOptions, type HttpClient } from './httpClient';
+
+// Builds a query like all:"large language models" AND all:evaluation from the search terms
+export function buildArxivQuery(searchTerms: string[]): string {
+  return searchTerms
+    .map(term => term.replace(/["()]/g, ' ').trim())
+    .filter(Boolean)
+    .slice(0, 3)
+    .map(term => (term.includes(' ') ? `all:"${term}"` : `all:${term}`))
+    .join(' AND ');
+}
+
+// Reads the Atom feed returned by the arXiv query API
+export function parseArxivFeed(xml: string): SearchResult[] {
+  const $ = cheerio.load(xml, { xml: true });
+
+  return $('entry').toArray().map((entry, index) => {
+    const $entry = $(entry);
+    const absUrl = $entry.children('id').text().trim();
+    const arxivId = absUrl.replace(/^https?:\/\/arxiv\.org\/abs\//, '');
+    const abstract = $entry.children('summary').text().trim();
+    const published = $entry.children('published').text().trim();
+    const doi = $entry.children('arxiv\\:doi').text().trim();
+    const journalRef = $entry.children('arxiv\\:journal_ref').text().trim();
+    const pdfUrl = $entry.children('link[title="pdf"]').attr('href');
+    const year = parseInt(published.substring(0, 4), 10);
+
+    return {
+      title: $entry.children('title').text().replace(/\s+/g, ' ').trim(),
+      url: absUrl.replace(/^http:/, 'https:'),
+      snippet: truncateAbstract(abstract),
+      source: 'arxiv',
+      type: 'academic' as const,
+      relevanceScore: rankScore(index),
+      publishedAt: published || undefined,
+      metadata: {
+        sourceName: 'arXiv',
+        authors: $entry.find('author > name').toArray().map(name => $(name).text().trim()),
+        year: Number.isNaN(year) ? undefined : year,
+        doi: doi || undefined,
+        venue: journalRef || 'arXiv preprint',
+        abstract,
+        pdfUrl: pdfUrl?.replace(/^http:/, 'https:'),
+        externalIds: { arxiv: arxivId }
+      }
+    };
+  });
+}
+
+export class ArxivAdapter implements SourceAdapter {
+  id = 'arxiv';
+  name = 'arXiv';
+  description = 'Preprints in physics, mathematics, computer science, AI and quantitative fields';
+  priority = 8;
+  maxResults: number;
+  timeoutMs = 6000;
+  capabilities: SourceCapabilities = {
+    queryTypes: ['technical', 'factual'],
+    requiresApiKey: false,
+    rateLimit: { requests: 20, perMs: 60000 } // arXiv asks for gentle use of the API
+  };
+  private http: HttpClient;
+
+  constructor(options: HttpAdapterOptions = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 3;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const query = buildArxivQuery(request.searchTerms.length > 0 ? request.searchTerms : [request.query]);
+    if (!query) return [];
+
+    const url = `https://export.arxiv.org/api/query?search_query=${encodeURIComponent(query)}&start=0&max_results=${request.maxResults}&sortBy=relevance`;
+    const xml = await getText(this.http, url, 'arXiv', { signal });
+    return parseArxivFeed(xml);
+  }
+}
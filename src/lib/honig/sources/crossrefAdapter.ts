@@ -0,0 +1,92 @@
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import { fetchHttpClient, getJson, rankScore, truncateAbstract, type HttpAdapterOptions, type HttpClient } from './httpClient';
+
+interface CrossrefWork {
+  DOI: string;
+  URL?: string;
+  title?: string[];
+  author?: Array<{ given?: string; family?: string; name?: string }>;
+  issued?: { 'date-parts'?: Array<Array<number | null>> };
+  'container-title'?: string[];
+  abstract?: string; // JATS XML
+  'is-referenced-by-count'?: number;
+}
+
+interface CrossrefResponse {
+  message?: { items?: CrossrefWork[] };
+}
+
+const SELECT_FIELDS = 'DOI,URL,title,author,issued,container-title,abstract,is-referenced-by-count';
+
+// Crossref abstracts are JATS XML (<jats:p> etc.)
+function stripJats(abstract: string): string {
+  return abstract.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function parseCrossrefResponse(data: CrossrefResponse): SearchResult[] {
+  return (data.message?.items || [])
+    .filter(work => work.title && work.title.length > 0)
+    .map((work, index) => {
+      const year = work.issued?.['date-parts']?.[0]?.[0] ?? undefined;
+      const abstract = work.abstract ? stripJats(work.abstract) : '';
+
+      return {
+        title: work.title![0],
+        url: work.URL || `https://doi.org/${work.DOI}`,
+        snippet: truncateAbstract(abstract),
+        source: 'crossref',
+        type: 'academic' as const,
+        relevanceScore: rankScore(index),
+        publishedAt: year ? String(year) : undefined,
+        metadata: {
+          sourceName: 'Crossref',
+          authors: (work.author || [])
+            .map(author => author.name || [author.given, author.family].filter(Boolean).join(' '))
+            .filter(Boolean),
+          year: year ?? undefined,
+          doi: work.DOI,
+          venue: work['container-title']?.[0],
+          abstract: abstract || undefined,
+          citationCount: work['is-referenced-by-count'],
+          externalIds: { doi: work.DOI }
+        }
+      };
+    });
+}
+
+export class CrossrefAdapter implements SourceAdapter {
+  id = 'crossref';
+  name = 'Crossref';
+  description = 'DOI-registered journal articles, conference papers and books from all publishers';
+  priority = 6;
+  maxResults: number;
+  timeoutMs = 6000;
+  capabilities: SourceCapabilities = {
+    queryTypes: ['factual'],
+    requiresApiKey: false,
+    rateLimit: { requests: 50, perMs: 1000 }
+  };
+  private http: HttpClient;
+  private mailto: string;
+
+  // A contact address puts requests in Crossref's faster "polite" pool
+  constructor(options: HttpAdapterOptions & { mailto?: string } = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 3;
+    this.mailto = options.mailto || '';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const query = request.searchTerms.length > 0 ? request.searchTerms.join(' ') : request.query;
+    const mailtoParam = this.mailto ? `&mailto=${encodeURIComponent(this.mailto)}` : '';
+    const url = `https://api.crossref.org/works?query=${encodeURIComponent(query)}&rows=${request.maxResults}&select=${SELECT_FIELDS}${mailtoParam}`;
+
+    const data = await getJson<CrossrefResponse>(this.http, url, 'Crossref', { signal });
+    return parseCrossrefResponse(data);
+  }
+}
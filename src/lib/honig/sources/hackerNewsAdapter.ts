@@ -0,0 +1,92 @@
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import {
+  fetchHttpClient,
+  getJson,
+  htmlToText,
+  popularityBoost,
+  rankScore,
+  truncateAbstract,
+  type HttpAdapterOptions,
+  type HttpClient
+} from './httpClient';
+
+interface AlgoliaHit {
+  objectID: string;
+  title?: string | null;
+  url?: string | null;
+  author?: string;
+  points?: number | null;
+  num_comments?: number | null;
+  created_at?: string;
+  story_text?: string | null; // HTML, set on Ask HN and text posts
+}
+
+interface AlgoliaSearchResponse {
+  hits?: AlgoliaHit[];
+}
+
+// Link stories point at the article (which gets scraped); text posts carry their own content
+export function parseHackerNewsResponse(data: AlgoliaSearchResponse): SearchResult[] {
+  return (data.hits || [])
+    .filter(hit => hit.title)
+    .map((hit, index) => {
+      const discussionUrl = `https://news.ycombinator.com/item?id=${hit.objectID}`;
+      const storyText = hit.story_text ? htmlToText(hit.story_text) : '';
+      const points = hit.points || 0;
+      const comments = hit.num_comments || 0;
+
+      return {
+        title: hit.title!,
+        url: hit.url || discussionUrl,
+        snippet: storyText
+          ? truncateAbstract(storyText, 400)
+          : `${points} points and ${comments} comments on Hacker News`,
+        source: 'hackernews',
+        type: 'web' as const,
+        relevanceScore: Math.min(1, rankScore(index) + popularityBoost(points)),
+        publishedAt: hit.created_at,
+        content: storyText || undefined,
+        metadata: {
+          sourceName: 'Hacker News',
+          author: hit.author,
+          score: points,
+          commentCount: comments,
+          displayLink: discussionUrl,
+          externalIds: { hackernews: hit.objectID }
+        }
+      };
+    });
+}
+
+export class HackerNewsAdapter implements SourceAdapter {
+  id = 'hackernews';
+  name = 'Hacker News';
+  description = 'Tech industry discussion, launches and developer experiences from Hacker News';
+  priority = 6;
+  maxResults: number;
+  timeoutMs = 5000;
+  capabilities: SourceCapabilities = {
+    queryTypes: ['technical', 'opinion'],
+    requiresApiKey: false,
+    rateLimit: { requests: 100, perMs: 60000 } // Algolia allows 10,000 requests an hour per IP
+  };
+  private http: HttpClient;
+
+  constructor(options: HttpAdapterOptions = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 3;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const query = request.searchTerms.length > 0 ? request.searchTerms.join(' ') : request.query;
+    const url = `https://hn.algolia.com/api/v1/search?query=${encodeURIComponent(query)}&tags=story&hitsPerPage=${request.maxResults}`;
+
+    const data = await getJson<AlgoliaSearchResponse>(this.http, url, 'Hacker News', { signal });
+    return parseHackerNewsResponse(data);
+  }
+}
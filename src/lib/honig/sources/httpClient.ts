@@ -0,0 +1,81 @@
+import * as cheerio from 'cheerio';
+
+// The slice of fetch the source adapters use. Adapters take an HttpClient so they can be
+// exercised offline against canned responses instead of the live APIs.
+export interface HttpRequestOptions {
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+}
+
+export interface HttpResponse {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  json(): Promise<unknown>;
+}
+
+export interface HttpClient {
+  get(url: string, options?: HttpRequestOptions): Promise<HttpResponse>;
+}
+
+// Constructor options shared by adapters that call a public HTTP API
+export interface HttpAdapterOptions {
+  http?: HttpClient; // defaults to fetch
+  maxResults?: number;
+}
+
+export const fetchHttpClient: HttpClient = {
+  get: (url, options = {}) => fetch(url, { signal: options.signal, headers: options.headers })
+};
+
+// The type parameter describes the fields the caller reads; it isn't validated
+export async function getJson<T>(
+  http: HttpClient,
+  url: string,
+  sourceName: string,
+  options: HttpRequestOptions = {}
+): Promise<T> {
+  const response = await http.get(url, options);
+  if (!response.ok) {
+    throw new Error(`${sourceName} API error: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+export async function getText(
+  http: HttpClient,
+  url: string,
+  sourceName: string,
+  options: HttpRequestOptions = {}
+): Promise<string> {
+  const response = await http.get(url, options);
+  if (!response.ok) {
+    throw new Error(`${sourceName} API error: ${response.status}`);
+  }
+  return response.text();
+}
+
+// Rank-based score in the same 0.1-0.9 range the other sources use
+export function rankScore(index: number): number {
+  return Math.max(0.1, 0.9 - (index * 0.1));
+}
+
+// Plain text from API-supplied HTML (answer bodies, story text), keeping paragraph and code breaks
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('br').replaceWith('\n');
+  $('li').prepend('- ').after('\n');
+  // Breaks on both sides: Hacker News separates paragraphs with unclosed <p> tags
+  $('p, pre, ul, ol, blockquote, h1, h2, h3, h4, h5, h6').before('\n\n').after('\n\n');
+  return $.root().text().replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Small boost for votes, points or citations on top of the search rank, capped at 0.1
+export function popularityBoost(count = 0): number {
+  return Math.min(0.1, Math.log10(Math.max(0, count) + 1) / 40);
+}
+
+export function truncateAbstract(text: string, maxLength = 600): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > maxLength ? clean.substring(0, maxLength) + '...' : clean;
+}
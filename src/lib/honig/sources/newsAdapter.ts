@@ -0,0 +1,118 @@
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import { searchWithSerper } from './serperAdapter';
+
+interface NewsApiArticle {
+  source?: { id?: string | null; name?: string | null };
+  author?: string | null;
+  title: string;
+  description?: string | null;
+  url: string;
+  urlToImage?: string | null;
+  publishedAt?: string;
+}
+
+interface NewsApiResponse {
+  articles?: NewsApiArticle[];
+}
+
+// NewsAPI first, Serper as the fallback when NewsAPI is missing, out of quota or empty
+export class NewsAdapter implements SourceAdapter {
+  id = 'news';
+  name = 'News';
+  description = 'Recent news articles and current events';
+  priority = 9;
+  maxResults = 5;
+  timeoutMs = 8000; // two backends in a row, so it gets two requests' worth of time
+  capabilities: SourceCapabilities = {
+    queryTypes: ['news', 'general'],
+    requiresApiKey: true
+  };
+  private newsApiKey: string;
+  private serperApiKey: string;
+
+  constructor(newsApiKey?: string, serperApiKey?: string) {
+    this.newsApiKey = newsApiKey || '';
+    this.serperApiKey = serperApiKey || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.newsApiKey || !!this.serperApiKey;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+    let lastError: unknown = null;
+
+    // Try NewsAPI first
+    if (this.newsApiKey) {
+      try {
+        const newsResults = await this.searchWithNewsAPI(request.searchTerms.join(' '), request.maxResults, signal);
+        results.push(...newsResults);
+      } catch (error) {
+        console.error('NewsAPI search failed:', error);
+        lastError = error;
+      }
+    }
+
+    // Fallback to Serper for news
+    if (results.length === 0 && this.serperApiKey && !signal?.aborted) {
+      try {
+        const serperResults = await searchWithSerper(
+          this.serperApiKey,
+          request.searchTerms.join(' '),
+          'news',
+          request.maxResults,
+          signal
+        );
+        results.push(...serperResults);
+      } catch (error) {
+        console.error('Serper news search failed:', error);
+        lastError = error;
+      }
+    }
+
+    // Only an error when neither backend produced anything
+    if (results.length === 0 && lastError) {
+      throw lastError;
+    }
+
+    return results;
+  }
+
+  private async searchWithNewsAPI(query: string, maxResults: number, signal?: AbortSignal): Promise<SearchResult[]> {
+    const response = await fetch(
+      `https://newsapi.org/v2/everything?q=${encodeURIComponent(query)}&apiKey=${this.newsApiKey}&pageSize=${maxResults}&sortBy=relevancy`,
+      { signal }
+    );
+
+    // Handle NewsAPI quota exceeded (426 Payment Required)
+    if (response.status === 426) {
+      console.warn('NewsAPI quota exceeded or payment required. Skipping NewsAPI search.');
+      return [];
+    }
+
+    if (!response.ok) {
+      throw new Error(`NewsAPI error: ${response.status}`);
+    }
+
+    const data: NewsApiResponse = await response.json();
+
+    if (!data.articles) return [];
+
+    return data.articles.map((article, index) => ({
+      title: article.title,
+      url: article.url,
+      snippet: article.description || '',
+      source: 'news',
+      type: 'news' as const,
+      relevanceScore: Math.max(0.1, 0.9 - (index * 0.1)),
+      publishedAt: article.publishedAt,
+      metadata: {
+        author: article.author ?? undefined,
+        sourceName: article.source?.name ?? undefined,
+        imageUrl: article.urlToImage ?? undefined
+      }
+    }));
+  }
+}
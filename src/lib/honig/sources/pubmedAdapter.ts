@@ -0,0 +1,128 @@
+import * as cheerio from 'cheerio';
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import {
+  fetchHttpClient,
+  getJson,
+  getText,
+  rankScore,
+  truncateAbstract,
+  type HttpAdapterOptions,
+  type HttpClient
+} from './httpClient';
+
+const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+interface ESearchResponse {
+  esearchresult?: { idlist?: string[] };
+}
+
+// Reads the PubmedArticleSet XML returned by efetch; results keep the esearch relevance order
+export function parsePubmedArticles(xml: string, idOrder: string[] = []): SearchResult[] {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const results = $('PubmedArticle').toArray().map(article => {
+    const $article = $(article);
+    const pmid = $article.find('MedlineCitation > PMID').first().text().trim();
+    const abstract = $article
+      .find('Abstract > AbstractText')
+      .toArray()
+      .map(section => {
+        const label = $(section).attr('Label');
+        const text = $(section).text().trim();
+        return label ? `${label}: ${text}` : text;
+      })
+      .join('\n');
+    const authors = $article.find('AuthorList > Author').toArray()
+      .map(author => {
+        const $author = $(author);
+        const collective = $author.children('CollectiveName').text().trim();
+        if (collective) return collective;
+        return [$author.children('ForeName').text().trim(), $author.children('LastName').text().trim()]
+          .filter(Boolean)
+          .join(' ');
+      })
+      .filter(Boolean);
+    const yearText = $article.find('JournalIssue > PubDate > Year').first().text().trim() ||
+      $article.find('JournalIssue > PubDate > MedlineDate').first().text().trim().substring(0, 4);
+    const year = parseInt(yearText, 10);
+    const doi = $article.find('ArticleIdList > ArticleId[IdType="doi"]').first().text().trim() ||
+      $article.find('ELocationID[EIdType="doi"]').first().text().trim();
+    const pmcid = $article.find('ArticleIdList > ArticleId[IdType="pmc"]').first().text().trim();
+
+    const externalIds: Record<string, string> = { pubmed: pmid };
+    if (pmcid) externalIds.pmc = pmcid;
+
+    return {
+      title: $article.find('ArticleTitle').first().text().trim(),
+      url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+      snippet: truncateAbstract(abstract),
+      source: 'pubmed',
+      type: 'academic' as const,
+      relevanceScore: 0,
+      publishedAt: Number.isNaN(year) ? undefined : String(year),
+      metadata: {
+        sourceName: 'PubMed',
+        authors,
+        year: Number.isNaN(year) ? undefined : year,
+        doi: doi || undefined,
+        venue: $article.find('Journal > Title').first().text().trim() || undefined,
+        abstract: abstract || undefined,
+        externalIds
+      }
+    };
+  });
+
+  const rank = (result: SearchResult) => {
+    const position = idOrder.indexOf(result.metadata?.externalIds?.pubmed || '');
+    return position === -1 ? idOrder.length : position;
+  };
+
+  return results
+    .filter(result => result.title)
+    .sort((a, b) => rank(a) - rank(b))
+    .map((result, index) => ({ ...result, relevanceScore: rankScore(index) }));
+}
+
+// esearch for relevance-ranked PMIDs, then one efetch for titles, authors, journal, DOI and abstracts
+export class PubMedAdapter implements SourceAdapter {
+  id = 'pubmed';
+  name = 'PubMed';
+  description = 'Biomedical and life-science literature: medicine, health, biology, clinical studies';
+  priority = 7;
+  maxResults: number;
+  timeoutMs = 8000; // two requests in a row
+  capabilities: SourceCapabilities;
+  private http: HttpClient;
+  private apiKey: string;
+
+  constructor(options: HttpAdapterOptions & { apiKey?: string } = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 3;
+    this.apiKey = options.apiKey || '';
+    // NCBI allows 3 requests/second without a key and 10 with one; each search makes two
+    this.capabilities = {
+      queryTypes: ['factual'],
+      requiresApiKey: false,
+      rateLimit: this.apiKey ? { requests: 5, perMs: 1000 } : { requests: 1, perMs: 1000 }
+    };
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const term = request.searchTerms.length > 0 ? request.searchTerms.join(' ') : request.query;
+    const keyParam = this.apiKey ? `&api_key=${encodeURIComponent(this.apiKey)}` : '';
+
+    const searchUrl = `${EUTILS_BASE}/esearch.fcgi?db=pubmed&retmode=json&sort=relevance&retmax=${request.maxResults}&term=${encodeURIComponent(term)}${keyParam}`;
+    const searchData = await getJson<ESearchResponse>(this.http, searchUrl, 'PubMed', { signal });
+    const ids = searchData.esearchresult?.idlist || [];
+    if (ids.length === 0) return [];
+
+    const fetchUrl = `${EUTILS_BASE}/efetch.fcgi?db=pubmed&retmode=xml&id=${ids.join(',')}${keyParam}`;
+    const xml = await getText(this.http, fetchUrl, 'PubMed', { signal });
+    return parsePubmedArticles(xml, ids);
+  }
+}
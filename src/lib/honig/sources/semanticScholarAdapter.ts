@@ -0,0 +1,102 @@
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import {
+  fetchHttpClient,
+  getJson,
+  popularityBoost,
+  rankScore,
+  truncateAbstract,
+  type HttpAdapterOptions,
+  type HttpClient
+} from './httpClient';
+
+interface SemanticScholarPaper {
+  paperId: string;
+  title?: string;
+  abstract?: string | null;
+  year?: number | null;
+  venue?: string | null;
+  url?: string;
+  citationCount?: number;
+  publicationDate?: string | null;
+  authors?: Array<{ name: string }>;
+  externalIds?: Record<string, string | number> | null;
+  openAccessPdf?: { url: string } | null;
+}
+
+interface SemanticScholarSearchResponse {
+  data?: SemanticScholarPaper[];
+}
+
+const FIELDS = 'title,abstract,year,venue,url,citationCount,publicationDate,authors,externalIds,openAccessPdf';
+
+export function parseSemanticScholarResponse(data: SemanticScholarSearchResponse): SearchResult[] {
+  return (data.data || [])
+    .filter(paper => paper.title)
+    .map((paper, index) => {
+      const externalIds: Record<string, string> = { semanticScholar: paper.paperId };
+      Object.entries(paper.externalIds || {}).forEach(([key, value]) => {
+        externalIds[key.toLowerCase()] = String(value);
+      });
+
+      return {
+        title: paper.title!,
+        url: paper.url || `https://www.semanticscholar.org/paper/${paper.paperId}`,
+        snippet: paper.abstract ? truncateAbstract(paper.abstract) : '',
+        source: 'semanticscholar',
+        type: 'academic' as const,
+        relevanceScore: Math.min(1, rankScore(index) + popularityBoost(paper.citationCount)),
+        publishedAt: paper.publicationDate || undefined,
+        metadata: {
+          sourceName: 'Semantic Scholar',
+          authors: (paper.authors || []).map(author => author.name),
+          year: paper.year ?? undefined,
+          doi: externalIds.doi,
+          venue: paper.venue || undefined,
+          abstract: paper.abstract || undefined,
+          citationCount: paper.citationCount,
+          pdfUrl: paper.openAccessPdf?.url,
+          externalIds
+        }
+      };
+    });
+}
+
+export class SemanticScholarAdapter implements SourceAdapter {
+  id = 'semanticscholar';
+  name = 'Semantic Scholar';
+  description = 'Peer-reviewed papers across all fields, with citation counts';
+  priority = 8;
+  maxResults: number;
+  timeoutMs = 6000;
+  capabilities: SourceCapabilities;
+  private http: HttpClient;
+  private apiKey: string;
+
+  // Works without a key on the shared public rate limit; a key gets a dedicated one
+  constructor(options: HttpAdapterOptions & { apiKey?: string } = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 3;
+    this.apiKey = options.apiKey || '';
+    this.capabilities = {
+      queryTypes: ['factual', 'technical'],
+      requiresApiKey: false,
+      rateLimit: this.apiKey ? { requests: 60, perMs: 60000 } : { requests: 100, perMs: 300000 }
+    };
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const query = request.searchTerms.length > 0 ? request.searchTerms.join(' ') : request.query;
+    const url = `https://api.semanticscholar.org/graph/v1/paper/search?query=${encodeURIComponent(query)}&limit=${request.maxResults}&fields=${FIELDS}`;
+
+    const data = await getJson<SemanticScholarSearchResponse>(this.http, url, 'Semantic Scholar', {
+      signal,
+      headers: this.apiKey ? { 'x-api-key': this.apiKey } : undefined
+    });
+    return parseSemanticScholarResponse(data);
+  }
+}
@@ -0,0 +1,106 @@
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+
+interface SerperOrganicResult {
+  title: string;
+  link: string;
+  snippet?: string;
+  position?: number;
+  displayLink?: string;
+}
+
+interface SerperSearchResponse {
+  organic?: SerperOrganicResult[];
+}
+
+export async function searchWithSerper(
+  apiKey: string,
+  query: string,
+  sourceType: string,
+  maxResults: number,
+  signal?: AbortSignal
+): Promise<SearchResult[]> {
+  const response = await fetch('https://google.serper.dev/search', {
+    method: 'POST',
+    signal,
+    headers: {
+      'X-API-KEY': apiKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      q: query,
+      num: maxResults
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Serper API error: ${response.status}`);
+  }
+
+  const data: SerperSearchResponse = await response.json();
+
+  const results: SearchResult[] = [];
+
+  // Process organic results
+  if (data.organic) {
+    results.push(...data.organic.map((item, index) => ({
+      title: item.title,
+      url: item.link,
+      snippet: item.snippet || '',
+      source: sourceType,
+      type: sourceType === 'news' ? 'news' as const : 'web' as const,
+      relevanceScore: Math.max(0.1, 0.9 - (index * 0.1)),
+      metadata: {
+        position: item.position,
+        displayLink: item.displayLink
+      }
+    })));
+  }
+
+  return results;
+}
+
+export interface SerperSiteAdapterConfig {
+  id: string;
+  name: string;
+  description: string;
+  priority: number;
+  maxResults: number;
+  timeoutMs?: number;
+  queryTypes: SourceCapabilities['queryTypes'];
+  buildQuery: (searchTerms: string[]) => string; // usually adds site: filters
+}
+
+// Google results restricted to a set of sites, e.g. Reddit or Stack Overflow
+export class SerperSiteAdapter implements SourceAdapter {
+  id: string;
+  name: string;
+  description: string;
+  priority: number;
+  maxResults: number;
+  timeoutMs: number;
+  capabilities: SourceCapabilities;
+  private apiKey: string;
+  private buildQuery: (searchTerms: string[]) => string;
+
+  constructor(apiKey: string | undefined, config: SerperSiteAdapterConfig) {
+    this.apiKey = apiKey || '';
+    this.id = config.id;
+    this.name = config.name;
+    this.description = config.description;
+    this.priority = config.priority;
+    this.maxResults = config.maxResults;
+    this.timeoutMs = config.timeoutMs ?? 5000;
+    this.capabilities = { queryTypes: config.queryTypes, requiresApiKey: true };
+    this.buildQuery = config.buildQuery;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    if (!this.apiKey) return [];
+    return searchWithSerper(this.apiKey, this.buildQuery(request.searchTerms), this.id, request.maxResults, signal);
+  }
+}
@@ -0,0 +1,35 @@
+import type { SearchResult } from '../../types';
+import type { ProcessedQuery } from '../queryProcessor';
+
+export type SourceQueryType = ProcessedQuery['queryType'];
+
+export interface SourceRateLimit {
+  requests: number;
+  perMs: number; // sliding window; requests beyond the limit are skipped, not queued
+}
+
+export interface SourceCapabilities {
+  queryTypes: SourceQueryType[]; // query types this source is a good default for
+  requiresApiKey: boolean;
+  rateLimit?: SourceRateLimit;
+}
+
+export interface SourceSearchRequest {
+  searchTerms: string[];
+  query: string; // refined query or sub-question the terms were taken from
+  maxResults: number;
+  language?: string; // ISO 639-1 code of the user's query, for sources with language editions
+}
+
+// One searchable source. `id` is the name QueryProcessor puts in targetSources.
+export interface SourceAdapter {
+  id: string;
+  name: string;
+  description: string; // shown to the query model so it knows when to pick this source
+  priority: number; // 1-10, breaks ties between equally relevant results
+  maxResults: number;
+  timeoutMs: number; // a source that hasn't answered by then is aborted and reported as timed out
+  capabilities: SourceCapabilities;
+  isConfigured(): boolean; // false when a required API key is missing
+  search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]>; // throws on failure
+}
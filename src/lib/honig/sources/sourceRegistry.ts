@@ -0,0 +1,172 @@
+import type { SourceAdapter, SourceQueryType } from './sourceAdapter';
+import { WikipediaAdapter } from './wikipediaAdapter';
+import { NewsAdapter } from './newsAdapter';
+import { SerperSiteAdapter } from './serperAdapter';
+import { ArxivAdapter } from './arxivAdapter';
+import { SemanticScholarAdapter } from './semanticScholarAdapter';
+import { PubMedAdapter } from './pubmedAdapter';
+import { CrossrefAdapter } from './crossrefAdapter';
+import { StackExchangeAdapter } from './stackExchangeAdapter';
+import { HackerNewsAdapter } from './hackerNewsAdapter';
+
+export interface SourceValidation {
+  sources: string[]; // what will actually be searched
+  rejected: string[]; // names that aren't registered
+}
+
+export class SourceRegistry {
+  private adapters: Map<string, SourceAdapter> = new Map();
+  private aliases: Map<string, { description: string; sourceIds: string[] }> = new Map();
+
+  // Registering an id that already exists replaces it, so built-in sources can be swapped out
+  register(adapter: SourceAdapter) {
+    if (!adapter.id || !/^[a-z0-9_-]+$/.test(adapter.id)) {
+      throw new Error(`Invalid source id '${adapter.id}': use lowercase letters, digits, '-' or '_'`);
+    }
+    if (this.adapters.has(adapter.id)) {
+      console.log(`🔌 Replacing source adapter: ${adapter.id}`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  unregister(id: string): boolean {
+    return this.adapters.delete(id);
+  }
+
+  // A name that stands for several sources, e.g. "academic" for all the paper databases
+  registerAlias(alias: string, sourceIds: string[], description: string) {
+    if (this.adapters.has(alias)) {
+      throw new Error(`Source alias '${alias}' would shadow a registered source`);
+    }
+    this.aliases.set(alias, { description, sourceIds });
+  }
+
+  // Replaces aliases with their registered member sources, keeping the order and dropping duplicates
+  expand(sourceIds: string[]): string[] {
+    const expanded = sourceIds.flatMap(id => {
+      const alias = this.aliases.get(id);
+      return alias ? alias.sourceIds.filter(member => this.adapters.has(member)) : [id];
+    });
+    return Array.from(new Set(expanded));
+  }
+
+  get(id: string): SourceAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.adapters.has(id);
+  }
+
+  list(): SourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  getSourceIds(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  // Configured sources serving the query type, best first
+  defaultSourcesFor(queryType: SourceQueryType): string[] {
+    const configured = this.list().filter(adapter => adapter.isConfigured());
+    const matching = configured.filter(adapter => adapter.capabilities.queryTypes.includes(queryType));
+
+    return (matching.length > 0 ? matching : configured)
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, 3)
+      .map(adapter => adapter.id);
+  }
+
+  // Drops names the model made up; if nothing usable is left, falls back to the query type's defaults
+  validateTargetSources(targetSources: unknown, queryType: SourceQueryType): SourceValidation {
+    const requested = Array.isArray(targetSources)
+      ? targetSources.filter((source): source is string => typeof source === 'string').map(source => source.trim().toLowerCase())
+      : [];
+
+    const known = (source: string) => this.adapters.has(source) || this.aliases.has(source);
+    const sources = this.expand(requested.filter(known));
+    const rejected = requested.filter(source => !known(source));
+
+    if (rejected.length > 0) {
+      console.warn(`⚠️ Ignoring unknown sources: ${rejected.join(', ')}`);
+    }
+
+    if (!sources.some(source => this.adapters.get(source)!.isConfigured())) {
+      return { sources: this.defaultSourcesFor(queryType), rejected };
+    }
+
+    return { sources, rejected };
+  }
+
+  // Source list for LLM prompts, so custom sources can be picked without editing prompts
+  describeSources(): string {
+    const sources = this.list().map(adapter => {
+      const unavailable = adapter.isConfigured() ? '' : ' [not configured]';
+      return `- "${adapter.id}": ${adapter.description} (best for: ${adapter.capabilities.queryTypes.join(', ')})${unavailable}`;
+    });
+    const aliases = Array.from(this.aliases.entries()).map(([alias, { description, sourceIds }]) =>
+      `- "${alias}": ${description} (searches ${sourceIds.join(', ')})`
+    );
+    return [...sources, ...aliases].join('\n');
+  }
+}
+
+export interface DefaultSourceKeys {
+  serperApiKey?: string;
+  newsApiKey?: string;
+  semanticScholarApiKey?: string; // optional: dedicated rate limit
+  ncbiApiKey?: string; // optional: higher PubMed rate limit
+  crossrefMailto?: string; // optional: Crossref's polite pool
+  stackExchangeKey?: string; // optional: higher daily Stack Exchange quota
+}
+
+// The built-in sources; Serper-backed ones report themselves unconfigured without a key
+export function createDefaultSourceRegistry(keys: DefaultSourceKeys = {}): SourceRegistry {
+  const registry = new SourceRegistry();
+
+  registry.register(new WikipediaAdapter());
+
+  registry.register(new SerperSiteAdapter(keys.serperApiKey, {
+    id: 'reddit',
+    name: 'Reddit',
+    description: 'Personal experiences, recommendations and community discussion',
+    priority: 8,
+    maxResults: 4,
+    queryTypes: ['opinion', 'general'],
+    buildQuery: searchTerms => `site:reddit.com ${searchTerms.join(' ')}`
+  }));
+
+  registry.register(new SerperSiteAdapter(keys.serperApiKey, {
+    id: 'quora',
+    name: 'Quora',
+    description: 'Opinions and explanations answered by individuals',
+    priority: 7,
+    maxResults: 3,
+    queryTypes: ['opinion'],
+    buildQuery: searchTerms => `site:quora.com ${searchTerms.join(' ')}`
+  }));
+
+  registry.register(new NewsAdapter(keys.newsApiKey, keys.serperApiKey));
+
+  // Paper databases with public APIs, so academic search works without a Serper key
+  registry.register(new ArxivAdapter());
+  registry.register(new SemanticScholarAdapter({ apiKey: keys.semanticScholarApiKey }));
+  registry.register(new PubMedAdapter({ apiKey: keys.ncbiApiKey }));
+  registry.register(new CrossrefAdapter({ mailto: keys.crossrefMailto }));
+  registry.registerAlias(
+    'academic',
+    ['arxiv', 'semanticscholar', 'crossref'],
+    'Research papers and scholarly sources across fields'
+  );
+
+  // Technical Q&A and discussion straight from their APIs, with votes and accepted answers
+  registry.register(new StackExchangeAdapter({ apiKey: keys.stackExchangeKey }));
+  registry.register(new HackerNewsAdapter());
+  registry.registerAlias(
+    'forums',
+    ['stackexchange', 'hackernews'],
+    'Technical Q&A and programming discussion'
+  );
+
+  return registry;
+}
@@ -0,0 +1,145 @@
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import {
+  fetchHttpClient,
+  getJson,
+  htmlToText,
+  popularityBoost,
+  rankScore,
+  truncateAbstract,
+  type HttpAdapterOptions,
+  type HttpClient
+} from './httpClient';
+
+const API_BASE = 'https://api.stackexchange.com/2.3';
+
+interface StackExchangeQuestion {
+  question_id: number;
+  title: string; // HTML-escaped
+  link: string;
+  score: number;
+  answer_count: number;
+  is_answered: boolean;
+  accepted_answer_id?: number;
+  tags?: string[];
+  body?: string;
+  creation_date: number; // epoch seconds
+  owner?: { display_name?: string };
+}
+
+interface StackExchangeAnswer {
+  answer_id: number;
+  question_id: number;
+  score: number;
+  is_accepted: boolean;
+  body?: string;
+  owner?: { display_name?: string };
+}
+
+interface StackExchangeResponse<T> {
+  items?: T[];
+  error_message?: string;
+  quota_remaining?: number;
+}
+
+// Questions in search order; an accepted answer becomes the result's content so the page isn't scraped
+export function parseStackExchangeResponse(
+  questions: StackExchangeQuestion[],
+  answers: StackExchangeAnswer[] = [],
+  sourceName = 'Stack Overflow'
+): SearchResult[] {
+  const acceptedById = new Map(answers.filter(answer => answer.is_accepted).map(answer => [answer.answer_id, answer]));
+
+  return questions.map((question, index) => {
+    const accepted = question.accepted_answer_id ? acceptedById.get(question.accepted_answer_id) : undefined;
+    const questionText = question.body ? htmlToText(question.body) : '';
+    const answerText = accepted?.body ? htmlToText(accepted.body) : '';
+
+    // Votes on the question and its accepted answer, plus the accepted flag itself
+    const votes = question.score + (accepted?.score || 0);
+    const relevanceScore = Math.min(1, rankScore(index) + popularityBoost(votes) + (question.accepted_answer_id ? 0.1 : 0));
+
+    return {
+      title: htmlToText(question.title),
+      url: question.link,
+      snippet: truncateAbstract(answerText || questionText, 400),
+      source: 'stackexchange',
+      type: 'web' as const,
+      relevanceScore,
+      publishedAt: new Date(question.creation_date * 1000).toISOString(),
+      content: answerText
+        ? `Question (${question.score} votes):\n${questionText}\n\nAccepted answer (${accepted!.score} votes):\n${answerText}`
+        : undefined,
+      metadata: {
+        sourceName,
+        author: question.owner?.display_name,
+        score: question.score,
+        accepted: Boolean(question.accepted_answer_id),
+        answerCount: question.answer_count,
+        tags: question.tags,
+        externalIds: { stackexchange: String(question.question_id) }
+      }
+    };
+  });
+}
+
+// Searches one Stack Exchange site (Stack Overflow by default), then fetches the accepted answers in one call
+export class StackExchangeAdapter implements SourceAdapter {
+  id = 'stackexchange';
+  name = 'Stack Exchange';
+  description = 'Programming and technical Q&A from Stack Overflow, with voted and accepted answers';
+  priority = 9;
+  maxResults: number;
+  timeoutMs = 8000; // two requests in a row
+  capabilities: SourceCapabilities = {
+    queryTypes: ['technical'],
+    requiresApiKey: false,
+    rateLimit: { requests: 10, perMs: 1000 } // the API throttles above 30 requests/second per IP
+  };
+  private http: HttpClient;
+  private apiKey: string;
+  private site: string;
+
+  // Without a key the API allows 300 requests a day per IP; a key raises that to 10,000
+  constructor(options: HttpAdapterOptions & { apiKey?: string; site?: string } = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 4;
+    this.apiKey = options.apiKey || '';
+    this.site = options.site || 'stackoverflow';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const query = request.searchTerms.length > 0 ? request.searchTerms.join(' ') : request.query;
+    const common = `site=${encodeURIComponent(this.site)}&filter=withbody${this.apiKey ? `&key=${encodeURIComponent(this.apiKey)}` : ''}`;
+
+    const searchUrl = `${API_BASE}/search/advanced?order=desc&sort=relevance&q=${encodeURIComponent(query)}&pagesize=${request.maxResults}&${common}`;
+    const searchData = await getJson<StackExchangeResponse<StackExchangeQuestion>>(this.http, searchUrl, 'Stack Exchange', { signal });
+    if (searchData.error_message) {
+      throw new Error(`Stack Exchange API error: ${searchData.error_message}`);
+    }
+
+    const questions = searchData.items || [];
+    const acceptedIds = questions
+      .map(question => question.accepted_answer_id)
+      .filter((id): id is number => typeof id === 'number');
+    if (acceptedIds.length === 0) {
+      return parseStackExchangeResponse(questions);
+    }
+
+    // Answers are a bonus: if they can't be fetched the questions are still returned and get scraped instead
+    try {
+      const answersUrl = `${API_BASE}/answers/${acceptedIds.join(';')}?order=desc&sort=votes&${common}`;
+      const answerData = await getJson<StackExchangeResponse<StackExchangeAnswer>>(this.http, answersUrl, 'Stack Exchange', { signal });
+      return parseStackExchangeResponse(questions, answerData.items || []);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Stack Exchange answers unavailable:', errorMessage);
+      return parseStackExchangeResponse(questions);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import * as cheerio from 'cheerio';
+import type { SearchResult } from '../../types';
+import type { SourceAdapter, SourceCapabilities, SourceSearchRequest } from './sourceAdapter';
+import { fetchHttpClient, getJson, rankScore, type HttpAdapterOptions, type HttpClient } from './httpClient';
+
+interface WikiSearchResponse {
+  query?: { search?: Array<{ title: string; snippet: string }> };
+}
+
+interface WikiExtractResponse {
+  query?: { pages?: Array<{ title: string; extract?: string; missing?: boolean }> };
+}
+
+interface WikiParseResponse {
+  parse?: { text?: string };
+  error?: { info?: string };
+}
+
+export interface WikipediaSection {
+  title: string; // empty for the lead
+  level: number;
+  text: string;
+}
+
+// Reference lists and link farms; never worth a place in the content budget
+const SKIPPED_SECTIONS = new Set([
+  'references', 'external links', 'see also', 'further reading', 'notes',
+  'bibliography', 'sources', 'citations', 'footnotes'
+]);
+
+// Wikipedia editions whose subdomain differs from the ISO 639-1 code
+const EDITION_ALIASES: Record<string, string> = { nb: 'no' };
+
+export function wikipediaEdition(language?: string): string {
+  const code = (language || 'en').toLowerCase();
+  const edition = EDITION_ALIASES[code] || code;
+  return /^[a-z]{2,3}$/.test(edition) ? edition : 'en';
+}
+
+// Splits a plaintext extract fetched with exsectionformat=wiki on its "== Heading ==" lines
+export function splitExtractSections(extract: string): WikipediaSection[] {
+  const sections: WikipediaSection[] = [{ title: '', level: 1, text: '' }];
+
+  extract.split('\n').forEach(line => {
+    const heading = line.match(/^(={2,6})\s*(.+?)\s*\1\s*$/);
+    if (heading) {
+      sections.push({ title: heading[2], level: heading[1].length, text: '' });
+    } else {
+      sections[sections.length - 1].text += line + '\n';
+    }
+  });
+
+  return sections
+    .map(section => ({ ...section, text: section.text.replace(/\n{3,}/g, '\n\n').trim() }))
+    .filter(section => section.text && !SKIPPED_SECTIONS.has(section.title.toLowerCase()));
+}
+
+// Label/value rows of the first infobox in the lead section's HTML
+export function parseInfobox(html: string, maxEntries = 20): Record<string, string> {
+  const $ = cheerio.load(html);
+  const infobox: Record<string, string> = {};
+  const table = $('table.infobox').first();
+
+  table.find('sup.reference, style, .noprint').remove();
+  table.find('br').replaceWith('; ');
+  table.find('tr').each((_, row) => {
+    if (Object.keys(infobox).length >= maxEntries) return;
+    const label = $(row).children('th').first().text().replace(/\s+/g, ' ').trim();
+    const value = $(row).children('td').first().text().replace(/\s+/g, ' ').replace(/(;\s*)+/g, '; ').trim();
+    if (label && value && !(label in infobox)) {
+      infobox[label] = value.length > 200 ? value.substring(0, 200) + '...' : value;
+    }
+  });
+
+  return infobox;
+}
+
+// The lead always comes first; the other sections follow in order of how many search terms they mention
+export function selectSections(sections: WikipediaSection[], searchTerms: string[], maxLength = 12000): string {
+  const words = Array.from(new Set(
+    searchTerms.flatMap(term => term.toLowerCase().split(/[^\p{L}\p{N}]+/u)).filter(word => word.length > 2)
+  ));
+  const score = (section: WikipediaSection) => {
+    const title = section.title.toLowerCase();
+    const text = section.text.toLowerCase();
+    return words.reduce((total, word) => total + (title.includes(word) ? 3 : 0) + (text.includes(word) ? 1 : 0), 0);
+  };
+
+  const lead = sections.find(section => !section.title);
+  const ranked = sections
+    .filter(section => section.title)
+    .map((section, index) => ({ section, index, score: score(section) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ section }) => section);
+
+  let content = lead ? lead.text.substring(0, maxLength) : '';
+  for (const section of ranked) {
+    const block = `## ${section.title}\n${section.text}`;
+    if (content.length + block.length + 2 > maxLength) continue;
+    content += (content ? '\n\n' : '') + block;
+  }
+
+  return content;
+}
+
+// Searches the edition matching the query language (falling back to English), then pulls
+// plaintext sections and the infobox of the best matches so their pages needn't be scraped
+export class WikipediaAdapter implements SourceAdapter {
+  id = 'wikipedia';
+  name = 'Wikipedia';
+  description = 'Encyclopedic overviews, definitions, history, people and places';
+  priority = 9;
+  maxResults: number;
+  timeoutMs = 8000; // search, then extracts and infoboxes
+  capabilities: SourceCapabilities = {
+    queryTypes: ['factual', 'general'],
+    requiresApiKey: false,
+    rateLimit: { requests: 100, perMs: 60000 }
+  };
+  private http: HttpClient;
+  private articleCount: number;
+
+  constructor(options: HttpAdapterOptions & { articleCount?: number } = {}) {
+    this.http = options.http || fetchHttpClient;
+    this.maxResults = options.maxResults ?? 3;
+    this.articleCount = options.articleCount ?? 2; // best matches that get full sections
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(request: SourceSearchRequest, signal?: AbortSignal): Promise<SearchResult[]> {
+    const searchQuery = request.searchTerms.length > 0 ? request.searchTerms.join(' ') : request.query;
+    let edition = wikipediaEdition(request.language);
+    let hits = await this.searchEdition(edition, searchQuery, request.maxResults, signal);
+
+    if (hits.length === 0 && edition !== 'en') {
+      console.log(`📚 No ${edition}.wikipedia.org results, trying English`);
+      edition = 'en';
+      hits = await this.searchEdition(edition, searchQuery, request.maxResults, signal);
+    }
+
+    const results: SearchResult[] = hits.map((item, index) => ({
+      title: item.title,
+      url: `https://${edition}.wikipedia.org/wiki/${encodeURIComponent(item.title.replace(/ /g, '_'))}`,
+      snippet: cheerio.load(item.snippet).root().text(), // search snippets carry highlight markup
+      source: 'wikipedia',
+      type: 'knowledge' as const,
+      relevanceScore: rankScore(index),
+      metadata: {
+        sourceName: 'Wikipedia',
+        language: edition
+      }
+    }));
+
+    return Promise.all(results.map((result, index) =>
+      index < this.articleCount ? this.withArticle(result, edition, request.searchTerms, signal) : result
+    ));
+  }
+
+  private async searchEdition(edition: string, query: string, limit: number, signal?: AbortSignal) {
+    const url = `https://${edition}.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&srlimit=${limit}&srprop=snippet&format=json&formatversion=2&origin=*`;
+    const data = await getJson<WikiSearchResponse>(this.http, url, 'Wikipedia', { signal });
+    return data.query?.search || [];
+  }
+
+  // Article text is a bonus: if it can't be fetched the search result is kept and its page gets scraped
+  private async withArticle(
+    result: SearchResult,
+    edition: string,
+    searchTerms: string[],
+    signal?: AbortSignal
+  ): Promise<SearchResult> {
+    const api = `https://${edition}.wikipedia.org/w/api.php`;
+    const title = encodeURIComponent(result.title);
+
+    try {
+      const [extractData, parseData] = await Promise.all([
+        getJson<WikiExtractResponse>(this.http, `${api}?action=query&prop=extracts&explaintext=1&exsectionformat=wiki&redirects=1&titles=${title}&format=json&formatversion=2&origin=*`, 'Wikipedia', { signal }),
+        getJson<WikiParseResponse>(this.http, `${api}?action=parse&page=${title}&prop=text&section=0&redirects=1&format=json&formatversion=2&origin=*`, 'Wikipedia', { signal })
+      ]);
+
+      const extract = extractData.query?.pages?.[0]?.extract || '';
+      const sections = splitExtractSections(extract);
+      const infobox = parseData.parse?.text ? parseInfobox(parseData.parse.text) : {};
+      const content = selectSections(sections, searchTerms);
+
+      return {
+        ...result,
+        content: content || undefined,
+        metadata: {
+          ...result.metadata,
+          sections: sections.map(section => section.title).filter(Boolean),
+          infobox: Object.keys(infobox).length > 0 ? infobox : undefined
+        }
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Wikipedia article unavailable for ${result.title}:`, errorMessage);
+      return result;
+    }
+  }
+}
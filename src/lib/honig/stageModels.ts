@@ -0,0 +1,86 @@
+export type HonigModelStage =
+  | 'queryRefinement'
+  | 'databaseSynthesis'
+  | 'contentSynthesis'
+  | 'claimVerification'
+  | 'researchPlanning'
+  | 'fileAnalysis';
+
+export interface HonigStageModelConfig {
+  provider?: string; // registry name; falls back to the router's default provider
+  model?: string; // falls back to the provider's default model
+  temperature?: number;
+  maxOutputTokens?: number;
+  systemPrompt?: string;
+}
+
+export type HonigStageModels = Partial<Record<HonigModelStage, HonigStageModelConfig>>;
+
+export interface ResolvedStageModel {
+  provider: string;
+  model: string;
+}
+
+// Query refinement only has to emit a small JSON object, so keep it cheap and deterministic;
+// claim verification should judge the same evidence the same way every time
+const DEFAULT_STAGE_MODELS: Record<HonigModelStage, HonigStageModelConfig> = {
+  queryRefinement: { temperature: 0.2, maxOutputTokens: 512 },
+  databaseSynthesis: { temperature: 0.3 },
+  contentSynthesis: {},
+  claimVerification: { temperature: 0, maxOutputTokens: 2048 },
+  researchPlanning: { temperature: 0.2, maxOutputTokens: 1024 },
+  fileAnalysis: {}
+};
+
+const STAGE_ENV_VARS: Record<HonigModelStage, string> = {
+  queryRefinement: 'VITE_HONIG_QUERY_MODEL',
+  databaseSynthesis: 'VITE_HONIG_DATABASE_MODEL',
+  contentSynthesis: 'VITE_HONIG_SYNTHESIS_MODEL',
+  claimVerification: 'VITE_HONIG_VERIFICATION_MODEL',
+  researchPlanning: 'VITE_HONIG_RESEARCH_MODEL',
+  fileAnalysis: 'VITE_HONIG_FILE_ANALYSIS_MODEL'
+};
+
+// Merges per-stage overrides onto the defaults; overrides naming an unknown provider
+// fall back to the default provider instead of failing every query
+export function resolveStageModels(
+  overrides: HonigStageModels = {},
+  availableProviders?: string[]
+): Record<HonigModelStage, HonigStageModelConfig> {
+  const resolved = {} as Record<HonigModelStage, HonigStageModelConfig>;
+
+  for (const stage of Object.keys(DEFAULT_STAGE_MODELS) as HonigModelStage[]) {
+    const config = { ...DEFAULT_STAGE_MODELS[stage], ...overrides[stage] };
+
+    if (config.provider && availableProviders && !availableProviders.includes(config.provider)) {
+      console.warn(`⚠️ Honig: LLM provider '${config.provider}' for ${stage} is not configured, using the default provider`);
+      delete config.provider;
+    }
+
+    resolved[stage] = config;
+  }
+
+  return resolved;
+}
+
+// Reads `provider:model` (or just `model`) specs such as VITE_HONIG_QUERY_MODEL=ollama:llama3.1:8b
+export function loadStageModelsFromEnv(knownProviders: string[]): HonigStageModels {
+  const models: HonigStageModels = {};
+
+  for (const [stage, envVar] of Object.entries(STAGE_ENV_VARS) as Array<[HonigModelStage, string]>) {
+    const spec = (import.meta.env[envVar] as string | undefined)?.trim();
+    if (!spec) continue;
+
+    const separatorIndex = spec.indexOf(':');
+    const prefix = separatorIndex > 0 ? spec.substring(0, separatorIndex) : '';
+
+    if (prefix && knownProviders.includes(prefix)) {
+      const model = spec.substring(separatorIndex + 1);
+      models[stage] = model ? { provider: prefix, model } : { provider: prefix };
+    } else {
+      models[stage] = { model: spec };
+    }
+  }
+
+  return models;
+}
@@ -1,6 +1,10 @@
-import { HonigEngine, type HonigConfig, type HonigResponse } from './honig/honigEngine';
+import { HonigEngine, type HonigConfig, type HonigEvent, type HonigQueryOptions, type HonigResponse } from './honig/honigEngine';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../types/supabase';
+import type { SearchResult } from './types';
+import { llmRouter } from './llm/registry';
+import { loadStageModelsFromEnv } from './honig/stageModels';
+import type { ConversationTurn } from './honig/queryProcessor';
 
 export class HonigService {
   private engine: HonigEngine | null = null;
@@ -19,13 +23,12 @@ export class HonigService {
   }
 
   private initialize() {
-    const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
     const serperKey = import.meta.env.VITE_SERPER_API_KEY;
     const newsKey = import.meta.env.VITE_NEWS_API_KEY;
 
-    // Validate Gemini API key (required)
-    if (!geminiKey || geminiKey.trim() === '' || geminiKey === 'your_gemini_api_key_here') {
-      console.warn('⚠️ Honig: Gemini API key not configured');
+    // At least one LLM provider is required
+    if (!llmRouter.hasProviders()) {
+      console.warn('⚠️ Honig: No LLM provider configured');
       this.isInitialized = true;
       return;
     }
@@ -39,9 +42,14 @@ export class HonigService {
 
     try {
       const config: HonigConfig = {
-        geminiApiKey: geminiKey,
+        llm: llmRouter,
+        models: loadStageModelsFromEnv(llmRouter.getAvailableModels()),
         serperApiKey: serperKey && serperKey !== 'your_serper_api_key_here' ? serperKey : undefined,
         newsApiKey: newsKey && newsKey !== 'your_newsapi_key_here' ? newsKey : undefined,
+        semanticScholarApiKey: import.meta.env.VITE_SEMANTIC_SCHOLAR_API_KEY?.trim() || undefined,
+        ncbiApiKey: import.meta.env.VITE_NCBI_API_KEY?.trim() || undefined,
+        crossrefMailto: import.meta.env.VITE_CROSSREF_MAILTO?.trim() || undefined,
+        stackExchangeKey: import.meta.env.VITE_STACKEXCHANGE_KEY?.trim() || undefined,
         supabaseClient: this.supabaseClient,
         maxSources: 12,
         scrapingTimeout: 8000
@@ -63,7 +71,14 @@ export class HonigService {
     }
   }
 
-  async processQuery(query: string): Promise<{
+  // Pass the conversation so follow-ups are rewritten into standalone searches;
+  // onEvent receives stage progress and answer tokens while the engine runs
+  async processQuery(
+    query: string,
+    conversationHistory: ConversationTurn[] = [],
+    onEvent?: (event: HonigEvent) => void,
+    options: HonigQueryOptions = {}
+  ): Promise<{
     response: string;
     sources: any[];
     metadata: any;
@@ -87,18 +102,10 @@ export class HonigService {
     try {
       console.log('🚀 Honig: Processing query:', query);
       
-      const result: HonigResponse = await this.engine.processQuery(query);
+      const result: HonigResponse = await this.engine.processQuery(query, conversationHistory, onEvent, options);
       
       // Format sources for frontend compatibility
-      const formattedSources = result.sources.map(source => ({
-        title: source.title,
-        link: source.url,
-        snippet: source.snippet,
-        source: source.source,
-        type: source.type,
-        publishedAt: source.publishedAt,
-        metadata: source.metadata
-      }));
+      const formattedSources = HonigService.formatSources(result.sources);
 
       console.log('✅ Honig: Query processed successfully');
       console.log('📊 Metadata:', result.metadata);
@@ -142,7 +149,8 @@ export class HonigService {
     if (!this.engine) {
       return {
         isConfigured: false,
-        hasGemini: false,
+        llmProviders: [] as string[],
+        defaultLLMProvider: null as string | null,
         hasSerper: false,
         hasNewsAPI: false,
         hasDatabase: false,
@@ -157,6 +165,19 @@ export class HonigService {
     };
   }
 
+  // Source shape the chat UI renders; order is kept so [n] citations point at the right card
+  static formatSources(sources: SearchResult[]) {
+    return sources.map(source => ({
+      title: source.title,
+      link: source.url,
+      snippet: source.snippet,
+      source: source.source,
+      type: source.type,
+      publishedAt: source.publishedAt,
+      metadata: source.metadata
+    }));
+  }
+
   // Method to determine if a query should use Honig
   static shouldUseHonig(query: string): boolean {
     // Honig is designed for all types of queries that benefit from real-time information
@@ -1,13 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { llmRouter } from './llm/registry';
 
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY || '';
-
-if (!GEMINI_API_KEY) {
-  console.error('Missing Gemini API key');
+if (!llmRouter.hasProviders()) {
+  console.error('No LLM provider configured');
 }
 
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-
 // Helper function to delay execution
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -17,15 +13,9 @@ export async function getGeminiResponse(query: string, maxRetries = 3): Promise<
   
   while (attempt < maxRetries) {
     try {
-      const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" }); // Updated to the correct model name
-
-      const result = await model.generateContent([
-        "You are a helpful AI assistant. Answer questions clearly and accurately. For factual or knowledge-based questions, provide detailed information. For conversational queries, be friendly and engaging.",
-        query
-      ]);
-
-      const response = await result.response;
-      return response.text();
+      return await llmRouter.complete(query, {
+        systemPrompt: "You are a helpful AI assistant. Answer questions clearly and accurately. For factual or knowledge-based questions, provide detailed information. For conversational queries, be friendly and engaging."
+      });
     } catch (error: any) {
       attempt++;
       
@@ -41,7 +31,7 @@ export async function getGeminiResponse(query: string, maxRetries = 3): Promise<
       }
       
       // Log only the error message, not the full error object
-      console.error('Gemini API error:', error.message);
+      console.error('LLM API error:', error.message);
       
       // Return a more specific error message based on the error type
       if (error?.message?.includes('503') || error?.message?.includes('overloaded')) {
@@ -1,4 +1,9 @@
-import type { LLMProvider, QueryClassification } from '../types';
+import type { LLMGenerationOptions, LLMProvider, QueryClassification } from '../types';
+
+export interface LLMCompletionOptions extends LLMGenerationOptions {
+  provider?: string;
+  context?: string;
+}
 
 export class LLMRouter {
   private providers: Map<string, LLMProvider> = new Map();
@@ -11,6 +16,70 @@ export class LLMRouter {
     }
   }
 
+  setDefaultProvider(name: string) {
+    if (!this.providers.has(name)) {
+      throw new Error(`LLM provider '${name}' not found`);
+    }
+    this.defaultProvider = name;
+  }
+
+  getDefaultProvider(): string | null {
+    return this.defaultProvider;
+  }
+
+  hasProviders(): boolean {
+    return this.providers.size > 0;
+  }
+
+  getProvider(name?: string): LLMProvider {
+    const providerName = name || this.defaultProvider;
+    if (!providerName) {
+      throw new Error('No LLM provider available');
+    }
+
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new Error(`LLM provider '${providerName}' not found`);
+    }
+
+    return provider;
+  }
+
+  // Which provider/model a call with these options would actually hit
+  resolveModel(options: Pick<LLMCompletionOptions, 'provider' | 'model'> = {}): { provider: string; model: string } {
+    const providerName = options.provider || this.defaultProvider;
+    if (!providerName) {
+      throw new Error('No LLM provider available');
+    }
+
+    return {
+      provider: providerName,
+      model: options.model || this.getProvider(providerName).defaultModel || 'default'
+    };
+  }
+
+  // Single entry point for pipeline stages: sends the prompt as-is to the chosen (or default) provider
+  async complete(prompt: string, options: LLMCompletionOptions = {}): Promise<string> {
+    const { provider, context, ...generationOptions } = options;
+    return this.getProvider(provider).generateResponse(prompt, context, generationOptions);
+  }
+
+  // Streams tokens when the provider supports it, otherwise yields the full response as one chunk
+  async *completeStream(prompt: string, options: LLMCompletionOptions = {}): AsyncGenerator<string> {
+    const { provider: providerName, context, ...generationOptions } = options;
+    const provider = this.getProvider(providerName);
+
+    if (!provider.generateStreamingResponse) {
+      yield await provider.generateResponse(prompt, context, generationOptions);
+      return;
+    }
+
+    const stream = await provider.generateStreamingResponse(prompt, context, generationOptions);
+    for await (const chunk of stream) {
+      yield chunk;
+    }
+  }
+
   classifyQuery(query: string): QueryClassification {
     const queryLower = query.toLowerCase();
     
@@ -24,22 +93,22 @@ export class LLMRouter {
     // Code-related queries
     if (this.isCodeQuery(queryLower)) {
       queryType = 'code';
-      suggestedModel = 'gemini'; // Good for code generation
+      suggestedModel = this.preferProvider('gemini'); // Good for code generation
     }
     // Factual queries (but not necessarily needing live data)
     else if (this.isFactualQuery(queryLower)) {
       queryType = 'factual';
-      suggestedModel = 'gemini'; // Good for factual responses
+      suggestedModel = this.preferProvider('gemini'); // Good for factual responses
     }
     // Creative queries
     else if (this.isCreativeQuery(queryLower)) {
       queryType = 'creative';
-      suggestedModel = 'gemini'; // Use available model
+      suggestedModel = this.preferProvider('gemini'); // Use available model
     }
     // Analytical queries
     else if (this.isAnalyticalQuery(queryLower)) {
       queryType = 'analytical';
-      suggestedModel = 'gemini'; // Good for analysis and reasoning
+      suggestedModel = this.preferProvider('gemini'); // Good for analysis and reasoning
     }
 
     // Determine time range for live data queries
@@ -214,6 +283,11 @@ export class LLMRouter {
     return analyticalKeywords.some(keyword => query.includes(keyword));
   }
 
+  // Falls back to the default provider when the preferred one isn't configured
+  private preferProvider(name: string): string | undefined {
+    return this.providers.has(name) ? name : this.defaultProvider ?? undefined;
+  }
+
   getAvailableModels(): string[] {
     return Array.from(this.providers.keys());
   }
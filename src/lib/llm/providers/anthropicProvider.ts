@@ -0,0 +1,116 @@
+import type { LLMGenerationOptions, LLMProvider } from '../../types';
+import { ensureOk, readServerSentEvents, withContext } from './httpUtils';
+
+export interface AnthropicConfig {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+type MessageContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'document'; source: { type: 'base64'; media_type: string; data: string } };
+
+interface MessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+}
+
+// Anthropic Messages API, or any gateway that speaks the same /v1/messages protocol
+export class AnthropicProvider implements LLMProvider {
+  name = 'Anthropic';
+  maxTokens = 200000;
+  supportsStreaming = true;
+  supportsAttachments = true;
+
+  private apiKey: string;
+  private baseUrl: string;
+  defaultModel: string;
+
+  constructor(config: AnthropicConfig) {
+    if (!config.apiKey || config.apiKey.trim() === '' || config.apiKey === 'your_anthropic_api_key_here') {
+      throw new Error('Valid Anthropic API key is required');
+    }
+
+    this.apiKey = config.apiKey.trim();
+    this.baseUrl = (config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.defaultModel = config.model || 'claude-3-5-haiku-latest';
+  }
+
+  async generateResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const response = await this.request(prompt, context, options, false);
+    const data: MessagesResponse = await response.json();
+
+    return (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  }
+
+  async generateStreamingResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<string>> {
+    const response = await this.request(prompt, context, options, true);
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const payload of readServerSentEvents(response)) {
+          const event: MessagesStreamEvent = JSON.parse(payload);
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            yield event.delta.text;
+          }
+        }
+      }
+    };
+  }
+
+  private async request(
+    prompt: string,
+    context: string | undefined,
+    options: LLMGenerationOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const content: MessageContentBlock[] = (options.attachments || []).map(attachment => {
+      if (!attachment.mimeType.startsWith('image/') && attachment.mimeType !== 'application/pdf') {
+        throw new Error(`${this.name} provider does not support ${attachment.mimeType} attachments`);
+      }
+      return {
+        type: attachment.mimeType === 'application/pdf' ? 'document' as const : 'image' as const,
+        source: { type: 'base64' as const, media_type: attachment.mimeType, data: attachment.data }
+      };
+    });
+    content.push({ type: 'text', text: withContext(prompt, context) });
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        // Honig calls the API straight from the browser
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        max_tokens: options.maxOutputTokens || 4096,
+        temperature: options.temperature,
+        system: options.systemPrompt,
+        messages: [{ role: 'user', content }],
+        stream
+      })
+    });
+
+    return ensureOk(response, this.name);
+  }
+
+  getModelInfo() {
+    return {
+      name: this.name,
+      model: this.defaultModel,
+      maxTokens: this.maxTokens,
+      supportsStreaming: this.supportsStreaming
+    };
+  }
+}
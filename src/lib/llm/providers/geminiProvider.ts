@@ -1,24 +1,25 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { LLMProvider } from '../../types';
+import type { LLMGenerationOptions, LLMProvider } from '../../types';
 
 export class GeminiProvider implements LLMProvider {
   name = 'Gemini';
   maxTokens = 30720;
   costPerToken = 0.00025; // Approximate cost per 1K tokens
   supportsStreaming = true;
+  supportsAttachments = true;
 
   private genAI: GoogleGenerativeAI;
-  private model: any;
+  defaultModel: string;
   private healthyStatus = false;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, defaultModel = 'gemini-2.0-flash') {
     if (!apiKey || apiKey.trim() === '' || apiKey === 'your_gemini_api_key_here') {
       throw new Error('Valid Gemini API key is required');
     }
     
     try {
       this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+      this.defaultModel = defaultModel;
       this.healthyStatus = true;
     } catch (error) {
       console.error('Failed to initialize Gemini provider:', error);
@@ -30,7 +31,7 @@ export class GeminiProvider implements LLMProvider {
     }
   }
 
-  async generateResponse(prompt: string, context?: string): Promise<string> {
+  async generateResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<string> {
     if (!this.healthyStatus) {
       throw new Error('Gemini provider is not properly initialized');
     }
@@ -42,7 +43,7 @@ export class GeminiProvider implements LLMProvider {
         fullPrompt = `Context: ${context}\n\nQuery: ${prompt}\n\nPlease provide a comprehensive answer based on the context provided. If the context doesn't contain enough information to fully answer the question, clearly state what information is missing.`;
       }
 
-      const result = await this.model.generateContent([fullPrompt]);
+      const result = await this.getModel(options).generateContent(this.buildParts(fullPrompt, options));
       const response = await result.response;
       
       return response.text();
@@ -68,7 +69,7 @@ export class GeminiProvider implements LLMProvider {
     }
   }
 
-  async generateStreamingResponse(prompt: string, context?: string): Promise<AsyncIterable<string>> {
+  async generateStreamingResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<string>> {
     if (!this.healthyStatus) {
       throw new Error('Gemini provider is not properly initialized');
     }
@@ -80,7 +81,7 @@ export class GeminiProvider implements LLMProvider {
         fullPrompt = `Context: ${context}\n\nQuery: ${prompt}\n\nPlease provide a comprehensive answer based on the context provided.`;
       }
 
-      const result = await this.model.generateContentStream([fullPrompt]);
+      const result = await this.getModel(options).generateContentStream(this.buildParts(fullPrompt, options));
       
       return {
         async *[Symbol.asyncIterator]() {
@@ -105,6 +106,32 @@ export class GeminiProvider implements LLMProvider {
     }
   }
 
+  private getModel(options: LLMGenerationOptions) {
+    return this.genAI.getGenerativeModel({
+      model: options.model || this.defaultModel,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens
+      }
+    });
+  }
+
+  // This SDK version has no system instruction field, so the system prompt leads the content parts
+  private buildParts(prompt: string, options: LLMGenerationOptions) {
+    const parts: Array<string | { inlineData: { data: string; mimeType: string } }> = [];
+
+    if (options.systemPrompt) {
+      parts.push(options.systemPrompt);
+    }
+    parts.push(prompt);
+
+    options.attachments?.forEach(attachment => {
+      parts.push({ inlineData: { data: attachment.data, mimeType: attachment.mimeType } });
+    });
+
+    return parts;
+  }
+
   isHealthy(): boolean {
     return this.healthyStatus;
   }
@@ -112,6 +139,7 @@ export class GeminiProvider implements LLMProvider {
   getModelInfo() {
     return {
       name: this.name,
+      model: this.defaultModel,
       maxTokens: this.maxTokens,
       costPerToken: this.costPerToken,
       supportsStreaming: this.supportsStreaming,
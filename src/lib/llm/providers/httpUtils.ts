@@ -0,0 +1,72 @@
+// Helpers shared by the HTTP-based LLM providers (OpenAI-compatible, Anthropic, Ollama)
+
+export function withContext(prompt: string, context?: string): string {
+  if (!context) return prompt;
+
+  return `Context: ${context}\n\nQuery: ${prompt}\n\nPlease provide a comprehensive answer based on the context provided. If the context doesn't contain enough information to fully answer the question, clearly state what information is missing.`;
+}
+
+export async function ensureOk(response: Response, providerName: string): Promise<Response> {
+  if (response.ok) return response;
+
+  const body = await response.text().catch(() => '');
+  const detail = body ? ` - ${body.substring(0, 300)}` : '';
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`${providerName} API authentication failed (${response.status}). Please check your API key.${detail}`);
+  } else if (response.status === 429) {
+    throw new Error(`${providerName} API rate limit exceeded. Please try again later.${detail}`);
+  } else if (response.status === 404) {
+    throw new Error(`${providerName} API endpoint or model not found (404).${detail}`);
+  }
+
+  throw new Error(`${providerName} API error: ${response.status} ${response.statusText}${detail}`);
+}
+
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yields the `data:` payload of each server-sent event (OpenAI and Anthropic streaming format)
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
+
+// Yields each parsed object of a newline-delimited JSON body (Ollama streaming format)
+export async function* readJsonLines<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    if (line.trim()) {
+      yield JSON.parse(line) as T;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import type { LLMGenerationOptions, LLMProvider } from '../../types';
+import { ensureOk, readJsonLines, withContext } from './httpUtils';
+
+export interface OllamaConfig {
+  baseUrl?: string;
+  model?: string;
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+}
+
+// Local models served by Ollama, so Honig can run without any hosted LLM
+export class OllamaProvider implements LLMProvider {
+  name = 'Ollama';
+  maxTokens = 8192;
+  costPerToken = 0;
+  supportsStreaming = true;
+  supportsAttachments = true;
+
+  private baseUrl: string;
+  defaultModel: string;
+
+  constructor(config: OllamaConfig = {}) {
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this.defaultModel = config.model || 'llama3.1';
+  }
+
+  async generateResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const response = await this.request(prompt, context, options, false);
+    const data: OllamaChatResponse = await response.json();
+
+    return data.message?.content ?? '';
+  }
+
+  async generateStreamingResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<string>> {
+    const response = await this.request(prompt, context, options, true);
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const chunk of readJsonLines<OllamaChatResponse>(response)) {
+          const text = chunk.message?.content;
+          if (text) {
+            yield text;
+          }
+          if (chunk.done) return;
+        }
+      }
+    };
+  }
+
+  private async request(
+    prompt: string,
+    context: string | undefined,
+    options: LLMGenerationOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const images = (options.attachments || []).map(attachment => {
+      if (!attachment.mimeType.startsWith('image/')) {
+        throw new Error(`${this.name} provider does not support ${attachment.mimeType} attachments`);
+      }
+      return attachment.data;
+    });
+
+    const messages: Array<{ role: 'system' | 'user'; content: string; images?: string[] }> = [];
+    if (options.systemPrompt) {
+      messages.push({ role: 'system', content: options.systemPrompt });
+    }
+    messages.push({
+      role: 'user',
+      content: withContext(prompt, context),
+      ...(images.length > 0 ? { images } : {})
+    });
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages,
+        stream,
+        options: {
+          temperature: options.temperature,
+          num_predict: options.maxOutputTokens
+        }
+      })
+    });
+
+    return ensureOk(response, this.name);
+  }
+
+  getModelInfo() {
+    return {
+      name: this.name,
+      model: this.defaultModel,
+      baseUrl: this.baseUrl,
+      maxTokens: this.maxTokens,
+      supportsStreaming: this.supportsStreaming
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import type { LLMGenerationOptions, LLMProvider } from '../../types';
+import { ensureOk, readServerSentEvents, withContext } from './httpUtils';
+
+export interface OpenAICompatibleConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  name?: string;
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+// Works with OpenAI and any server exposing the /chat/completions API
+// (Azure OpenAI proxies, OpenRouter, vLLM, LM Studio, llama.cpp server, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: string;
+  maxTokens = 128000;
+  supportsStreaming = true;
+  supportsAttachments = true;
+
+  private apiKey: string;
+  private baseUrl: string;
+  defaultModel: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    const apiKey = config.apiKey?.trim() || '';
+    if (!apiKey && !config.baseUrl) {
+      throw new Error('An API key or a base URL is required for an OpenAI-compatible provider');
+    }
+
+    this.name = config.name || 'OpenAI';
+    this.apiKey = apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.defaultModel = config.model || 'gpt-4o-mini';
+  }
+
+  async generateResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const response = await this.request(prompt, context, options, false);
+    const data: ChatCompletionResponse = await response.json();
+
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  async generateStreamingResponse(prompt: string, context?: string, options: LLMGenerationOptions = {}): Promise<AsyncIterable<string>> {
+    const response = await this.request(prompt, context, options, true);
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const payload of readServerSentEvents(response)) {
+          if (payload === '[DONE]') return;
+
+          const chunk: ChatCompletionChunk = JSON.parse(payload);
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+      }
+    };
+  }
+
+  private async request(
+    prompt: string,
+    context: string | undefined,
+    options: LLMGenerationOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const messages: Array<{ role: 'system' | 'user'; content: string | ChatContentPart[] }> = [];
+
+    if (options.systemPrompt) {
+      messages.push({ role: 'system', content: options.systemPrompt });
+    }
+    messages.push({ role: 'user', content: this.buildUserContent(withContext(prompt, context), options) });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxOutputTokens,
+        stream
+      })
+    });
+
+    return ensureOk(response, this.name);
+  }
+
+  private buildUserContent(text: string, options: LLMGenerationOptions): string | ChatContentPart[] {
+    if (!options.attachments?.length) return text;
+
+    const parts: ChatContentPart[] = [{ type: 'text', text }];
+    for (const attachment of options.attachments) {
+      if (!attachment.mimeType.startsWith('image/')) {
+        throw new Error(`${this.name} provider does not support ${attachment.mimeType} attachments`);
+      }
+      parts.push({
+        type: 'image_url',
+        image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` }
+      });
+    }
+
+    return parts;
+  }
+
+  getModelInfo() {
+    return {
+      name: this.name,
+      model: this.defaultModel,
+      baseUrl: this.baseUrl,
+      maxTokens: this.maxTokens,
+      supportsStreaming: this.supportsStreaming
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import type { LLMProvider } from '../types';
+import { LLMRouter } from './llmRouter';
+import { GeminiProvider } from './providers/geminiProvider';
+import { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { AnthropicProvider } from './providers/anthropicProvider';
+import { OllamaProvider } from './providers/ollamaProvider';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+export const LLM_PROVIDER_STORAGE_KEY = 'honig-llm-provider';
+
+function readEnv(name: string, placeholder?: string): string | undefined {
+  const value = (import.meta.env[name] as string | undefined)?.trim();
+  if (!value || value === placeholder) return undefined;
+  return value;
+}
+
+// Builds a router with every provider configured in .env. Providers that fail to
+// initialize are skipped so one bad key doesn't take down the others.
+export function createLLMRouterFromEnv(): LLMRouter {
+  const router = new LLMRouter();
+
+  const register = (name: LLMProviderName, create: () => LLMProvider) => {
+    try {
+      router.addProvider(name, create());
+      console.log(`🤖 Registered LLM provider: ${name}`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to initialize LLM provider '${name}':`, error);
+    }
+  };
+
+  const geminiKey = readEnv('VITE_GEMINI_API_KEY', 'your_gemini_api_key_here');
+  if (geminiKey) {
+    register('gemini', () => new GeminiProvider(geminiKey, readEnv('VITE_GEMINI_MODEL')));
+  }
+
+  const openAIKey = readEnv('VITE_OPENAI_API_KEY', 'your_openai_api_key_here');
+  const openAIBaseUrl = readEnv('VITE_OPENAI_BASE_URL');
+  if (openAIKey || openAIBaseUrl) {
+    register('openai', () => new OpenAICompatibleProvider({
+      apiKey: openAIKey,
+      baseUrl: openAIBaseUrl,
+      model: readEnv('VITE_OPENAI_MODEL')
+    }));
+  }
+
+  const anthropicKey = readEnv('VITE_ANTHROPIC_API_KEY', 'your_anthropic_api_key_here');
+  if (anthropicKey) {
+    register('anthropic', () => new AnthropicProvider({
+      apiKey: anthropicKey,
+      baseUrl: readEnv('VITE_ANTHROPIC_BASE_URL'),
+      model: readEnv('VITE_ANTHROPIC_MODEL')
+    }));
+  }
+
+  const ollamaBaseUrl = readEnv('VITE_OLLAMA_BASE_URL');
+  const ollamaModel = readEnv('VITE_OLLAMA_MODEL');
+  if (ollamaBaseUrl || ollamaModel) {
+    register('ollama', () => new OllamaProvider({ baseUrl: ollamaBaseUrl, model: ollamaModel }));
+  }
+
+  // Explicit choice: the user's pick from the model selector, then VITE_LLM_PROVIDER
+  const storedProvider = typeof localStorage !== 'undefined' ? localStorage.getItem(LLM_PROVIDER_STORAGE_KEY) : null;
+  const preferredProvider = storedProvider || readEnv('VITE_LLM_PROVIDER');
+  if (preferredProvider && router.getAvailableModels().includes(preferredProvider)) {
+    router.setDefaultProvider(preferredProvider);
+  }
+
+  return router;
+}
+
+// Shared router used by every Honig stage and chat path
+export const llmRouter = createLLMRouterFromEnv();
+
+export function setPreferredLLMProvider(name: string) {
+  llmRouter.setDefaultProvider(name);
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(LLM_PROVIDER_STORAGE_KEY, name);
+  }
+}
@@ -1,7 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../types/supabase';
 import { HonigService } from './honigService';
+import type { HonigEvent } from './honig/honigEngine';
 import { fastCache } from './fastResponseCache';
+import { llmRouter } from './llm/registry';
 
 // Get environment variables with fallbacks
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim() || 'https://placeholder.supabase.co';
@@ -34,22 +36,10 @@ if (isProduction) {
 // Enhanced Gemini response with PERFECT email paragraph formatting
 async function getContextualGeminiResponse(message: string, conversationHistory: any[] = []): Promise<string> {
   try {
-    const geminiKey = import.meta.env.VITE_GEMINI_API_KEY?.trim();
-    
-    if (!geminiKey || geminiKey === 'your_gemini_api_key_here') {
-      return "🔧 **Welcome to Honig!** To use AI features, please configure your Gemini API key in the .env file. See the README for setup instructions.";
+    if (!llmRouter.hasProviders()) {
+      return "🔧 **Welcome to Honig!** To use AI features, please configure an LLM provider (Gemini, OpenAI, Anthropic or Ollama) in the .env file. See the README for setup instructions.";
     }
 
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    const genAI = new GoogleGenerativeAI(geminiKey);
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-2.0-flash",
-      generationConfig: {
-        maxOutputTokens: 2000,
-        temperature: 0.7,
-      }
-    });
-
     // Build comprehensive conversation context
     let contextPrompt = `You are Honig, an AI research assistant developed by Honig. You maintain conversation context and provide helpful, well-structured responses.
 
@@ -234,9 +224,10 @@ EXAMPLE FORMAT:
 
 Provide a helpful response that maintains conversation context and follows all formatting rules above. If this is an email request, ensure PERFECT paragraph structure with blank lines between paragraphs.`;
 
-    const result = await model.generateContent([contextPrompt]);
-    const response = await result.response;
-    return response.text();
+    return await llmRouter.complete(contextPrompt, {
+      maxOutputTokens: 2000,
+      temperature: 0.7
+    });
     
   } catch (error) {
     console.error('Contextual Gemini failed:', error);
@@ -255,7 +246,11 @@ Provide a helpful response that maintains conversation context and follows all f
 }
 
 // Optimized response function with FULL conversation context
-export async function getResponse(message: string, conversationHistory: any[] = []): Promise<string> {
+export async function getResponse(
+  message: string,
+  conversationHistory: any[] = [],
+  onProgress?: (event: HonigEvent) => void
+): Promise<string> {
   try {
     console.log('⚡ Processing query with FULL conversation context...');
     console.log(`📚 Context: ${conversationHistory.length} messages`);
@@ -268,7 +263,6 @@ export async function getResponse(message: string, conversationHistory: any[] =
     }
 
     // 2. Determine processing strategy
-    const needsWebSearch = shouldUseWebSearch(message);
     const isSimpleQuery = isSimpleConversationalQuery(message);
     const isEmailRequest = /^(write|compose|draft|create|send)\s+(an?\s+)?(email|mail|letter|message)\s+(to|for|about)/i.test(message) ||
                           /^(write|compose|draft|create)\s+(me\s+)?(an?\s+)?(email|mail|letter)/i.test(message) ||
@@ -279,9 +273,19 @@ export async function getResponse(message: string, conversationHistory: any[] =
                       message.toLowerCase().includes('about that') ||
                       message.toLowerCase().includes('from what') ||
                       message.toLowerCase().includes('using the');
+
+    // A follow-up question to one that needed the web ("what about in 2023?") needs it too;
+    // Honig rewrites it into a standalone search from the conversation. Replies such as "thanks"
+    // or "can you shorten that?" are about the last answer and stay in the conversation.
+    const previousQuestion = [...conversationHistory]
+      .reverse()
+      .find(msg => msg.role === 'user' && msg.content.trim() !== message.trim());
+    const continuesWebSearch = !!previousQuestion && !isSimpleQuery && isFollowUpQuestion(message) &&
+      shouldUseWebSearch(previousQuestion.content);
+    const needsWebSearch = shouldUseWebSearch(message) || continuesWebSearch;
     
-    // 3. ALWAYS use contextual response for emails, follow-ups, or when there's conversation history
-    if (hasContext || isEmailRequest || isFollowUp) {
+    // 3. Use contextual response for emails, references to earlier content, simple replies, or conversations that don't need the web
+    if (isEmailRequest || isFollowUp || (hasContext && (isSimpleQuery || !needsWebSearch))) {
       console.log('📝 Using contextual Gemini with FULL conversation history');
       console.log(`🔗 Context details: ${conversationHistory.length} messages, isEmail: ${isEmailRequest}, isFollowUp: ${isFollowUp}`);
       const response = await getContextualGeminiResponse(message, conversationHistory);
@@ -290,7 +294,7 @@ export async function getResponse(message: string, conversationHistory: any[] =
     }
 
     // 4. Fast path for simple queries without context
-    if (isSimpleQuery || !needsWebSearch) {
+    if (!hasContext && (isSimpleQuery || !needsWebSearch)) {
       console.log('📝 Using fast Gemini path for simple query');
       const response = await getContextualGeminiResponse(message, []);
       fastCache.setCachedResponse(message, response);
@@ -301,20 +305,36 @@ export async function getResponse(message: string, conversationHistory: any[] =
     if (isProduction && honigService.isConfigured() && needsWebSearch) {
       console.log('🔍 Using Honig for complex query');
       
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
+
       try {
-        const honigPromise = honigService.processQuery(message);
-        const timeoutPromise = new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Honig timeout')), 15000)
-        );
+        const honigPromise = honigService.processQuery(message, conversationHistory, event => {
+          if (timedOut) return;
+          // Once the answer starts streaming, let synthesis run to completion
+          if (event.type === 'token') clearTimeout(timeoutId);
+          onProgress?.(event);
+        });
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => {
+            timedOut = true;
+            reject(new Error('Honig timeout'));
+          }, 15000);
+        });
         
         const result = await Promise.race([honigPromise, timeoutPromise]);
-        fastCache.setCachedResponse(message, result.response);
+        // A rewritten follow-up only answers the message within this conversation
+        if (!hasContext) {
+          fastCache.setCachedResponse(message, result.response);
+        }
         return result.response;
       } catch (honigError) {
         console.warn('Honig failed or timed out, falling back to contextual response:', honigError);
         const fallback = await getContextualGeminiResponse(message, conversationHistory);
         fastCache.setCachedResponse(message, fallback);
         return fallback;
+      } finally {
+        clearTimeout(timeoutId);
       }
     } else {
       // Fallback to contextual response
@@ -364,6 +384,19 @@ function shouldUseWebSearch(query: string): boolean {
   return webSearchIndicators.some(pattern => pattern.test(queryLower));
 }
 
+// Questions that carry an earlier search on ("and in Germany?", "what about last year");
+// acknowledgements and instructions about the previous answer are not
+function isFollowUpQuestion(message: string): boolean {
+  const messageLower = message.toLowerCase().trim();
+
+  if (/^(thanks?|thank you|thx|ok(ay)?|cool|great|nice|perfect|got it|sure|yes|no|yep|nope)\b[\s!.]*$/i.test(messageLower)) {
+    return false;
+  }
+
+  return messageLower.endsWith('?') ||
+    /^(what|who|whom|whose|when|where|which|why|how|is|are|was|were|do|does|did|has|have|will|and|or|also)\b/i.test(messageLower);
+}
+
 // Check if query is simple conversational
 function isSimpleConversationalQuery(query: string): boolean {
   const queryLower = query.toLowerCase().trim();
@@ -1,11 +1,10 @@
+import type { ContentSelectors } from '../scraper/contentExtractor';
+
 export interface CategorySource {
   name: string;
   url: string;
-  selectors?: {
-    title?: string;
-    content?: string;
-    article?: string;
-  };
+  feedUrl?: string; // RSS or Atom; when set, matching recent entries are scraped instead of the homepage
+  selectors?: ContentSelectors;
   updateFrequency?: 'daily' | 'weekly' | 'monthly';
   priority?: number;
 }
@@ -19,9 +18,12 @@ export interface Category {
 
 export class CategoryManager {
   private categories: Map<string, Category> = new Map();
+  private builtInCategories: Map<string, Category> = new Map();
 
-  constructor() {
+  constructor(customCategories: Category[] = []) {
     this.initializeCategories();
+    this.builtInCategories = new Map(this.categories);
+    this.setCustomCategories(customCategories);
   }
 
   private initializeCategories() {
@@ -42,6 +44,7 @@ export class CategoryManager {
         {
           name: 'TechCrunch',
           url: 'https://techcrunch.com',
+          feedUrl: 'https://techcrunch.com/feed/',
           selectors: {
             title: 'h1, .post-title',
             content: '.article-content, .post-content',
@@ -52,6 +55,7 @@ export class CategoryManager {
         {
           name: 'Hacker News',
           url: 'https://news.ycombinator.com',
+          feedUrl: 'https://news.ycombinator.com/rss',
           selectors: {
             title: '.storylink',
             content: '.comment',
@@ -62,6 +66,7 @@ export class CategoryManager {
         {
           name: 'The Verge Tech',
           url: 'https://www.theverge.com/tech',
+          feedUrl: 'https://www.theverge.com/rss/tech/index.xml',
           selectors: {
             title: 'h1, .c-page-title',
             content: '.c-entry-content',
@@ -72,6 +77,7 @@ export class CategoryManager {
         {
           name: 'Ars Technica',
           url: 'https://arstechnica.com',
+          feedUrl: 'https://feeds.arstechnica.com/arstechnica/index',
           selectors: {
             title: 'h1.heading',
             content: '.post-content',
@@ -82,6 +88,7 @@ export class CategoryManager {
         {
           name: 'MIT Technology Review',
           url: 'https://www.technologyreview.com',
+          feedUrl: 'https://www.technologyreview.com/feed/',
           selectors: {
             title: 'h1',
             content: '.content',
@@ -108,6 +115,7 @@ export class CategoryManager {
         {
           name: 'Nature',
           url: 'https://www.nature.com',
+          feedUrl: 'https://www.nature.com/nature.rss',
           selectors: {
             title: 'h1.c-article-title',
             content: '.c-article-body',
@@ -118,6 +126,7 @@ export class CategoryManager {
         {
           name: 'Science Magazine',
           url: 'https://www.science.org',
+          feedUrl: 'https://www.science.org/rss/news_current.xml',
           selectors: {
             title: 'h1.article__headline',
             content: '.article__body',
@@ -138,6 +147,7 @@ export class CategoryManager {
         {
           name: 'Cell',
           url: 'https://www.cell.com',
+          feedUrl: 'https://www.cell.com/cell/current.rss',
           selectors: {
             title: 'h1.article-header__title',
             content: '.article-text',
@@ -174,6 +184,7 @@ export class CategoryManager {
         {
           name: 'Environmental Science & Technology',
           url: 'https://pubs.acs.org/journal/esthag',
+          feedUrl: 'https://pubs.acs.org/action/showFeed?type=etoc&feed=rss&jc=esthag',
           selectors: {
             title: 'h1.article_header-title',
             content: '.article_content',
@@ -184,6 +195,7 @@ export class CategoryManager {
         {
           name: 'Yale Environment 360',
           url: 'https://e360.yale.edu',
+          feedUrl: 'https://e360.yale.edu/feed.xml',
           selectors: {
             title: 'h1.article-title',
             content: '.article-body',
@@ -194,6 +206,7 @@ export class CategoryManager {
         {
           name: 'Carbon Brief',
           url: 'https://www.carbonbrief.org',
+          feedUrl: 'https://www.carbonbrief.org/feed/',
           selectors: {
             title: 'h1.post-title',
             content: '.post-content',
@@ -204,6 +217,7 @@ export class CategoryManager {
         {
           name: 'Environmental Research Letters',
           url: 'https://iopscience.iop.org/journal/1748-9326',
+          feedUrl: 'https://iopscience.iop.org/journal/rss/1748-9326',
           selectors: {
             title: 'h1.wd-jnl-art-title',
             content: '.wd-jnl-art-abstract, .article-text',
@@ -230,6 +244,7 @@ export class CategoryManager {
         {
           name: 'TechCrunch Startups',
           url: 'https://techcrunch.com/category/startups',
+          feedUrl: 'https://techcrunch.com/category/startups/feed/',
           selectors: {
             title: 'h1.article__title',
             content: '.article-content',
@@ -240,6 +255,7 @@ export class CategoryManager {
         {
           name: 'Crunchbase News',
           url: 'https://news.crunchbase.com',
+          feedUrl: 'https://news.crunchbase.com/feed/',
           selectors: {
             title: 'h1.post-title',
             content: '.post-content',
@@ -250,6 +266,7 @@ export class CategoryManager {
         {
           name: 'VentureBeat',
           url: 'https://venturebeat.com',
+          feedUrl: 'https://venturebeat.com/feed/',
           selectors: {
             title: 'h1.article-title',
             content: '.article-content',
@@ -285,6 +302,7 @@ export class CategoryManager {
         {
           name: 'Science Daily',
           url: 'https://www.sciencedaily.com',
+          feedUrl: 'https://www.sciencedaily.com/rss/all.xml',
           selectors: {
             title: 'h1#headline',
             content: '#story_text',
@@ -295,6 +313,7 @@ export class CategoryManager {
         {
           name: 'Scientific American',
           url: 'https://www.scientificamerican.com',
+          feedUrl: 'https://www.scientificamerican.com/platform/syndication/rss/',
           selectors: {
             title: 'h1.article-title',
             content: '.article-text',
@@ -305,6 +324,7 @@ export class CategoryManager {
         {
           name: 'New Scientist',
           url: 'https://www.newscientist.com',
+          feedUrl: 'https://www.newscientist.com/feed/home/',
           selectors: {
             title: 'h1.article-title',
             content: '.article-content',
@@ -315,6 +335,7 @@ export class CategoryManager {
         {
           name: 'Phys.org',
           url: 'https://phys.org',
+          feedUrl: 'https://phys.org/rss-feed/',
           selectors: {
             title: 'h1.news-article__title',
             content: '.news-article__text',
@@ -330,6 +351,35 @@ export class CategoryManager {
     this.categories.set(category.name, category);
   }
 
+  // Replaces any previously set custom categories. One named like a built-in extends it:
+  // its keywords and sources are added to the built-in ones rather than replacing them.
+  setCustomCategories(customCategories: Category[]) {
+    this.categories = new Map(this.builtInCategories);
+
+    for (const custom of customCategories) {
+      const name = custom.name.trim().toLowerCase();
+      const existing = this.categories.get(name);
+
+      if (!existing) {
+        this.addCategory({ ...custom, name, sources: [...custom.sources] });
+        continue;
+      }
+
+      const keywords = Array.from(new Set([...existing.keywords, ...custom.keywords]));
+      const sources = [...existing.sources];
+      for (const source of custom.sources) {
+        if (!sources.some(s => s.url === source.url)) sources.push(source);
+      }
+
+      this.addCategory({
+        name,
+        description: existing.description,
+        keywords,
+        sources
+      });
+    }
+  }
+
   classifyQuery(query: string): string[] {
     const queryLower = query.toLowerCase();
     const matchedCategories: Array<{ category: string; score: number }> = [];
@@ -0,0 +1,181 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../types/supabase';
+import type { Category, CategorySource } from './categoryManager';
+import type { ContentSelectors } from '../scraper/contentExtractor';
+
+type CategoryRow = Database['public']['Tables']['categories']['Row'];
+type CategorySourceRow = Database['public']['Tables']['category_sources']['Row'];
+
+export interface CustomCategorySource extends CategorySource {
+  id: string;
+}
+
+export interface CustomCategory extends Category {
+  id: string;
+  sources: CustomCategorySource[];
+}
+
+export interface CategoryInput {
+  name: string;
+  description?: string;
+  keywords: string[];
+}
+
+// Names are stored lowercased so a custom "Technology" extends the built-in category
+export function normalizeCategoryName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function normalizeKeywords(keywords: string[]): string[] {
+  const cleaned = keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(cleaned));
+}
+
+function normalizeSelectors(selectors: ContentSelectors = {}): ContentSelectors {
+  const normalized: ContentSelectors = {};
+  if (selectors.title?.trim()) normalized.title = selectors.title.trim();
+  if (selectors.content?.trim()) normalized.content = selectors.content.trim();
+  if (selectors.article?.trim()) normalized.article = selectors.article.trim();
+  return normalized;
+}
+
+function toCategorySource(row: CategorySourceRow): CustomCategorySource {
+  const selectors = (row.selectors || {}) as ContentSelectors;
+
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    feedUrl: row.feed_url || undefined,
+    selectors: normalizeSelectors(selectors),
+    priority: row.priority,
+    updateFrequency: (row.update_frequency as CategorySource['updateFrequency']) || undefined
+  };
+}
+
+function toCustomCategory(row: CategoryRow, sources: CategorySourceRow[]): CustomCategory {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    keywords: row.keywords,
+    sources: sources.filter(source => source.category_id === row.id).map(toCategorySource)
+  };
+}
+
+function toSourceColumns(source: Partial<CategorySource>) {
+  return {
+    ...(source.name !== undefined && { name: source.name.trim() }),
+    ...(source.url !== undefined && { url: source.url.trim() }),
+    ...(source.feedUrl !== undefined && { feed_url: source.feedUrl.trim() || null }),
+    ...(source.selectors !== undefined && { selectors: normalizeSelectors(source.selectors) }),
+    ...(source.priority !== undefined && { priority: source.priority }),
+    ...(source.updateFrequency !== undefined && { update_frequency: source.updateFrequency })
+  };
+}
+
+export async function listCustomCategories(
+  client: SupabaseClient<Database>,
+  userId: string
+): Promise<CustomCategory[]> {
+  const { data: categories, error } = await client
+    .from('categories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw new Error(`Failed to load categories: ${error.message}`);
+  if (!categories || categories.length === 0) return [];
+
+  const { data: sources, error: sourcesError } = await client
+    .from('category_sources')
+    .select('*')
+    .in('category_id', categories.map(category => category.id))
+    .order('priority', { ascending: false });
+
+  if (sourcesError) throw new Error(`Failed to load category sources: ${sourcesError.message}`);
+
+  return categories.map(category => toCustomCategory(category, sources || []));
+}
+
+export async function createCustomCategory(
+  client: SupabaseClient<Database>,
+  userId: string,
+  input: CategoryInput
+): Promise<CustomCategory> {
+  const { data, error } = await client
+    .from('categories')
+    .insert({
+      user_id: userId,
+      name: normalizeCategoryName(input.name),
+      description: input.description?.trim() || '',
+      keywords: normalizeKeywords(input.keywords)
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create category: ${error.message}`);
+  return toCustomCategory(data, []);
+}
+
+export async function updateCustomCategory(
+  client: SupabaseClient<Database>,
+  categoryId: string,
+  input: Partial<CategoryInput>
+): Promise<void> {
+  const { error } = await client
+    .from('categories')
+    .update({
+      ...(input.name !== undefined && { name: normalizeCategoryName(input.name) }),
+      ...(input.description !== undefined && { description: input.description.trim() }),
+      ...(input.keywords !== undefined && { keywords: normalizeKeywords(input.keywords) }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', categoryId);
+
+  if (error) throw new Error(`Failed to update category: ${error.message}`);
+}
+
+// Sources are removed with their category by the foreign key cascade
+export async function deleteCustomCategory(client: SupabaseClient<Database>, categoryId: string): Promise<void> {
+  const { error } = await client.from('categories').delete().eq('id', categoryId);
+  if (error) throw new Error(`Failed to delete category: ${error.message}`);
+}
+
+export async function addCategorySource(
+  client: SupabaseClient<Database>,
+  categoryId: string,
+  source: CategorySource
+): Promise<CustomCategorySource> {
+  const { data, error } = await client
+    .from('category_sources')
+    .insert({
+      category_id: categoryId,
+      name: source.name.trim(),
+      url: source.url.trim(),
+      ...toSourceColumns(source)
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to add source: ${error.message}`);
+  return toCategorySource(data);
+}
+
+export async function updateCategorySource(
+  client: SupabaseClient<Database>,
+  sourceId: string,
+  source: Partial<CategorySource>
+): Promise<void> {
+  const { error } = await client
+    .from('category_sources')
+    .update(toSourceColumns(source))
+    .eq('id', sourceId);
+
+  if (error) throw new Error(`Failed to update source: ${error.message}`);
+}
+
+export async function deleteCategorySource(client: SupabaseClient<Database>, sourceId: string): Promise<void> {
+  const { error } = await client.from('category_sources').delete().eq('id', sourceId);
+  if (error) throw new Error(`Failed to delete source: ${error.message}`);
+}
@@ -0,0 +1,139 @@
+import type { DocumentChunk } from './documentChunker';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings';
+
+export interface ChunkRankingOptions {
+  semanticWeight?: number; // share of the hybrid score taken by cosine similarity (0-1)
+  boost?: (chunk: DocumentChunk, queryTerms: string[]) => number; // pipeline-specific multiplier
+}
+
+// Splits on anything that isn't a letter or digit, so queries like "c++" or "what's (new)?"
+// are plain tokens rather than regex patterns
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 2);
+}
+
+// Okapi BM25 over a fixed set of chunks
+export class BM25Index {
+  private termFrequencies: Array<Map<string, number>>;
+  private documentLengths: number[];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength: number;
+  private k1: number;
+  private b: number;
+
+  constructor(documents: string[], k1 = 1.2, b = 0.75) {
+    this.k1 = k1;
+    this.b = b;
+    this.termFrequencies = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      for (const term of tokenize(document)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      return frequencies;
+    });
+
+    this.documentLengths = this.termFrequencies.map(frequencies =>
+      Array.from(frequencies.values()).reduce((sum, count) => sum + count, 0)
+    );
+    this.averageLength = this.documentLengths.reduce((sum, length) => sum + length, 0) / (documents.length || 1);
+
+    this.termFrequencies.forEach(frequencies => {
+      frequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+    });
+  }
+
+  score(queryTerms: string[]): number[] {
+    const documentCount = this.termFrequencies.length;
+    const uniqueTerms = Array.from(new Set(queryTerms));
+
+    return this.termFrequencies.map((frequencies, index) => {
+      const lengthRatio = this.averageLength > 0 ? this.documentLengths[index] / this.averageLength : 1;
+
+      return uniqueTerms.reduce((score, term) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) return score;
+
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        return score + idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + this.b * lengthRatio));
+      }, 0);
+    });
+  }
+}
+
+export class ChunkRanker {
+  private embeddingProvider: EmbeddingProvider | null;
+
+  constructor(embeddingProvider: EmbeddingProvider | null = null) {
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  // Hybrid ranking: normalized BM25 blended with cosine similarity of embeddings.
+  // Falls back to BM25 alone when no embedding provider is configured or embedding fails.
+  async rank(chunks: DocumentChunk[], query: string, options: ChunkRankingOptions = {}): Promise<DocumentChunk[]> {
+    if (chunks.length === 0) return [];
+
+    const semanticWeight = options.semanticWeight ?? 0.6;
+    const queryTerms = tokenize(query);
+
+    const bm25Scores = new BM25Index(chunks.map(chunk => chunk.content)).score(queryTerms);
+    const maxBm25 = Math.max(...bm25Scores, 0);
+
+    const embeddedChunks = await this.embedChunks(chunks);
+    const semanticScores = await this.semanticScores(embeddedChunks, query);
+
+    return embeddedChunks
+      .map((chunk, index) => {
+        const lexical = maxBm25 > 0 ? bm25Scores[index] / maxBm25 : 0;
+        const score = semanticScores
+          ? semanticWeight * semanticScores[index] + (1 - semanticWeight) * lexical
+          : lexical;
+
+        return {
+          ...chunk,
+          relevanceScore: score * (options.boost ? options.boost(chunk, queryTerms) : 1)
+        };
+      })
+      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+  }
+
+  // Populates DocumentChunk.embedding for chunks that don't have one yet
+  private async embedChunks(chunks: DocumentChunk[]): Promise<DocumentChunk[]> {
+    if (!this.embeddingProvider) return chunks;
+
+    const missing = chunks.filter(chunk => !chunk.embedding);
+    if (missing.length === 0) return chunks;
+
+    try {
+      const embeddings = await this.embeddingProvider.embedDocuments(missing.map(chunk => chunk.content));
+      let next = 0;
+
+      return chunks.map(chunk =>
+        chunk.embedding ? chunk : { ...chunk, embedding: embeddings[next++] }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Chunk embedding failed, ranking with BM25 only:', errorMessage);
+      return chunks;
+    }
+  }
+
+  private async semanticScores(chunks: DocumentChunk[], query: string): Promise<number[] | null> {
+    if (!this.embeddingProvider || chunks.some(chunk => !chunk.embedding)) return null;
+
+    try {
+      const queryEmbedding = await this.embeddingProvider.embedQuery(query);
+      // Negative similarity carries no useful signal for retrieval
+      return chunks.map(chunk => Math.max(0, cosineSimilarity(queryEmbedding, chunk.embedding!)));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Query embedding failed, ranking with BM25 only:', errorMessage);
+      return null;
+    }
+  }
+}
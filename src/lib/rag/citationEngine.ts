@@ -9,7 +9,56 @@ export interface Citation {
   relevanceScore: number;
 }
 
+// The text shown to the model under a `[Source n]` block; several chunks of one page share a number
+export interface CitationPassage {
+  sourceIndex: number; // 1-based position in the sources list shown with the answer
+  text: string;
+}
+
+export interface InlineCitationCheck {
+  sourceIndex: number;
+  claim: string; // sentence the marker is attached to, markers stripped
+  support: number; // keyword overlap between the claim and the cited passage (0-1)
+  status: 'verified' | 'unsupported' | 'invalid'; // invalid: no [Source n] block with that number
+  suggestedSourceIndex?: number; // a passage that backs the claim better than the cited one
+}
+
+export interface CitationReport {
+  checks: InlineCitationCheck[];
+  verified: number;
+  unsupported: number;
+  invalid: number;
+}
+
+// Matches [1], [2, 3] style markers but not array indexing like items[1] or markdown links [1](...)
+export const INLINE_CITATION_PATTERN = /(?<!\w)\[(\d+(?:\s*,\s*\d+)*)\](?![(:])/g;
+
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
+
+export function parseCitationNumbers(group: string): number[] {
+  return group.split(',').map(value => parseInt(value.trim(), 10)).filter(Number.isFinite);
+}
+
+// Rewrites citation markers outside of code spans and fenced blocks
+export function replaceCitationMarkers(text: string, replacer: (sourceIndexes: number[], marker: string) => string): string {
+  const replaceIn = (segment: string) =>
+    segment.replace(INLINE_CITATION_PATTERN, (marker, group: string) => replacer(parseCitationNumbers(group), marker));
+
+  let result = '';
+  let lastIndex = 0;
+
+  for (const code of text.matchAll(CODE_PATTERN)) {
+    const start = code.index ?? 0;
+    result += replaceIn(text.slice(lastIndex, start)) + code[0];
+    lastIndex = start + code[0].length;
+  }
+
+  return result + replaceIn(text.slice(lastIndex));
+}
+
 export class CitationEngine {
+  private verificationThreshold = 0.3;
+
   generateCitations(chunks: DocumentChunk[], generatedText: string): Map<string, string[]> {
     const citations = new Map<string, string[]>();
     
@@ -135,4 +184,70 @@ export class CitationEngine {
 
     return citatedText;
   }
-}
\ No newline at end of file
+
+  // Checks every [n] marker the model emitted against the passage it points to
+  verifyInlineCitations(text: string, passages: CitationPassage[]): CitationReport {
+    const passageBySource = new Map(passages.map(passage => [passage.sourceIndex, passage.text]));
+    // Blank out code so indexing like arr[1] inside snippets isn't read as a citation
+    const prose = text.replace(CODE_PATTERN, code => ' '.repeat(code.length));
+    const checks: InlineCitationCheck[] = [];
+
+    for (const match of prose.matchAll(INLINE_CITATION_PATTERN)) {
+      const claim = this.claimBefore(prose, match.index ?? 0);
+      const keywords = this.extractKeywords(claim);
+
+      parseCitationNumbers(match[1]).forEach(sourceIndex => {
+        const passage = passageBySource.get(sourceIndex);
+        if (passage === undefined) {
+          checks.push({ sourceIndex, claim, support: 0, status: 'invalid' });
+          return;
+        }
+
+        const support = this.calculateSimilarity(keywords, passage);
+        const check: InlineCitationCheck = {
+          sourceIndex,
+          claim,
+          support,
+          status: support >= this.verificationThreshold ? 'verified' : 'unsupported'
+        };
+
+        if (check.status === 'unsupported') {
+          const best = passages
+            .map(candidate => ({
+              sourceIndex: candidate.sourceIndex,
+              support: this.calculateSimilarity(keywords, candidate.text)
+            }))
+            .sort((a, b) => b.support - a.support)[0];
+
+          if (best && best.sourceIndex !== sourceIndex && best.support >= this.verificationThreshold) {
+            check.suggestedSourceIndex = best.sourceIndex;
+          }
+        }
+
+        checks.push(check);
+      });
+    }
+
+    return {
+      checks,
+      verified: checks.filter(check => check.status === 'verified').length,
+      unsupported: checks.filter(check => check.status === 'unsupported').length,
+      invalid: checks.filter(check => check.status === 'invalid').length
+    };
+  }
+
+  // The sentence a marker belongs to: handles both "claim [1]." and "claim. [1]"
+  private claimBefore(text: string, markerIndex: number): string {
+    const body = text
+      .slice(0, markerIndex)
+      .replace(/(\s*\[\d+(?:\s*,\s*\d+)*\])+\s*$/, '')
+      .replace(/[\s.!?]+$/, '');
+
+    let start = 0;
+    for (const boundary of body.matchAll(/[.!?](?=\s)|\n/g)) {
+      start = (boundary.index ?? 0) + 1;
+    }
+
+    return body.slice(start).replace(INLINE_CITATION_PATTERN, '').trim();
+  }
+}
@@ -1,3 +1,5 @@
+import { pageAtOffset, type ContentPage } from '../scraper/contentExtractor';
+
 export interface DocumentChunk {
   id: string;
   content: string;
@@ -13,6 +15,7 @@ export interface DocumentChunk {
     sourceName?: string;
     scrapedAt?: Date;
     category?: string;
+    page?: number; // page of a paginated document (e.g. a PDF) the chunk starts on
   };
   embedding?: number[];
   relevanceScore?: number;
@@ -114,7 +117,10 @@ export class DocumentChunker {
     return lastEnd || text.length;
   }
 
-  chunkMultiple(documents: Array<{ content: string; source: string; metadata?: any }>, options: ChunkingOptions = {}): DocumentChunk[] {
+  chunkMultiple(
+    documents: Array<{ content: string; source: string; metadata?: any; pages?: ContentPage[] }>,
+    options: ChunkingOptions = {}
+  ): DocumentChunk[] {
     const allChunks: DocumentChunk[] = [];
 
     documents.forEach(doc => {
@@ -127,6 +133,12 @@ export class DocumentChunker {
         });
       }
 
+      if (doc.pages) {
+        chunks.forEach(chunk => {
+          chunk.metadata.page = pageAtOffset(doc.pages, chunk.metadata.startOffset);
+        });
+      }
+
       allChunks.push(...chunks);
     });
 
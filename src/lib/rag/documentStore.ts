@@ -0,0 +1,309 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../types/supabase';
+import type { SearchResult } from '../types';
+import type { CategoryScrapingResult } from '../scraper/categoryWebScraper';
+import { toIsoDate } from '../scraper/structuredData';
+import { DocumentChunker, type ChunkingOptions, type DocumentChunk } from './documentChunker';
+import type { EmbeddingProvider } from './embeddings';
+
+type MatchedChunkRow = Database['public']['Functions']['match_document_chunks']['Returns'][number];
+
+export type DocumentSourceType = 'news' | 'web' | 'knowledge' | 'wikipedia' | 'academic' | 'category';
+
+// How long a stored document can answer queries before it has to be scraped again
+export const FRESHNESS_WINDOWS_HOURS: Record<DocumentSourceType, number> = {
+  news: 6,
+  category: 12,
+  web: 72,
+  knowledge: 24 * 14,
+  wikipedia: 24 * 21,
+  academic: 24 * 90
+};
+
+// document_chunks.embedding is vector(768); other sizes can't be stored or searched
+export const STORED_EMBEDDING_DIMENSIONS = 768;
+
+export interface IngestDocument {
+  url: string;
+  content: string;
+  sourceType: DocumentSourceType;
+  title?: string;
+  sourceName?: string;
+  category?: string;
+  publishedAt?: string; // ISO; search APIs' relative dates ("3 days ago") are left out
+  scrapedAt?: Date;
+}
+
+export interface DocumentSearchOptions {
+  limit?: number;
+  minSimilarity?: number;
+  freshnessHours?: Partial<Record<DocumentSourceType, number>>;
+}
+
+export function inferSourceType(url: string, type?: string): DocumentSourceType {
+  if (/(^|\.)wikipedia\.org$/i.test(safeHostname(url))) return 'wikipedia';
+
+  switch (type) {
+    case 'news':
+    case 'knowledge':
+    case 'academic':
+    case 'category':
+      return type;
+    default:
+      return 'web';
+  }
+}
+
+export function fromSearchResult(result: SearchResult, content: string, title?: string): IngestDocument {
+  return {
+    url: result.url,
+    content,
+    sourceType: inferSourceType(result.url, result.type),
+    title: title || result.title,
+    sourceName: result.metadata?.sourceName || result.source,
+    publishedAt: toIsoDate(result.publishedAt)
+  };
+}
+
+export function fromCategoryResult(result: CategoryScrapingResult, category?: string): IngestDocument | null {
+  if (!result.content) return null;
+
+  return {
+    url: result.url,
+    content: result.content.content,
+    sourceType: 'category',
+    title: result.content.title,
+    sourceName: result.source.name,
+    category,
+    publishedAt: toIsoDate(result.content.metadata.publishedAt),
+    scrapedAt: result.scrapedAt
+  };
+}
+
+// Turns stored chunks back into SearchResults so callers can cite them like live sources
+export function toSearchResults(chunks: DocumentChunk[]): SearchResult[] {
+  const byUrl = new Map<string, SearchResult>();
+
+  chunks.forEach(chunk => {
+    const url = chunk.metadata.url || chunk.metadata.source;
+    if (byUrl.has(url)) return;
+
+    const sourceType = chunk.metadata.type as DocumentSourceType | undefined;
+    byUrl.set(url, {
+      title: chunk.metadata.title || url,
+      url,
+      snippet: chunk.content.substring(0, 200) + '...',
+      source: chunk.metadata.sourceName || safeHostname(url),
+      type: sourceType === 'wikipedia' ? 'knowledge' : sourceType || 'web',
+      relevanceScore: chunk.relevanceScore,
+      retrievedAt: chunk.metadata.scrapedAt?.toISOString(),
+      metadata: {
+        sourceName: chunk.metadata.sourceName,
+        category: chunk.metadata.category,
+        scrapedAt: chunk.metadata.scrapedAt?.toISOString()
+      }
+    });
+  });
+
+  return Array.from(byUrl.values());
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// FNV-1a; only used to detect whether a page changed since it was last ingested
+function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export class DocumentStore {
+  private supabase: SupabaseClient<Database>;
+  private embeddingProvider: EmbeddingProvider | null;
+  private documentChunker: DocumentChunker;
+
+  constructor(supabase: SupabaseClient<Database>, embeddingProvider: EmbeddingProvider | null) {
+    this.supabase = supabase;
+    this.embeddingProvider = embeddingProvider;
+    this.documentChunker = new DocumentChunker();
+  }
+
+  private get embeddingModel(): string | null {
+    return this.embeddingProvider ? `${this.embeddingProvider.name}:${this.embeddingProvider.model}` : null;
+  }
+
+  // Stores documents and their chunk embeddings. Chunks that were already embedded
+  // (e.g. by ChunkRanker) are reused instead of being embedded a second time. Each signed-in
+  // user has a store of their own; for everyone else this is a no-op.
+  async ingest(
+    documents: IngestDocument[],
+    embeddedChunks: DocumentChunk[] = [],
+    chunkingOptions: ChunkingOptions = {}
+  ): Promise<number> {
+    const { data: { session } } = await this.supabase.auth.getSession();
+    if (!session) return 0;
+
+    let ingested = 0;
+
+    for (const document of documents) {
+      try {
+        if (await this.ingestDocument(session.user.id, document, embeddedChunks, chunkingOptions)) {
+          ingested++;
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Failed to ingest ${document.url}:`, errorMessage);
+      }
+    }
+
+    if (ingested > 0) {
+      console.log(`💾 Ingested ${ingested}/${documents.length} documents into the vector store`);
+    }
+    return ingested;
+  }
+
+  private async ingestDocument(
+    userId: string,
+    document: IngestDocument,
+    embeddedChunks: DocumentChunk[],
+    chunkingOptions: ChunkingOptions
+  ): Promise<boolean> {
+    const contentHash = hashContent(document.content);
+
+    const { data: existing, error: lookupError } = await this.supabase
+      .from('documents')
+      .select('id, content_hash, chunk_count')
+      .eq('user_id', userId)
+      .eq('url', document.url)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    // Unchanged page: just mark it fresh again
+    if (existing && existing.content_hash === contentHash && existing.chunk_count > 0) {
+      const { error } = await this.supabase.rpc('refresh_document', {
+        document_url: document.url,
+        document_hash: contentHash
+      });
+      if (error) throw error;
+      return false;
+    }
+
+    let chunks = embeddedChunks.filter(chunk => chunk.metadata.source === document.url);
+    if (chunks.length === 0) {
+      chunks = this.documentChunker.chunk(document.content, document.url, chunkingOptions);
+    }
+    if (chunks.length === 0) return false;
+
+    const embeddings = await this.embedMissing(chunks);
+
+    // One transaction on the server: the document's hash and chunk count only change together
+    // with its chunks, so a failed write is retried on the next ingest instead of looking unchanged
+    const { error } = await this.supabase.rpc('ingest_document', {
+      new_document: {
+        url: document.url,
+        title: document.title ?? null,
+        source_type: document.sourceType,
+        source_name: document.sourceName ?? null,
+        category: document.category ?? null,
+        published_at: document.publishedAt ?? null,
+        content_hash: contentHash
+      },
+      new_chunks: chunks.map((chunk, index) => ({
+        chunk_index: chunk.metadata.chunkIndex,
+        content: chunk.content,
+        start_offset: chunk.metadata.startOffset,
+        end_offset: chunk.metadata.endOffset,
+        embedding: embeddings[index] ?? null,
+        embedding_model: embeddings[index] ? this.embeddingModel : null
+      }))
+    });
+    if (error) throw error;
+
+    return true;
+  }
+
+  private async embedMissing(chunks: DocumentChunk[]): Promise<Array<number[] | undefined>> {
+    const embeddings: Array<number[] | undefined> = chunks.map(chunk => chunk.embedding);
+    if (!this.embeddingProvider) return embeddings;
+
+    const missingIndexes = embeddings
+      .map((embedding, index) => (embedding ? -1 : index))
+      .filter(index => index >= 0);
+    if (missingIndexes.length === 0) return embeddings;
+
+    try {
+      const fresh = await this.embeddingProvider.embedDocuments(missingIndexes.map(index => chunks[index].content));
+      missingIndexes.forEach((chunkIndex, i) => {
+        embeddings[chunkIndex] = fresh[i];
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Embedding failed during ingest, storing chunks without vectors:', errorMessage);
+    }
+
+    // A model with another output size would fail the whole insert; its chunks are kept as text
+    const mismatched = embeddings.filter(embedding => embedding && embedding.length !== STORED_EMBEDDING_DIMENSIONS);
+    if (mismatched.length > 0) {
+      console.warn(
+        `⚠️ ${this.embeddingModel} returns ${mismatched[0]!.length}-dimension embeddings, the vector store holds ${STORED_EMBEDDING_DIMENSIONS}; storing chunks without vectors`
+      );
+      return embeddings.map(embedding => (embedding?.length === STORED_EMBEDDING_DIMENSIONS ? embedding : undefined));
+    }
+
+    return embeddings;
+  }
+
+  // Nearest fresh chunks for a query among the signed-in user's documents; empty when no
+  // embedding provider is configured
+  async search(query: string, options: DocumentSearchOptions = {}): Promise<DocumentChunk[]> {
+    if (!this.embeddingProvider || !this.embeddingModel) return [];
+
+    const { data: { session } } = await this.supabase.auth.getSession();
+    if (!session) return [];
+
+    const queryEmbedding = await this.embeddingProvider.embedQuery(query);
+    if (queryEmbedding.length !== STORED_EMBEDDING_DIMENSIONS) return [];
+
+    const { data, error } = await this.supabase.rpc('match_document_chunks', {
+      query_embedding: JSON.stringify(queryEmbedding),
+      model_name: this.embeddingModel,
+      match_count: options.limit ?? 12,
+      min_similarity: options.minSimilarity ?? 0.5,
+      freshness_hours: { ...FRESHNESS_WINDOWS_HOURS, ...options.freshnessHours },
+      default_freshness_hours: FRESHNESS_WINDOWS_HOURS.web
+    });
+
+    if (error) {
+      throw new Error(`Vector store search failed: ${error.message}`);
+    }
+
+    return ((data || []) as MatchedChunkRow[]).map(row => ({
+      id: row.chunk_id,
+      content: row.content,
+      metadata: {
+        source: row.url,
+        chunkIndex: row.chunk_index,
+        totalChunks: row.chunk_count,
+        startOffset: row.start_offset ?? 0,
+        endOffset: row.end_offset ?? row.content.length,
+        title: row.title ?? undefined,
+        url: row.url,
+        type: row.source_type,
+        sourceName: row.source_name ?? undefined,
+        scrapedAt: new Date(row.scraped_at),
+        category: row.category ?? undefined
+      },
+      relevanceScore: row.similarity
+    }));
+  }
+}
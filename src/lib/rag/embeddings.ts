@@ -0,0 +1,131 @@
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string; // stored with each vector so embeddings from different models are never compared
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  name = 'Gemini';
+  model: string;
+  private genAI: GoogleGenerativeAI;
+  private batchSize = 100; // batchEmbedContents request limit
+
+  constructor(apiKey: string, model = 'text-embedding-004') {
+    if (!apiKey || apiKey.trim() === '' || apiKey === 'your_gemini_api_key_here') {
+      throw new Error('Valid Gemini API key is required');
+    }
+
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const result = await model.batchEmbedContents({
+        requests: batch.map(text => ({
+          content: { role: 'user', parts: [{ text }] },
+          taskType: TaskType.RETRIEVAL_DOCUMENT
+        }))
+      });
+      embeddings.push(...result.embeddings.map(embedding => embedding.values));
+    }
+
+    return embeddings;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const result = await model.embedContent({
+      content: { role: 'user', parts: [{ text }] },
+      taskType: TaskType.RETRIEVAL_QUERY
+    });
+
+    return result.embedding.values;
+  }
+}
+
+// Local embeddings through Ollama (e.g. `ollama pull nomic-embed-text`)
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  name = 'Ollama';
+  model: string;
+  private baseUrl: string;
+
+  constructor(config: { baseUrl?: string; model?: string } = {}) {
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this.model = config.model || 'nomic-embed-text';
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embedding error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: { embeddings?: number[][] } = await response.json();
+    if (!data.embeddings || data.embeddings.length !== texts.length) {
+      throw new Error('Ollama embedding response did not match the number of inputs');
+    }
+
+    return data.embeddings;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([text]);
+    return embedding;
+  }
+}
+
+// VITE_EMBEDDING_PROVIDER selects 'gemini' or 'ollama'; defaults to Gemini when its key is set
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider | null {
+  const requested = import.meta.env.VITE_EMBEDDING_PROVIDER?.trim().toLowerCase();
+  const model = import.meta.env.VITE_EMBEDDING_MODEL?.trim() || undefined;
+  const geminiKey = import.meta.env.VITE_GEMINI_API_KEY?.trim();
+
+  try {
+    if (requested === 'ollama') {
+      return new OllamaEmbeddingProvider({
+        baseUrl: import.meta.env.VITE_OLLAMA_BASE_URL?.trim() || undefined,
+        model
+      });
+    }
+
+    if ((!requested || requested === 'gemini') && geminiKey && geminiKey !== 'your_gemini_api_key_here') {
+      return new GeminiEmbeddingProvider(geminiKey, model);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn('⚠️ Failed to initialize embedding provider:', errorMessage);
+  }
+
+  return null;
+}
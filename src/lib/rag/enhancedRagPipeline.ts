@@ -1,9 +1,19 @@
 import { SearchEngine } from '../search/searchEngine';
-import { WebScraper } from '../scraper/webScraper';
+import { WebScraper, applyPageMetadata, scrapeSkipReason, type SkippedSource } from '../scraper/webScraper';
+import type { ContentPage, ExtractedContent } from '../scraper/contentExtractor';
 import { CategoryWebScraper, type CategoryScrapingResult } from '../scraper/categoryWebScraper';
-import { CategoryManager } from './categoryManager';
+import { CategoryManager, type Category } from './categoryManager';
 import { DocumentChunker, type DocumentChunk } from './documentChunker';
-import { CitationEngine } from './citationEngine';
+import { CitationEngine, type CitationPassage } from './citationEngine';
+import { ChunkRanker, tokenize } from './chunkRanker';
+import { createEmbeddingProviderFromEnv, type EmbeddingProvider } from './embeddings';
+import {
+  DocumentStore,
+  fromCategoryResult,
+  fromSearchResult,
+  toSearchResults,
+  type IngestDocument
+} from './documentStore';
 import type { SearchResult } from '../types';
 
 export interface EnhancedRAGOptions {
@@ -16,6 +26,9 @@ export interface EnhancedRAGOptions {
   timeRange?: 'day' | 'week' | 'month' | 'year' | 'all';
   preferCategorySources?: boolean;
   categoryTimeout?: number;
+  useDocumentStore?: boolean;
+  minStoredChunks?: number; // strong stored matches needed to skip the network entirely
+  storeMatchThreshold?: number; // cosine similarity that counts as a strong stored match
 }
 
 export interface EnhancedRAGResult {
@@ -24,6 +37,7 @@ export interface EnhancedRAGResult {
   categorySources: CategoryScrapingResult[];
   chunks: DocumentChunk[];
   citations: Map<string, string[]>;
+  passages: CitationPassage[]; // context text per [Source n] block, numbered like `sources`
   metadata: {
     totalSources: number;
     successfulScrapes: number;
@@ -33,6 +47,8 @@ export interface EnhancedRAGResult {
     query: string;
     categoriesMatched: string[];
     searchFallbackUsed: boolean;
+    storedChunksUsed: number;
+    skippedSources: SkippedSource[];
   };
 }
 
@@ -43,14 +59,22 @@ export class EnhancedRAGPipeline {
   private categoryManager: CategoryManager;
   private documentChunker: DocumentChunker;
   private citationEngine: CitationEngine;
-
-  constructor(searchEngine: SearchEngine) {
+  private chunkRanker: ChunkRanker;
+  private documentStore: DocumentStore | null;
+
+  constructor(
+    searchEngine: SearchEngine,
+    embeddingProvider: EmbeddingProvider | null = createEmbeddingProviderFromEnv(),
+    documentStore: DocumentStore | null = null
+  ) {
     this.searchEngine = searchEngine;
     this.webScraper = new WebScraper();
     this.categoryWebScraper = new CategoryWebScraper();
     this.categoryManager = new CategoryManager();
     this.documentChunker = new DocumentChunker();
     this.citationEngine = new CitationEngine();
+    this.chunkRanker = new ChunkRanker(embeddingProvider);
+    this.documentStore = documentStore;
   }
 
   async process(query: string, options: EnhancedRAGOptions = {}): Promise<EnhancedRAGResult> {
@@ -65,6 +89,9 @@ export class EnhancedRAGPipeline {
       timeRange: 'all' as const,
       preferCategorySources: true,
       categoryTimeout: 10000,
+      useDocumentStore: true,
+      minStoredChunks: 4,
+      storeMatchThreshold: 0.75,
       ...options
     };
 
@@ -75,9 +102,54 @@ export class EnhancedRAGPipeline {
       const matchedCategories = this.categoryManager.classifyQuery(query);
       console.log('📂 Matched categories:', matchedCategories);
 
+      // Step 1b: Check the vector store before going to the network
+      let storedChunks: DocumentChunk[] = [];
+      if (this.documentStore && opts.useDocumentStore) {
+        try {
+          storedChunks = await this.documentStore.search(query, { limit: 12 });
+          console.log(`💾 Found ${storedChunks.length} fresh chunks in the vector store`);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.warn('⚠️ Vector store lookup failed:', errorMessage);
+        }
+      }
+
+      const strongStoredChunks = storedChunks.filter(chunk => (chunk.relevanceScore || 0) >= opts.storeMatchThreshold);
+      if (strongStoredChunks.length >= opts.minStoredChunks) {
+        console.log('✅ Answering from the vector store, skipping scraping');
+
+        // Already ordered by similarity
+        const topChunks = storedChunks.slice(0, 12);
+        const sources = toSearchResults(topChunks);
+        const context = this.buildContext(topChunks, sources);
+
+        return {
+          context,
+          sources,
+          categorySources: [],
+          chunks: storedChunks,
+          citations: this.citationEngine.generateCitations(topChunks, context),
+          passages: this.buildSourcePassages(topChunks, sources),
+          metadata: {
+            totalSources: sources.length,
+            successfulScrapes: 0,
+            categorySourcesUsed: 0,
+            webSourcesUsed: 0,
+            processingTime: Date.now() - startTime,
+            query,
+            categoriesMatched: matchedCategories,
+            searchFallbackUsed: false,
+            storedChunksUsed: topChunks.length,
+            skippedSources: []
+          }
+        };
+      }
+
       let categorySources: CategoryScrapingResult[] = [];
       let webSources: SearchResult[] = [];
+      const webContents: ExtractedContent[] = []; // scraped text of webSources, by index
       let searchFallbackUsed = false;
+      const skippedSources: SkippedSource[] = [];
 
       // Step 2: Try category-specific sources first
       if (matchedCategories.length > 0 && opts.preferCategorySources) {
@@ -102,6 +174,14 @@ export class EnhancedRAGPipeline {
           ]);
 
           console.log(`✅ Category scraping completed: ${categorySources.filter(s => s.content).length} successful`);
+
+          categorySources
+            .filter(result => !result.content && result.error)
+            .forEach(result => skippedSources.push({
+              url: result.url,
+              reason: scrapeSkipReason(result.error!),
+              error: result.error!
+            }));
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           console.warn('⚠️ Category scraping failed or timed out:', errorMessage);
@@ -141,8 +221,15 @@ export class EnhancedRAGPipeline {
 
             // Process successful scrapes
             scrapingResults.forEach((result, index) => {
-              if (!(result instanceof Error) && result.content.length > 100) {
-                webSources.push(relevantSources[index]);
+              if (result instanceof Error) {
+                skippedSources.push({
+                  url: relevantSources[index].url,
+                  reason: scrapeSkipReason(result),
+                  error: result.message
+                });
+              } else if (result.content.length > 100) {
+                webSources.push(applyPageMetadata(relevantSources[index], result));
+                webContents.push(result);
               }
             });
 
@@ -157,49 +244,46 @@ export class EnhancedRAGPipeline {
       // Step 5: Combine and process all content
       console.log('📝 Processing and chunking content...');
       
-      const allDocuments: Array<{ content: string; source: string; metadata?: any }> = [];
+      const allDocuments: Array<{ content: string; source: string; metadata?: any; pages?: ContentPage[] }> = [];
+      const ingestDocuments: IngestDocument[] = [];
 
       // Add category source content
       successfulCategorySources.forEach(categoryResult => {
         if (categoryResult.content) {
           allDocuments.push({
             content: categoryResult.content.content,
-            source: categoryResult.source.url,
+            source: categoryResult.url,
             metadata: {
               title: categoryResult.content.title,
-              url: categoryResult.source.url,
+              url: categoryResult.url,
               type: 'category',
               sourceName: categoryResult.source.name,
               scrapedAt: categoryResult.scrapedAt,
               category: matchedCategories[0] // Primary category
             }
           });
+
+          const ingestDocument = fromCategoryResult(categoryResult, matchedCategories[0]);
+          if (ingestDocument) ingestDocuments.push(ingestDocument);
         }
       });
 
-      // Add web source content (if used)
-      if (searchFallbackUsed && webSources.length > 0) {
-        const webScrapingResults = await this.webScraper.scrapeMultiple(
-          webSources.map(source => source.url),
-          { timeout: 6000, maxContentLength: 15000 }
-        );
-
-        webScrapingResults.forEach((result, index) => {
-          if (!(result instanceof Error) && result.content.length > 100) {
-            allDocuments.push({
-              content: result.content,
-              source: webSources[index].url,
-              metadata: {
-                title: webSources[index].title,
-                url: webSources[index].url,
-                type: 'web',
-                sourceName: webSources[index].source,
-                searchResult: webSources[index]
-              }
-            });
+      // Add web source content (if used), as scraped in step 4
+      webContents.forEach((result, index) => {
+        allDocuments.push({
+          content: result.content,
+          source: webSources[index].url,
+          pages: result.pages,
+          metadata: {
+            title: webSources[index].title,
+            url: webSources[index].url,
+            type: 'web',
+            sourceName: webSources[index].source,
+            searchResult: webSources[index]
           }
         });
-      }
+        ingestDocuments.push(fromSearchResult(webSources[index], result.content, result.title));
+      });
 
       // Step 6: Chunk documents
       const chunks = this.documentChunker.chunkMultiple(allDocuments, {
@@ -207,41 +291,58 @@ export class EnhancedRAGPipeline {
         chunkOverlap: opts.chunkOverlap
       });
 
-      // Step 7: Rank chunks by relevance
-      const rankedChunks = this.rankChunks(chunks, query);
+      // Step 7: Rank fresh chunks together with stored chunks from pages we didn't re-scrape
+      const scrapedUrls = new Set(allDocuments.map(document => document.source));
+      const reusedStoredChunks = storedChunks.filter(chunk => !scrapedUrls.has(chunk.metadata.source));
+      const rankedChunks = await this.rankChunks([...chunks, ...reusedStoredChunks], query);
 
-      // Step 8: Build context and citations
-      const topChunks = rankedChunks.slice(0, 12); // Top 12 chunks
-      const context = this.buildContext(topChunks);
-      const citations = this.citationEngine.generateCitations(topChunks, context);
+      // Persist what we scraped; doesn't block the response
+      if (this.documentStore && ingestDocuments.length > 0) {
+        this.documentStore
+          .ingest(ingestDocuments, rankedChunks, { chunkSize: opts.chunkSize, chunkOverlap: opts.chunkOverlap })
+          .catch(error => console.warn('⚠️ Vector store ingest failed:', error));
+      }
 
-      const processingTime = Date.now() - startTime;
+      // Step 8: Format sources for response
+      const topChunks = rankedChunks.slice(0, 12); // Top 12 chunks
+      const storedChunkIds = new Set(reusedStoredChunks.map(chunk => chunk.id));
+      const topStoredChunks = topChunks.filter(chunk => storedChunkIds.has(chunk.id));
 
-      // Step 9: Format sources for response
       const formattedSources: SearchResult[] = [
         // Category sources
         ...successfulCategorySources.map(cs => ({
           title: cs.content?.title || cs.source.name,
-          url: cs.source.url,
+          url: cs.url,
           snippet: cs.content?.content.substring(0, 200) + '...' || '',
           source: cs.source.name,
           type: 'category' as const,
           relevanceScore: 0.9,
+          publishedAt: cs.content?.metadata.publishedAt,
           metadata: {
+            author: cs.content?.metadata.author,
             category: matchedCategories[0],
             scrapedAt: cs.scrapedAt.toISOString()
           }
         })),
         // Web sources
-        ...webSources
+        ...webSources,
+        // Stored sources that made it into the context
+        ...toSearchResults(topStoredChunks)
       ];
 
+      // Step 9: Build context and citations, numbered by position in the source list
+      const context = this.buildContext(topChunks, formattedSources);
+      const citations = this.citationEngine.generateCitations(topChunks, context);
+
+      const processingTime = Date.now() - startTime;
+
       return {
         context,
         sources: formattedSources,
         categorySources,
         chunks: rankedChunks,
         citations,
+        passages: this.buildSourcePassages(topChunks, formattedSources),
         metadata: {
           totalSources: categorySources.length + webSources.length,
           successfulScrapes: successfulCategorySources.length + webSources.length,
@@ -250,7 +351,9 @@ export class EnhancedRAGPipeline {
           processingTime,
           query,
           categoriesMatched: matchedCategories,
-          searchFallbackUsed
+          searchFallbackUsed,
+          storedChunksUsed: topStoredChunks.length,
+          skippedSources
         }
       };
 
@@ -261,61 +364,78 @@ export class EnhancedRAGPipeline {
     }
   }
 
-  private rankChunks(chunks: DocumentChunk[], query: string): DocumentChunk[] {
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
-    
-    return chunks
-      .map(chunk => ({
-        ...chunk,
-        relevanceScore: this.calculateChunkRelevance(chunk, queryTerms)
-      }))
-      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
-  }
-
-  private calculateChunkRelevance(chunk: DocumentChunk, queryTerms: string[]): number {
-    const content = chunk.content.toLowerCase();
-    let score = 0;
+  private rankChunks(chunks: DocumentChunk[], query: string): Promise<DocumentChunk[]> {
+    return this.chunkRanker.rank(chunks, query, {
+      boost: (chunk, queryTerms) => {
+        let boost = 1;
 
-    queryTerms.forEach(term => {
-      const termCount = (content.match(new RegExp(term, 'g')) || []).length;
-      score += termCount * (term.length / 10); // Longer terms get higher weight
-    });
-
-    // Boost score for category sources
-    if (chunk.metadata.type === 'category') {
-      score *= 1.3;
-    }
+        // Boost score for category sources
+        if (chunk.metadata.type === 'category') {
+          boost *= 1.3;
+        }
 
-    // Boost score for chunks with titles
-    if (chunk.metadata.title) {
-      const titleLower = chunk.metadata.title.toLowerCase();
-      const titleMatches = queryTerms.filter(term => titleLower.includes(term)).length;
-      score += titleMatches * 2;
-    }
+        // Boost score for chunks whose title matches query terms
+        if (chunk.metadata.title) {
+          const titleTerms = new Set(tokenize(chunk.metadata.title));
+          const titleMatches = queryTerms.filter(term => titleTerms.has(term)).length;
+          boost *= 1 + titleMatches * 0.1;
+        }
 
-    // Normalize by content length
-    return score / (chunk.content.length / 1000);
+        return boost;
+      }
+    });
   }
 
-  private buildContext(chunks: DocumentChunk[]): string {
+  // Chunks of the same page share a [Source n] label so inline citations line up with the source list
+  private buildContext(chunks: DocumentChunk[], sources: SearchResult[]): string {
     if (chunks.length === 0) return '';
 
     const contextParts: string[] = [];
     
-    chunks.forEach((chunk, index) => {
+    chunks.forEach(chunk => {
+      const sourceIndex = this.sourceIndexOf(chunk, sources);
+      if (sourceIndex === 0) return;
+
       const source = chunk.metadata.title || chunk.metadata.sourceName || chunk.metadata.url || 'Unknown source';
       const sourceType = chunk.metadata.type === 'category' ? '🎯' : '🌐';
-      contextParts.push(`[${sourceType} Source ${index + 1}: ${source}]\n${chunk.content}\n`);
+      const page = chunk.metadata.page ? `, p. ${chunk.metadata.page}` : '';
+      contextParts.push(`[${sourceType} Source ${sourceIndex}: ${source}${page}]\n${chunk.content}\n`);
     });
 
     return contextParts.join('\n---\n\n');
   }
 
+  private buildSourcePassages(chunks: DocumentChunk[], sources: SearchResult[]): CitationPassage[] {
+    const textBySource = new Map<number, string[]>();
+
+    chunks.forEach(chunk => {
+      const sourceIndex = this.sourceIndexOf(chunk, sources);
+      if (sourceIndex === 0) return;
+      textBySource.set(sourceIndex, [...(textBySource.get(sourceIndex) || []), chunk.content]);
+    });
+
+    return Array.from(textBySource.entries()).map(([sourceIndex, texts]) => ({
+      sourceIndex,
+      text: texts.join('\n')
+    }));
+  }
+
+  // 1-based; 0 when the chunk's page isn't in the source list
+  private sourceIndexOf(chunk: DocumentChunk, sources: SearchResult[]): number {
+    const url = chunk.metadata.url || chunk.metadata.source;
+    return sources.findIndex(source => source.url === url) + 1;
+  }
+
   // Method to get available categories
   getAvailableCategories() {
     return this.categoryManager.getAllCategories();
   }
 
+  // User-defined categories are merged with the built-ins for classification and scraping
+  setCustomCategories(categories: Category[]) {
+    this.categoryManager.setCustomCategories(categories);
+  }
+
   // Method to check if a query would benefit from category search
   static shouldUseCategorySearch(query: string): boolean {
     const categoryIndicators = [
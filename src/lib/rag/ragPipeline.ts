@@ -1,7 +1,9 @@
 import { SearchEngine } from '../search/searchEngine';
-import { WebScraper } from '../scraper/webScraper';
+import { WebScraper, applyPageMetadata } from '../scraper/webScraper';
 import { DocumentChunker, type DocumentChunk } from './documentChunker';
 import { CitationEngine } from './citationEngine';
+import { ChunkRanker } from './chunkRanker';
+import { createEmbeddingProviderFromEnv, type EmbeddingProvider } from './embeddings';
 import type { SearchResult } from '../types';
 
 export interface RAGOptions {
@@ -31,12 +33,14 @@ export class RAGPipeline {
   private webScraper: WebScraper;
   private documentChunker: DocumentChunker;
   private citationEngine: CitationEngine;
+  private chunkRanker: ChunkRanker;
 
-  constructor(searchEngine: SearchEngine) {
+  constructor(searchEngine: SearchEngine, embeddingProvider: EmbeddingProvider | null = createEmbeddingProviderFromEnv()) {
     this.searchEngine = searchEngine;
     this.webScraper = new WebScraper();
     this.documentChunker = new DocumentChunker();
     this.citationEngine = new CitationEngine();
+    this.chunkRanker = new ChunkRanker(embeddingProvider);
   }
 
   async process(query: string, options: RAGOptions = {}): Promise<RAGResult> {
@@ -79,7 +83,7 @@ export class RAGPipeline {
         if (!(result instanceof Error) && result.content.length > 100) {
           successfulScrapes.push({
             content: result.content,
-            source: relevantSources[index]
+            source: applyPageMetadata(relevantSources[index], result)
           });
         }
       });
@@ -105,7 +109,7 @@ export class RAGPipeline {
       });
 
       // Step 4: Rank chunks by relevance to query
-      const rankedChunks = this.rankChunks(chunks, query);
+      const rankedChunks = await this.rankChunks(chunks, query);
 
       // Step 5: Build context and citations
       const context = this.buildContext(rankedChunks.slice(0, 10)); // Top 10 chunks
@@ -132,33 +136,11 @@ export class RAGPipeline {
     }
   }
 
-  private rankChunks(chunks: DocumentChunk[], query: string): DocumentChunk[] {
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
-    
-    return chunks
-      .map(chunk => ({
-        ...chunk,
-        relevanceScore: this.calculateChunkRelevance(chunk, queryTerms)
-      }))
-      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
-  }
-
-  private calculateChunkRelevance(chunk: DocumentChunk, queryTerms: string[]): number {
-    const content = chunk.content.toLowerCase();
-    let score = 0;
-
-    queryTerms.forEach(term => {
-      const termCount = (content.match(new RegExp(term, 'g')) || []).length;
-      score += termCount * (term.length / 10); // Longer terms get higher weight
+  private rankChunks(chunks: DocumentChunk[], query: string): Promise<DocumentChunk[]> {
+    return this.chunkRanker.rank(chunks, query, {
+      // Boost score for chunks from knowledge sources
+      boost: chunk => (chunk.metadata.url && chunk.metadata.title ? 1.2 : 1)
     });
-
-    // Boost score for chunks from knowledge sources
-    if (chunk.metadata.url && chunk.metadata.title) {
-      score *= 1.2;
-    }
-
-    // Normalize by content length
-    return score / (chunk.content.length / 1000);
   }
 
   private buildContext(chunks: DocumentChunk[]): string {
@@ -2,18 +2,24 @@ import { SearchEngine } from './search/searchEngine';
 import { SerperProvider } from './search/providers/serperProvider';
 import { NewsProvider } from './search/providers/newsProvider';
 import { EnhancedRAGPipeline, type EnhancedRAGOptions, type EnhancedRAGResult } from './rag/enhancedRagPipeline';
-import { LLMRouter } from './llm/llmRouter';
-import { GeminiProvider } from './llm/providers/geminiProvider';
+import type { LLMRouter } from './llm/llmRouter';
+import { llmRouter } from './llm/registry';
+import { createEmbeddingProviderFromEnv } from './rag/embeddings';
+import { DocumentStore } from './rag/documentStore';
+import { CitationEngine } from './rag/citationEngine';
+import { listCustomCategories } from './rag/categoryStore';
+import { supabase } from './supabase';
 
 export class RAGService {
   private enhancedRagPipeline: EnhancedRAGPipeline | null = null;
   private llmRouter: LLMRouter;
+  private citationEngine = new CitationEngine();
   private isInitialized = false;
   private hasValidLLM = false;
   private hasValidSearch = false;
 
   constructor() {
-    this.llmRouter = new LLMRouter();
+    this.llmRouter = llmRouter;
     
     // Initialize search engine
     const searchEngine = new SearchEngine();
@@ -47,23 +53,26 @@ export class RAGService {
       console.warn('⚠️ News API key not configured or invalid');
     }
 
+    // Persist scraped documents when Supabase is configured
+    const embeddingProvider = createEmbeddingProviderFromEnv();
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const documentStore = supabaseUrl && supabaseUrl.trim() && supabaseUrl !== 'your_supabase_url_here'
+      ? new DocumentStore(supabase, embeddingProvider)
+      : null;
+    if (documentStore) {
+      console.log('✅ Vector document store initialized');
+    }
+
     // Initialize Enhanced RAG pipeline (works even without search providers)
-    this.enhancedRagPipeline = new EnhancedRAGPipeline(searchEngine);
+    this.enhancedRagPipeline = new EnhancedRAGPipeline(searchEngine, embeddingProvider, documentStore);
     console.log('✅ Enhanced RAG Pipeline initialized');
 
-    // Add LLM providers with validation
-    const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (geminiKey && geminiKey.trim() && geminiKey !== 'your_gemini_api_key_here') {
-      try {
-        this.llmRouter.addProvider('gemini', new GeminiProvider(geminiKey), true);
-        this.hasValidLLM = true;
-        console.log('✅ Gemini LLM provider initialized');
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn('⚠️ Failed to initialize Gemini provider:', errorMessage);
-      }
+    // LLM providers come from the shared registry
+    this.hasValidLLM = this.llmRouter.hasProviders();
+    if (this.hasValidLLM) {
+      console.log(`✅ LLM providers available: ${this.llmRouter.getAvailableModels().join(', ')}`);
     } else {
-      console.warn('⚠️ Gemini API key not configured or invalid');
+      console.warn('⚠️ No LLM provider configured');
     }
 
     this.isInitialized = true;
@@ -159,14 +168,15 @@ export class RAGService {
       // Generate response with context
       let enhancedPrompt = query;
       if (ragResult.context) {
-        enhancedPrompt = `Based on the following information, please provide a comprehensive answer to the question. Use the context to support your response and cite specific sources when relevant.
+        enhancedPrompt = `Based on the following information, please provide a comprehensive answer to the question. Use the context to support your response.
 
 Context:
 ${ragResult.context}
 
 Question: ${query}
 
-Please provide a detailed, well-structured response that incorporates the relevant information from the sources above.`;
+Please provide a detailed, well-structured response that incorporates the relevant information from the sources above.
+Cite every claim inline with the number of its [Source n] block, e.g. "Sales rose 12% [2]." Use one marker per source, e.g. [1][3], only cite a source for information it actually contains, and don't add a list of sources at the end.`;
       }
 
       const response = await this.llmRouter.generateResponse(
@@ -175,6 +185,8 @@ Please provide a detailed, well-structured response that incorporates the releva
         classification.suggestedModel ?? undefined
       );
 
+      const citations = this.citationEngine.verifyInlineCitations(response, ragResult.passages);
+
       // Format sources for frontend
       const formattedSources = ragResult.sources.map(source => ({
         title: source.title,
@@ -195,7 +207,8 @@ Please provide a detailed, well-structured response that incorporates the releva
           needsLiveData: classification.needsLiveData,
           needsEnhancedRAG: true,
           model: classification.suggestedModel,
-          enhancedRAGUsed: true
+          enhancedRAGUsed: true,
+          citations
         }
       };
 
@@ -257,6 +270,25 @@ Please provide a detailed, well-structured response that incorporates the releva
   getAvailableCategories() {
     return this.enhancedRagPipeline?.getAvailableCategories() || [];
   }
+
+  // Merges the user's own categories into classification; signed-out users get the built-ins only
+  async loadCustomCategories(userId: string | null): Promise<void> {
+    if (!this.enhancedRagPipeline) return;
+
+    if (!userId) {
+      this.enhancedRagPipeline.setCustomCategories([]);
+      return;
+    }
+
+    try {
+      const categories = await listCustomCategories(supabase, userId);
+      this.enhancedRagPipeline.setCustomCategories(categories);
+      console.log(`✅ Loaded ${categories.length} custom categories`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Failed to load custom categories:', errorMessage);
+    }
+  }
 }
 
 // Export singleton instance
@@ -1,15 +1,33 @@
-import { ContentExtractor, type ExtractedContent } from './contentExtractor';
+import { ContentExtractor, type ContentSelectors, type ExtractedContent } from './contentExtractor';
+import { FeedReader, type FeedEntry } from './feedReader';
+import {
+  cacheValidators,
+  extractionVariant,
+  getSharedPageCache,
+  NO_PAGE_CACHE,
+  type HtmlFetchResult,
+  type PageCache,
+  type PageFetchResult
+} from './pageCache';
+import { getSharedRequestScheduler, queueDeadline, type RequestScheduler } from './requestScheduler';
 import type { CategorySource } from '../rag/categoryManager';
 
 export interface CategoryScrapingOptions {
   timeout?: number;
+  maxQueueMs?: number; // longest a page or feed waits for its turn on a busy or Crawl-delay-paced host
   maxContentLength?: number;
   maxSourcesPerCategory?: number;
   respectRobotsTxt?: boolean;
+  useCache?: boolean;
+  maxArticlesPerFeed?: number;
+  feedMaxAgeDays?: number;
 }
 
+// One per scraped page: a feed source can yield several articles, a site without a feed one page
 export interface CategoryScrapingResult {
   source: CategorySource;
+  url: string; // the article or page the content came from
+  entry?: FeedEntry; // set when the page was found through the source's feed
   content: ExtractedContent | null;
   error?: string;
   scrapedAt: Date;
@@ -17,15 +35,28 @@ export interface CategoryScrapingResult {
 
 export class CategoryWebScraper {
   private contentExtractor: ContentExtractor;
+  private feedReader: FeedReader;
+  private scheduler: RequestScheduler;
+  private pageCache: PageCache;
   private defaultOptions: CategoryScrapingOptions = {
     timeout: 8000,
+    maxQueueMs: 5000,
     maxContentLength: 20000,
     maxSourcesPerCategory: 3,
-    respectRobotsTxt: true
+    respectRobotsTxt: true,
+    useCache: true,
+    maxArticlesPerFeed: 2,
+    feedMaxAgeDays: 30
   };
 
-  constructor() {
+  constructor(
+    scheduler: RequestScheduler = getSharedRequestScheduler(),
+    pageCache: PageCache = getSharedPageCache()
+  ) {
     this.contentExtractor = new ContentExtractor();
+    this.feedReader = new FeedReader();
+    this.scheduler = scheduler;
+    this.pageCache = pageCache;
   }
 
   async scrapeCategorySources(
@@ -41,68 +72,215 @@ export class CategoryWebScraper {
     
     console.log(`🕷️ Scraping ${limitedSources.length} category sources for query: "${query}"`);
 
-    const scrapingPromises = limitedSources.map(async (source) => {
-      try {
-        const content = await this.scrapeSourceWithSearch(source, query, opts);
-        return {
-          source,
-          content,
-          scrapedAt: new Date()
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`Failed to scrape ${source.name}:`, errorMessage);
-        return {
-          source,
-          content: null,
-          error: errorMessage,
-          scrapedAt: new Date()
-        };
-      }
-    });
+    const scrapingPromises = limitedSources.map(source =>
+      source.feedUrl
+        ? this.scrapeFeedSource(source, query, opts)
+        : this.scrapeSource(source, query, opts).then(result => [result])
+    );
 
     const scrapingResults = await Promise.all(scrapingPromises);
-    results.push(...scrapingResults);
+    results.push(...scrapingResults.flat());
 
     const successfulScrapes = results.filter(r => r.content !== null).length;
-    console.log(`✅ Successfully scraped ${successfulScrapes}/${limitedSources.length} category sources`);
+    console.log(`✅ Successfully scraped ${successfulScrapes}/${results.length} pages from ${limitedSources.length} category sources`);
 
     return results;
   }
 
+  private async scrapeSource(
+    source: CategorySource,
+    query: string,
+    options: CategoryScrapingOptions
+  ): Promise<CategoryScrapingResult> {
+    try {
+      const content = await this.scrapeSourceWithSearch(source, query, options);
+      return {
+        source,
+        url: source.url,
+        content,
+        scrapedAt: new Date()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to scrape ${source.name}:`, errorMessage);
+      return {
+        source,
+        url: source.url,
+        content: null,
+        error: errorMessage,
+        scrapedAt: new Date()
+      };
+    }
+  }
+
+  // Recent feed entries matching the query are scraped instead of the homepage; the site is
+  // only scraped when the feed itself can't be read
+  private async scrapeFeedSource(
+    source: CategorySource,
+    query: string,
+    options: CategoryScrapingOptions
+  ): Promise<CategoryScrapingResult[]> {
+    let entries: FeedEntry[];
+    try {
+      entries = await this.scheduler.schedule(
+        source.feedUrl!,
+        () => this.feedReader.fetchFeed(source.feedUrl!, { timeout: options.timeout }),
+        { respectRobotsTxt: options.respectRobotsTxt, deadline: queueDeadline(options.maxQueueMs) }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Feed unavailable for ${source.name}, scraping the site instead:`, errorMessage);
+      return [await this.scrapeSource(source, query, options)];
+    }
+
+    const matches = this.feedReader.findRelevantEntries(entries, query, {
+      maxAgeDays: options.feedMaxAgeDays,
+      limit: options.maxArticlesPerFeed
+    });
+
+    if (matches.length === 0) {
+      console.log(`📰 No recent ${source.name} entries match the query`);
+      return [{
+        source,
+        url: source.feedUrl!,
+        content: null,
+        error: 'No recent feed entries match the query',
+        scrapedAt: new Date()
+      }];
+    }
+
+    return Promise.all(matches.map(entry => this.scrapeFeedEntry(source, entry, options)));
+  }
+
+  // Falls back to the entry's own summary when the article can't be scraped
+  private async scrapeFeedEntry(
+    source: CategorySource,
+    entry: FeedEntry,
+    options: CategoryScrapingOptions
+  ): Promise<CategoryScrapingResult> {
+    let content: ExtractedContent | null = null;
+    let scrapeError: string | undefined;
+
+    try {
+      content = await this.scrapeUrl(entry.url, options, source.selectors);
+    } catch (error) {
+      scrapeError = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Failed to scrape ${source.name} article ${entry.url}:`, scrapeError);
+    }
+
+    if (content && content.content.length > 300) {
+      return {
+        source,
+        url: entry.url,
+        entry,
+        content: {
+          ...content,
+          title: entry.title || content.title,
+          metadata: {
+            ...content.metadata,
+            author: content.metadata.author || entry.author,
+            publishedAt: content.metadata.publishedAt || entry.publishedAt
+          }
+        },
+        scrapedAt: new Date()
+      };
+    }
+
+    return {
+      source,
+      url: entry.url,
+      entry,
+      content: entry.summary
+        ? {
+            title: entry.title,
+            content: entry.summary,
+            metadata: { author: entry.author, publishedAt: entry.publishedAt },
+            readabilityScore: 0
+          }
+        : null,
+      error: scrapeError,
+      scrapedAt: new Date()
+    };
+  }
+
   private async scrapeSourceWithSearch(
     source: CategorySource, 
     query: string, 
     options: CategoryScrapingOptions
   ): Promise<ExtractedContent | null> {
-    try {
-      // First, try to get the main page content
-      const mainContent = await this.scrapeUrl(source.url, options);
-      
-      if (mainContent && this.isContentRelevant(mainContent.content, query)) {
-        return mainContent;
-      }
+    // First, try to get the main page content; if that fails the source has nothing to offer
+    const mainContent = await this.scrapeUrl(source.url, options, source.selectors);
+
+    if (mainContent && this.isContentRelevant(mainContent.content, query)) {
+      return mainContent;
+    }
 
-      // If main page isn't relevant, try to find more specific content
-      // This could be enhanced with site-specific search URLs
-      const searchUrl = this.buildSearchUrl(source, query);
-      if (searchUrl && searchUrl !== source.url) {
-        const searchContent = await this.scrapeUrl(searchUrl, options);
+    // If main page isn't relevant, try to find more specific content
+    // This could be enhanced with site-specific search URLs
+    const searchUrl = this.buildSearchUrl(source, query);
+    if (searchUrl && searchUrl !== source.url) {
+      try {
+        const searchContent = await this.scrapeUrl(searchUrl, options, source.selectors);
         if (searchContent && this.isContentRelevant(searchContent.content, query)) {
           return searchContent;
         }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Search page unavailable for ${source.name}:`, errorMessage);
       }
+    }
 
-      // Return main content even if not perfectly relevant
-      return mainContent;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Error scraping ${source.name}:`, errorMessage);
-      return null;
+    // Return main content even if not perfectly relevant
+    return mainContent;
+  }
+
+  private async scrapeUrl(
+    url: string,
+    options: CategoryScrapingOptions,
+    selectors?: ContentSelectors
+  ): Promise<ExtractedContent | null> {
+    // Pages extracted with a source's selectors or another length limit are cached apart
+    const cache = options.useCache === false ? NO_PAGE_CACHE : this.pageCache;
+    return cache.resolve(
+      url,
+      extractionVariant({ maxContentLength: options.maxContentLength, selectors }),
+      conditionalHeaders => this.fetchPage(url, options, conditionalHeaders, selectors)
+    );
+  }
+
+  private async fetchPage(
+    url: string,
+    options: CategoryScrapingOptions,
+    conditionalHeaders: Record<string, string>,
+    selectors?: ContentSelectors
+  ): Promise<PageFetchResult> {
+    // Rejects with ROBOTS_DISALLOWED before any request when robots.txt forbids the page, and with
+    // QUEUE_TIMEOUT when its turn doesn't come within maxQueueMs
+    const page = await this.scheduler.schedule(url, () => this.fetchHtml(url, options, conditionalHeaders), {
+      respectRobotsTxt: options.respectRobotsTxt,
+      deadline: queueDeadline(options.maxQueueMs)
+    });
+    if (page.notModified) return page;
+
+    // Truncate if too long
+    let html = page.html;
+    if (options.maxContentLength && html.length > options.maxContentLength) {
+      html = html.substring(0, options.maxContentLength);
     }
+
+    return {
+      notModified: false,
+      content: await this.contentExtractor.extract(html, url, selectors),
+      etag: page.etag,
+      lastModified: page.lastModified
+    };
   }
 
-  private async scrapeUrl(url: string, options: CategoryScrapingOptions): Promise<ExtractedContent | null> {
+  private async fetchHtml(
+    url: string,
+    options: CategoryScrapingOptions,
+    conditionalHeaders: Record<string, string>
+  ): Promise<HtmlFetchResult> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), options.timeout);
 
@@ -123,13 +301,18 @@ export class CategoryWebScraper {
           'Sec-Fetch-Mode': 'navigate',
           'Sec-Fetch-Site': 'none',
           'Sec-Fetch-User': '?1',
-          'Upgrade-Insecure-Requests': '1'
+          'Upgrade-Insecure-Requests': '1',
+          ...conditionalHeaders
         },
         redirect: 'follow'
       });
 
       clearTimeout(timeoutId);
 
+      if (response.status === 304 && Object.keys(conditionalHeaders).length > 0) {
+        return { notModified: true };
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -139,14 +322,7 @@ export class CategoryWebScraper {
         throw new Error(`Unsupported content type: ${contentType}`);
       }
 
-      let html = await response.text();
-      
-      // Truncate if too long
-      if (options.maxContentLength && html.length > options.maxContentLength) {
-        html = html.substring(0, options.maxContentLength);
-      }
-
-      return await this.contentExtractor.extract(html, url);
+      return { notModified: false, html: await response.text(), ...cacheValidators(response.headers) };
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Request timeout after ${options.timeout}ms`);
@@ -196,17 +372,18 @@ export class CategoryWebScraper {
     return relevanceRatio >= 0.3 && content.length > 200;
   }
 
-  // Method to check if a URL is scrapeable (respects robots.txt, etc.)
+  // A URL is scrapeable when robots.txt allows it and the page answers a HEAD request
   async isUrlScrapeable(url: string): Promise<boolean> {
     try {
-      // Basic check - could be enhanced with robots.txt parsing
-      const response = await fetch(url, { 
+      if (!(await this.scheduler.isAllowed(url))) return false;
+
+      const response = await this.scheduler.schedule(url, () => fetch(url, {
         method: 'HEAD',
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
         }
-      });
-      
+      }), { respectRobotsTxt: false });
+
       return response.ok;
     } catch {
       return false;
@@ -1,16 +1,53 @@
 import * as cheerio from 'cheerio';
+import { elementsToMarkdown, extractReadableContent } from './readability';
+import {
+  extractStructuredData,
+  isArticleEntity,
+  toIsoDate,
+  type RecipeEntity,
+  type StructuredData
+} from './structuredData';
+
+// Site-specific CSS selectors; `article` narrows where `title` and `content` are looked up
+export interface ContentSelectors {
+  title?: string;
+  content?: string;
+  article?: string;
+}
+
+export type ExtractionMethod = 'selector' | 'generic';
+
+export type DocumentFormat = 'html' | 'pdf' | 'text' | 'markdown' | 'json';
+
+// Where a page of the source document sits in `content`, as [start, end) character offsets
+export interface ContentPage {
+  page: number; // 1-based
+  start: number;
+  end: number;
+}
+
+// The page a character of `content` came from, for citing paginated documents; offsets in the
+// gap between two pages count toward the next one
+export function pageAtOffset(pages: ContentPage[] | undefined, offset: number): number | undefined {
+  return pages?.find(page => offset < page.end)?.page;
+}
 
 export interface ExtractedContent {
   title: string;
   content: string;
   metadata: {
     author?: string;
-    publishedAt?: string;
+    publishedAt?: string; // ISO
+    modifiedAt?: string; // ISO
     description?: string;
     keywords?: string[];
     language?: string;
   };
   readabilityScore: number;
+  format?: DocumentFormat; // unset for HTML pages
+  pages?: ContentPage[]; // set for every format but HTML; unpaginated documents are one page
+  structured?: StructuredData; // JSON-LD, microdata and OpenGraph of HTML pages that have any
+  extractedWith?: { title: ExtractionMethod; content: ExtractionMethod }; // set when selectors were given
 }
 
 export class ContentExtractor {
@@ -42,27 +79,83 @@ export class ContentExtractor {
     'noscript'
   ];
 
-  async extract(html: string, url: string): Promise<ExtractedContent> {
+  // Minimum text a source's content selector must yield before the generic heuristics are skipped
+  private static readonly MIN_SELECTOR_CONTENT_LENGTH = 200;
+
+  async extract(html: string, url: string, selectors?: ContentSelectors): Promise<ExtractedContent> {
     const $ = cheerio.load(html);
-    
+
+    // Site selectors are resolved before noise removal: a source's title often sits in a <header>
+    const selected = selectors ? this.extractWithSelectors($, selectors) : {};
+    // Structured data lives in <script> tags and page chrome, which noise removal drops
+    const structured = extractStructuredData($);
+
     // Remove noise elements
     ContentExtractor.NOISE_SELECTORS.forEach(selector => {
       $(selector).remove();
     });
 
-    const title = this.extractTitle($);
-    const content = this.extractMainContent($);
-    const metadata = this.extractMetadata($);
+    // Metadata first: main content detection prunes the document
+    const metadata = this.extractMetadata($, structured);
+    const title = selected.title || this.extractTitle($);
+    const content = selected.content || this.extractMainContent($);
     const readabilityScore = this.calculateReadabilityScore(content);
 
     return {
       title,
       content: this.cleanContent(content),
       metadata,
-      readabilityScore
+      readabilityScore,
+      ...((structured.entities.length > 0 || Object.keys(structured.openGraph).length > 0) && { structured }),
+      ...(selectors && {
+        extractedWith: {
+          title: selected.title ? 'selector' : 'generic',
+          content: selected.content ? 'selector' : 'generic'
+        }
+      })
     };
   }
 
+  // Returns only what the selectors found; missing or too-short matches fall back to the heuristics
+  private extractWithSelectors(
+    $: cheerio.CheerioAPI,
+    selectors: ContentSelectors
+  ): { title?: string; content?: string } {
+    const result: { title?: string; content?: string } = {};
+
+    if (selectors.title) {
+      const title = this.selectMatches($, selectors.title, selectors.article)
+        .map(element => $(element).text().replace(/\s+/g, ' ').trim())
+        .find(Boolean);
+      if (title) result.title = title;
+    }
+
+    if (selectors.content) {
+      const matches = this.selectMatches($, selectors.content, selectors.article);
+      const content = elementsToMarkdown($, matches);
+      if (content.trim().length >= ContentExtractor.MIN_SELECTOR_CONTENT_LENGTH) {
+        result.content = content;
+      }
+    }
+
+    return result;
+  }
+
+  // Looks inside the first article match, then the whole page; invalid selectors match nothing.
+  // Matches are copies with noise removed, so the document itself is left intact.
+  private selectMatches($: cheerio.CheerioAPI, selector: string, articleSelector?: string) {
+    try {
+      let matches = articleSelector ? $(articleSelector).first().find(selector) : $(selector);
+      if (matches.length === 0) matches = $(selector);
+
+      const copies = matches.clone();
+      copies.find(ContentExtractor.NOISE_SELECTORS.join(', ')).remove();
+      return copies.toArray();
+    } catch {
+      return [];
+    }
+  }
+
   private extractTitle($: cheerio.CheerioAPI): string {
     // Try multiple title sources in order of preference
     const titleSources = [
@@ -85,43 +178,63 @@ export class ContentExtractor {
   }
 
   private extractMainContent($: cheerio.CheerioAPI): string {
-    // Try content selectors in order of preference
+    // Text and link density scoring picks the article body and keeps its structure as Markdown
+    const readable = extractReadableContent($);
+    if (readable) return readable;
+
+    // Fallback: try content selectors in order of preference
     for (const selector of ContentExtractor.CONTENT_SELECTORS) {
       const element = $(selector).first();
       if (element.length > 0) {
-        const text = element.text();
+        const text = elementsToMarkdown($, element.toArray());
         if (text.length > 200) { // Minimum content length
           return text;
         }
       }
     }
 
-    // Fallback: extract all paragraph text
-    const paragraphs = $('p').map((_, el) => $(el).text()).get();
-    return paragraphs.join('\n\n');
+    // Last resort: extract all paragraph text
+    const paragraphs = $('p').map((_, el) => $(el).text().replace(/\s+/g, ' ').trim()).get();
+    return paragraphs.filter(Boolean).join('\n\n');
   }
 
-  private extractMetadata($: cheerio.CheerioAPI) {
+  // schema.org data first: it names the article's authors and dates, where meta tags are often
+  // missing and a page's first `.author` or <time> may belong to a comment or a related story
+  private extractMetadata($: cheerio.CheerioAPI, structured: StructuredData): ExtractedContent['metadata'] {
+    const { entities, openGraph } = structured;
+    const article = entities.find(isArticleEntity);
+    const primary = article || entities.find((entity): entity is RecipeEntity => entity.type === 'Recipe');
+    const meta = (name: string) => $(`meta[name="${name}" i]`).attr('content')?.trim() || undefined;
+    const articleAuthor = openGraph['article:author'];
+    const bylineAuthor = $('[rel="author"], .author').first().text().replace(/\s+/g, ' ').replace(/^by\s+/i, '').trim();
+
     return {
-      author: $('meta[name="author"]').attr('content') || 
-              $('meta[property="article:author"]').attr('content') ||
-              $('.author').first().text() || undefined,
-      
-      publishedAt: $('meta[property="article:published_time"]').attr('content') ||
-                   $('meta[name="date"]').attr('content') ||
-                   $('time').first().attr('datetime') || undefined,
-      
-      description: $('meta[name="description"]').attr('content') ||
-                   $('meta[property="og:description"]').attr('content') || undefined,
-      
-      keywords: $('meta[name="keywords"]').attr('content')?.split(',').map(k => k.trim()) || [],
-      
-      language: $('html').attr('lang') || 
+      author: primary?.authors.join(', ') ||
+              meta('author') ||
+              (articleAuthor && !/^https?:\/\//.test(articleAuthor) ? articleAuthor : undefined) ||
+              bylineAuthor || undefined,
+
+      publishedAt: toIsoDate(primary?.datePublished) ||
+                   toIsoDate(openGraph['article:published_time']) ||
+                   toIsoDate(meta('date') || meta('dc.date') || meta('parsely-pub-date')) ||
+                   toIsoDate($('time[datetime]').first().attr('datetime')),
+
+      modifiedAt: toIsoDate(article?.dateModified) ||
+                  toIsoDate(openGraph['article:modified_time'] || openGraph['og:updated_time']),
+
+      description: meta('description') ||
+                   openGraph['og:description'] ||
+                   primary?.description,
+
+      keywords: meta('keywords')?.split(',').map(k => k.trim()).filter(Boolean) ||
+                article?.keywords || [],
+
+      language: $('html').attr('lang') ||
                 $('meta[http-equiv="content-language"]').attr('content') || undefined
     };
   }
 
-  private calculateReadabilityScore(content: string): number {
+  calculateReadabilityScore(content: string): number {
     if (!content || content.length < 100) return 0;
 
     const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
@@ -159,10 +272,11 @@ export class ContentExtractor {
     return Math.max(1, count);
   }
 
+  // Content is Markdown by now; only line ends and blank lines are tidied so code and lists keep their layout
   private cleanContent(content: string): string {
     return content
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .replace(/\n\s*\n/g, '\n\n') // Clean up line breaks
+      .replace(/[ \t]+$/gm, '') // Trailing whitespace
+      .replace(/\n{3,}/g, '\n\n') // Collapse blank lines
       .trim();
   }
 }
\ No newline at end of file
@@ -0,0 +1,224 @@
+import {
+  ContentExtractor,
+  type ContentPage,
+  type ContentSelectors,
+  type DocumentFormat,
+  type ExtractedContent
+} from './contentExtractor';
+
+// Picks an extractor from the response's Content-Type, using the URL's extension when the
+// server sends something generic; null means the document can't be read
+export function documentFormat(contentType: string, url: string): DocumentFormat | null {
+  const type = contentType.toLowerCase().split(';')[0].trim();
+  let path = '';
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    // keep the empty path
+  }
+
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type === 'application/pdf' || (type === 'application/octet-stream' && path.endsWith('.pdf'))) return 'pdf';
+  if (type === 'text/markdown' || type === 'text/x-markdown') return 'markdown';
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'text/plain') return /\.(md|markdown)$/.test(path) ? 'markdown' : 'text';
+  return null;
+}
+
+export function titleFromUrl(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const file = decodeURIComponent(pathname.split('/').filter(Boolean).pop() || '');
+    return file.replace(/\.\w+$/, '').replace(/[-_]+/g, ' ').trim() || hostname;
+  } catch {
+    return url;
+  }
+}
+
+function singlePage(content: string): ContentPage[] {
+  return [{ page: 1, start: 0, end: content.length }];
+}
+
+// RFC-style running headers and footers repeat on every page and say nothing
+const PAGE_FOOTER = /\[Page \d+\]\s*$/;
+const PAGE_HEADER = /^RFC \d+\s{2,}.+\s{2,}\w+ \d{4}\s*$/;
+
+// Form feeds separate pages, as in RFCs and other printed plain text
+export function extractPlainText(text: string, url: string): ExtractedContent {
+  const pages: ContentPage[] = [];
+  let content = '';
+
+  text.split('\f').forEach((rawPage, index) => {
+    const pageText = rawPage
+      .split(/\r?\n/)
+      .filter(line => !PAGE_FOOTER.test(line) && !PAGE_HEADER.test(line))
+      .map(line => line.trimEnd())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    if (!pageText) return;
+
+    if (content) content += '\n\n';
+    pages.push({ page: index + 1, start: content.length, end: content.length + pageText.length });
+    content += pageText;
+  });
+
+  // A centered line near the top is a title (as in RFCs); otherwise the first short line
+  const lines = content.split('\n').slice(0, 60);
+  const centered = lines.find(line => /^\s{8,}\S/.test(line) && !/\S\s{3,}\S/.test(line.trim()));
+  const firstLine = lines.find(line => line.trim())?.trim();
+
+  return {
+    title: centered?.trim() || (firstLine && firstLine.length <= 150 ? firstLine : titleFromUrl(url)),
+    content,
+    metadata: {},
+    readabilityScore: 0,
+    format: 'text',
+    pages
+  };
+}
+
+// Simple `key: value` front matter; lists and nesting are left alone
+function parseFrontMatter(text: string): { fields: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const field = line.match(/^([\w-]+):\s*(.+)$/);
+    if (field) fields[field[1].toLowerCase()] = field[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+  });
+  return { fields, body: text.slice(match[0].length) };
+}
+
+// Markdown is already what the other extractors produce, so the body is kept as it is
+export function extractMarkdown(text: string, url: string): ExtractedContent {
+  const { fields, body } = parseFrontMatter(text);
+  const content = body.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  const heading = content.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1];
+  const date = fields.date || fields.published;
+
+  return {
+    title: fields.title || heading || titleFromUrl(url),
+    content,
+    metadata: {
+      author: fields.author,
+      publishedAt: date && !Number.isNaN(new Date(date).getTime()) ? new Date(date).toISOString() : undefined,
+      description: fields.description || fields.summary,
+      keywords: fields.tags?.replace(/^\[|\]$/g, '').split(',').map(tag => tag.trim()).filter(Boolean) || []
+    },
+    readabilityScore: 0,
+    format: 'markdown',
+    pages: singlePage(content)
+  };
+}
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+// Indented `key: value` lines read better in a prompt than JSON punctuation
+function jsonToText(value: JsonValue, indent = ''): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item =>
+      item !== null && typeof item === 'object'
+        ? [`${indent}-`, ...jsonToText(item, `${indent}  `)]
+        : [`${indent}- ${item}`]
+    );
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      item !== null && typeof item === 'object'
+        ? [`${indent}${key}:`, ...jsonToText(item, `${indent}  `)]
+        : [`${indent}${key}: ${item}`]
+    );
+  }
+  return [`${indent}${value}`];
+}
+
+function jsonField(data: JsonValue, names: string[]): string | undefined {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) return undefined;
+
+  for (const name of names) {
+    const value = data[name];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    // Authors are often objects like { "name": "..." }
+    if (value && typeof value === 'object' && !Array.isArray(value) && typeof value.name === 'string') {
+      return value.name;
+    }
+  }
+  return undefined;
+}
+
+export function extractJson(text: string, url: string): ExtractedContent {
+  let data: JsonValue;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON: ${errorMessage}`);
+  }
+
+  const content = jsonToText(data).join('\n');
+  const published = jsonField(data, ['datePublished', 'publishedAt', 'published_at', 'published', 'date', 'created_at']);
+
+  return {
+    title: jsonField(data, ['title', 'headline', 'name']) || titleFromUrl(url),
+    content,
+    metadata: {
+      author: jsonField(data, ['author', 'creator', 'by']),
+      publishedAt: published && !Number.isNaN(new Date(published).getTime()) ? new Date(published).toISOString() : undefined,
+      description: jsonField(data, ['description', 'summary', 'abstract'])
+    },
+    readabilityScore: 0,
+    format: 'json',
+    pages: singlePage(content)
+  };
+}
+
+// Cuts the text to `maxLength` characters, dropping or shortening the pages past the cut
+export function clipContent(extracted: ExtractedContent, maxLength: number): ExtractedContent {
+  if (extracted.content.length <= maxLength) return extracted;
+
+  return {
+    ...extracted,
+    content: extracted.content.substring(0, maxLength),
+    pages: extracted.pages
+      ?.filter(page => page.start < maxLength)
+      .map(page => ({ ...page, end: Math.min(page.end, maxLength) }))
+  };
+}
+
+// Dispatches to the extractor for a document's format; HTML goes through ContentExtractor
+export class DocumentExtractor {
+  private contentExtractor = new ContentExtractor();
+
+  async extract(
+    body: string | ArrayBuffer,
+    format: DocumentFormat,
+    url: string,
+    selectors?: ContentSelectors
+  ): Promise<ExtractedContent> {
+    const text = () => (typeof body === 'string' ? body : new TextDecoder().decode(body));
+
+    let extracted: ExtractedContent;
+    switch (format) {
+      case 'html':
+        return this.contentExtractor.extract(text(), url, selectors);
+      case 'pdf': {
+        if (typeof body === 'string') throw new Error('PDF documents must be read as binary');
+        const { extractPdf } = await import('./pdfExtractor');
+        extracted = await extractPdf(body, url);
+        break;
+      }
+      case 'markdown':
+        extracted = extractMarkdown(text(), url);
+        break;
+      case 'json':
+        extracted = extractJson(text(), url);
+        break;
+      default:
+        extracted = extractPlainText(text(), url);
+    }
+
+    return { ...extracted, readabilityScore: this.contentExtractor.calculateReadabilityScore(extracted.content) };
+  }
+}
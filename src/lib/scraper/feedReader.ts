@@ -0,0 +1,156 @@
+import * as cheerio from 'cheerio';
+
+export interface FeedEntry {
+  title: string;
+  url: string;
+  summary: string; // plain text
+  publishedAt?: string; // ISO 8601
+  author?: string;
+}
+
+export interface FeedFetchOptions {
+  timeout?: number;
+}
+
+export interface FeedFilterOptions {
+  maxAgeDays?: number; // entries older than this are dropped; undated entries are kept
+  limit?: number;
+  minRelevance?: number; // share of query terms an entry has to mention
+}
+
+function toPlainText(html: string): string {
+  return cheerio.load(html).root().text().replace(/\s+/g, ' ').trim();
+}
+
+function toIsoDate(value: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function resolveUrl(href: string, base: string): string {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+// Reads RSS 2.0, RSS 1.0 (RDF) and Atom documents into one entry shape
+export function parseFeed(xml: string, feedUrl: string): FeedEntry[] {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const atomEntries = $('feed > entry').toArray().map(entry => {
+    const $entry = $(entry);
+    const link = $entry.children('link[rel="alternate"]').attr('href') ||
+      $entry.children('link:not([rel])').attr('href') ||
+      $entry.children('link').first().attr('href') || '';
+
+    return {
+      title: toPlainText($entry.children('title').text()),
+      url: resolveUrl(link, feedUrl),
+      summary: toPlainText($entry.children('summary').text() || $entry.children('content').text()),
+      publishedAt: toIsoDate($entry.children('published').text().trim() || $entry.children('updated').text().trim()),
+      author: $entry.find('author > name').first().text().trim() || undefined
+    };
+  });
+
+  // RSS 2.0 items sit in <channel>, RSS 1.0 items next to it
+  const rssEntries = $('item').toArray().map(item => {
+    const $item = $(item);
+    const link = $item.children('link').text().trim() || $item.attr('rdf:about') || '';
+    const guid = $item.children('guid');
+    const permalink = guid.attr('isPermaLink') !== 'false' && /^https?:\/\//.test(guid.text().trim()) ? guid.text().trim() : '';
+
+    return {
+      title: toPlainText($item.children('title').text()),
+      url: resolveUrl(link || permalink, feedUrl),
+      summary: toPlainText($item.children('description').text() || $item.children('content\\:encoded').text()),
+      publishedAt: toIsoDate($item.children('pubDate').text().trim() || $item.children('dc\\:date').text().trim()),
+      author: $item.children('dc\\:creator').first().text().trim() || $item.children('author').first().text().trim() || undefined
+    };
+  });
+
+  return [...atomEntries, ...rssEntries].filter(entry => entry.title && /^https?:\/\//.test(entry.url));
+}
+
+// Fetches and caches RSS/Atom feeds and picks the recent entries that match a query
+export class FeedReader {
+  private cache: Map<string, { entries: FeedEntry[]; fetchedAt: number }> = new Map();
+  private cacheTtlMs: number;
+
+  constructor(cacheTtlMs = 10 * 60 * 1000) {
+    this.cacheTtlMs = cacheTtlMs;
+  }
+
+  async fetchFeed(feedUrl: string, options: FeedFetchOptions = {}): Promise<FeedEntry[]> {
+    const cached = this.cache.get(feedUrl);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return cached.entries;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout || 8000);
+
+    try {
+      const response = await fetch(feedUrl, {
+        signal: controller.signal,
+        headers: {
+          'Accept': 'application/rss+xml, application/atom+xml, application/rdf+xml, application/xml;q=0.9, text/xml;q=0.8'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const xml = await response.text();
+      if (!/<(rss|feed|rdf:RDF)[\s>]/i.test(xml)) {
+        throw new Error('Not an RSS or Atom feed');
+      }
+
+      const entries = parseFeed(xml, feedUrl);
+      this.cache.set(feedUrl, { entries, fetchedAt: Date.now() });
+      console.log(`📰 Feed ${feedUrl}: ${entries.length} entries`);
+      return entries;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Feed request timeout after ${options.timeout || 8000}ms`);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Feed fetch failed: ${errorMessage}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Title matches count double; the best matches come first, newer entries break ties
+  findRelevantEntries(entries: FeedEntry[], query: string, options: FeedFilterOptions = {}): FeedEntry[] {
+    const { maxAgeDays = 30, limit = 3, minRelevance = 0.3 } = options;
+    const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+    if (queryTerms.length === 0) return [];
+
+    const oldest = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+    return entries
+      .filter(entry => !entry.publishedAt || new Date(entry.publishedAt).getTime() >= oldest)
+      .map(entry => {
+        const title = entry.title.toLowerCase();
+        const summary = entry.summary.toLowerCase();
+        const matching = queryTerms.filter(term => title.includes(term) || summary.includes(term));
+        const titleMatches = queryTerms.filter(term => title.includes(term)).length;
+        return {
+          entry,
+          relevance: matching.length / queryTerms.length,
+          score: matching.length + titleMatches
+        };
+      })
+      .filter(({ relevance }) => relevance >= minRelevance)
+      .sort((a, b) =>
+        b.score - a.score ||
+        (b.entry.publishedAt || '').localeCompare(a.entry.publishedAt || '')
+      )
+      .slice(0, limit)
+      .map(({ entry }) => entry);
+  }
+}
@@ -0,0 +1,311 @@
+import type { ContentSelectors, ExtractedContent } from './contentExtractor';
+
+export interface PageCacheEntry {
+  key: string; // see pageCacheKey
+  url: string; // canonical URL
+  content: ExtractedContent;
+  variant?: string; // extraction settings the content came from; see extractionVariant
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number; // when the page was last downloaded
+  validatedAt: number; // when the server last confirmed it, by a 200 or a 304
+}
+
+// Where entries live, by their key; PageCache reads them in order and writes to all of them
+export interface PageCacheStore {
+  get(key: string): Promise<PageCacheEntry | null>;
+  set(entry: PageCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface PageCacheOptions {
+  maxAgeMs?: number; // entries validated this recently are served without asking the server
+  maxStaleMs?: number; // older entries are dropped instead of revalidated
+}
+
+export type PageFetchResult =
+  | { notModified: true }
+  | { notModified: false; content: ExtractedContent; etag?: string; lastModified?: string };
+
+// A scraper's download before extraction; notModified only comes back for conditional requests
+export type HtmlFetchResult =
+  | { notModified: true }
+  | { notModified: false; html: string; etag?: string; lastModified?: string };
+
+export function cacheValidators(headers: Headers): { etag?: string; lastModified?: string } {
+  return {
+    etag: headers.get('etag') || undefined,
+    lastModified: headers.get('last-modified') || undefined
+  };
+}
+
+// Tracking parameters that don't change what a page shows
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref_src)$/i;
+
+export function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// The settings an extraction depends on besides the page: scrapers cut the HTML to
+// maxContentLength before extracting, and category sources bring their own selectors
+export function extractionVariant(settings: { maxContentLength?: number; selectors?: ContentSelectors }): string | undefined {
+  const parts = [
+    settings.maxContentLength ? `max=${settings.maxContentLength}` : '',
+    settings.selectors ? `selectors=${JSON.stringify(settings.selectors)}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+// Each variant of a page gets its own entry, so scrapers extracting it differently keep their own
+// content and validators instead of overwriting each other's
+export function pageCacheKey(url: string, variant?: string): string {
+  const key = canonicalUrl(url);
+  return variant ? `${variant}\u241f${key}` : key;
+}
+
+export class MemoryPageCacheStore implements PageCacheStore {
+  private entries = new Map<string, PageCacheEntry>();
+
+  constructor(private maxEntries = 200) {}
+
+  async get(key: string): Promise<PageCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Re-insert so the Map's order doubles as least-recently-used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: PageCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Survives reloads in the browser; every operation degrades to a miss if IndexedDB is unavailable
+export class IndexedDBPageCacheStore implements PageCacheStore {
+  private static readonly STORE = 'pages';
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private dbName = 'honig-page-cache', private maxStaleMs = 7 * 24 * 60 * 60 * 1000) {}
+
+  async get(key: string): Promise<PageCacheEntry | null> {
+    const result = await this.request<PageCacheEntry | undefined>('readonly', store => store.get(key));
+    return result || null;
+  }
+
+  async set(entry: PageCacheEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    return new Promise(resolve => {
+      try {
+        const request = run(db.transaction(IndexedDBPageCacheStore.STORE, mode).objectStore(IndexedDBPageCacheStore.STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 2);
+        request.onupgradeneeded = () => {
+          // Version 1 keyed entries by URL alone; its entries are dropped rather than migrated
+          if (request.result.objectStoreNames.contains(IndexedDBPageCacheStore.STORE)) {
+            request.result.deleteObjectStore(IndexedDBPageCacheStore.STORE);
+          }
+          const store = request.result.createObjectStore(IndexedDBPageCacheStore.STORE, { keyPath: 'key' });
+          store.createIndex('validatedAt', 'validatedAt');
+        };
+        request.onsuccess = () => {
+          this.prune(request.result);
+          resolve(request.result);
+        };
+        request.onerror = () => {
+          console.warn('⚠️ Page cache unavailable:', request.error?.message);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  // Drops entries too stale to revalidate, once per session
+  private prune(db: IDBDatabase) {
+    try {
+      const index = db.transaction(IndexedDBPageCacheStore.STORE, 'readwrite')
+        .objectStore(IndexedDBPageCacheStore.STORE)
+        .index('validatedAt');
+      const cursor = index.openCursor(IDBKeyRange.upperBound(Date.now() - this.maxStaleMs));
+      cursor.onsuccess = () => {
+        if (!cursor.result) return;
+        cursor.result.delete();
+        cursor.result.continue();
+      };
+    } catch (error) {
+      console.warn('⚠️ Page cache cleanup failed:', error);
+    }
+  }
+}
+
+// Fresh entries are served as they are, older ones are revalidated with a conditional GET, and a
+// 304 keeps the stored extraction instead of downloading and parsing the page again
+export class PageCache {
+  private options: Required<PageCacheOptions>;
+  private pending = new Map<string, Promise<ExtractedContent>>();
+
+  constructor(private stores: PageCacheStore[], options: PageCacheOptions = {}) {
+    this.options = {
+      maxAgeMs: 10 * 60 * 1000,
+      maxStaleMs: 7 * 24 * 60 * 60 * 1000,
+      ...options
+    };
+  }
+
+  // Concurrent calls for the same page share one fetch
+  resolve(
+    url: string,
+    variant: string | undefined,
+    fetchPage: (conditionalHeaders: Record<string, string>) => Promise<PageFetchResult>
+  ): Promise<ExtractedContent> {
+    const key = pageCacheKey(url, variant);
+
+    const pending = this.pending.get(key);
+    if (pending) return pending;
+
+    const result = this.load(url, variant, fetchPage).finally(() => this.pending.delete(key));
+    this.pending.set(key, result);
+    return result;
+  }
+
+  async get(url: string, variant?: string): Promise<PageCacheEntry | null> {
+    const key = pageCacheKey(url, variant);
+
+    for (let i = 0; i < this.stores.length; i++) {
+      const entry = await this.safely(() => this.stores[i].get(key), null);
+      if (!entry) continue;
+
+      if (Date.now() - entry.validatedAt > this.options.maxStaleMs) {
+        await this.delete(url, variant);
+        return null;
+      }
+
+      // Copy hits from slower stores into the faster ones in front of them
+      await Promise.all(this.stores.slice(0, i).map(store => this.safely(() => store.set(entry), undefined)));
+      return entry;
+    }
+    return null;
+  }
+
+  async delete(url: string, variant?: string): Promise<void> {
+    const key = pageCacheKey(url, variant);
+    await Promise.all(this.stores.map(store => this.safely(() => store.delete(key), undefined)));
+  }
+
+  private async load(
+    url: string,
+    variant: string | undefined,
+    fetchPage: (conditionalHeaders: Record<string, string>) => Promise<PageFetchResult>
+  ): Promise<ExtractedContent> {
+    const usable = await this.get(url, variant);
+
+    if (usable && Date.now() - usable.validatedAt < this.options.maxAgeMs) {
+      return usable.content;
+    }
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (usable?.etag) conditionalHeaders['If-None-Match'] = usable.etag;
+    if (usable?.lastModified) conditionalHeaders['If-Modified-Since'] = usable.lastModified;
+
+    const result = await fetchPage(conditionalHeaders);
+    const now = Date.now();
+
+    if (result.notModified) {
+      if (!usable) throw new Error('Server answered 304 Not Modified for a page that is not cached');
+      await this.write({ ...usable, validatedAt: now });
+      return usable.content;
+    }
+
+    await this.write({
+      key: pageCacheKey(url, variant),
+      url: canonicalUrl(url),
+      content: result.content,
+      variant,
+      etag: result.etag,
+      lastModified: result.lastModified,
+      fetchedAt: now,
+      validatedAt: now
+    });
+    return result.content;
+  }
+
+  private async write(entry: PageCacheEntry) {
+    await Promise.all(this.stores.map(store => this.safely(() => store.set(entry), undefined)));
+  }
+
+  // A broken store costs a cache miss, never a failed scrape
+  private async safely<T>(run: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      console.warn('⚠️ Page cache store failed:', error instanceof Error ? error.message : String(error));
+      return fallback;
+    }
+  }
+}
+
+// For callers that opt out of caching: nothing is stored, concurrent fetches are still shared
+export const NO_PAGE_CACHE = new PageCache([]);
+
+let sharedPageCache: PageCache | null = null;
+
+// One cache for every scraper in the app, so a page fetched by one is reused by the others
+export function getSharedPageCache(): PageCache {
+  if (!sharedPageCache) {
+    const stores: PageCacheStore[] = [new MemoryPageCacheStore()];
+    if (typeof indexedDB !== 'undefined') stores.push(new IndexedDBPageCacheStore());
+    sharedPageCache = new PageCache(stores);
+  }
+  return sharedPageCache;
+}
@@ -0,0 +1,106 @@
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import type { ContentPage, ExtractedContent } from './contentExtractor';
+import { titleFromUrl } from './documentExtractors';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+// pdf.js is large, so it's only loaded once a PDF turns up
+async function loadPdfJs(): Promise<PdfJs> {
+  if (typeof window === 'undefined') {
+    // Node: the legacy build runs on Node 20 and sets up its own worker
+    return import('pdfjs-dist/legacy/build/pdf.mjs');
+  }
+
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+  }
+  return pdfjs;
+}
+
+// Lines come from the text items' end-of-line flags and vertical position; a gap taller than a
+// line starts a new paragraph, and lines within a paragraph are joined
+function pageText(items: Array<TextItem | TextMarkedContent>): string {
+  let text = '';
+  let lastY: number | null = null;
+  let lineHeight = 0;
+
+  for (const item of items) {
+    if (!('str' in item)) continue;
+    const y = item.transform[5];
+
+    if (lastY !== null) {
+      if (!text.endsWith('\n') && Math.abs(y - lastY) > lineHeight / 2) text += '\n';
+      if (text.endsWith('\n') && lastY - y > lineHeight * 1.8) text += '\n';
+    }
+
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+    lastY = y;
+    lineHeight = item.height || lineHeight;
+  }
+
+  return text
+    .replace(/(\w)-\n(?=[a-z])/g, '$1') // words hyphenated across lines
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// PDF dates look like D:20240115093000+01'00'
+function pdfDate(value: unknown): string | undefined {
+  const match = typeof value === 'string' && value.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, tzHour, tzMinute] = match;
+  const zone = sign && sign !== 'Z' && tzHour ? `${sign}${tzHour}:${tzMinute || '00'}` : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function infoString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export async function extractPdf(data: ArrayBuffer, url: string): Promise<ExtractedContent> {
+  const pdfjs = await loadPdfJs();
+  const document = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false, verbosity: 0 }).promise;
+
+  try {
+    const pages: ContentPage[] = [];
+    let content = '';
+
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const text = pageText((await page.getTextContent()).items);
+      page.cleanup();
+      if (!text) continue;
+
+      if (content) content += '\n\n';
+      pages.push({ page: number, start: content.length, end: content.length + text.length });
+      content += text;
+    }
+
+    const { info } = await document.getMetadata();
+    const fields = (info || {}) as Record<string, unknown>;
+    const firstLine = content.split('\n')[0]?.trim();
+
+    return {
+      title: infoString(fields.Title) || (firstLine && firstLine.length <= 150 ? firstLine : titleFromUrl(url)),
+      content,
+      metadata: {
+        author: infoString(fields.Author),
+        publishedAt: pdfDate(fields.CreationDate),
+        description: infoString(fields.Subject),
+        keywords: infoString(fields.Keywords)?.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean) || [],
+        language: infoString(fields.Language)
+      },
+      readabilityScore: 0,
+      format: 'pdf',
+      pages
+    };
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,404 @@
+import type * as cheerio from 'cheerio';
+import { isTag, isText, type AnyNode, type Element } from 'domhandler';
+
+// Density-based main content detection in the spirit of Mozilla's Readability: paragraphs score
+// their ancestors by text length and commas, scores are discounted by link density, and the best
+// block plus its related siblings is rendered as Markdown.
+
+const UNLIKELY_CANDIDATES = /-ad-|ad-break|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tags|toolbar|widget/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story|post|entry/i;
+const POSITIVE_NAMES = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_NAMES = /-ad-|hidden|banner|combx|comment|com-|contact|cookie|consent|foot|footer|footnote|gdpr|masthead|meta|newsletter|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|subscribe|tags|toolbar|widget/i;
+const HIDDEN_STYLE = /(display\s*:\s*none|visibility\s*:\s*hidden)/i;
+
+const REMOVED_TAGS = 'script, style, noscript, iframe, form, button, input, select, textarea, svg, canvas, template, nav';
+const SCORED_TAGS = new Set(['p', 'pre', 'td', 'blockquote', 'div', 'section']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure',
+  'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+]);
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_CONTENT_LENGTH = 200;
+
+// `br` inside a paragraph; survives whitespace collapsing and becomes a newline at the end
+const LINE_BREAK = '\uE000';
+
+type Scores = Map<Element, number>;
+
+export function extractReadableContent($: cheerio.CheerioAPI): string | null {
+  pruneUnlikelyElements($);
+
+  const scores = scoreCandidates($);
+  let topCandidate: Element | null = null;
+  let topScore = 0;
+
+  for (const [element, score] of scores) {
+    const finalScore = score * (1 - linkDensity($, element));
+    scores.set(element, finalScore);
+    if (finalScore > topScore) {
+      topScore = finalScore;
+      topCandidate = element;
+    }
+  }
+
+  if (!topCandidate) return null;
+
+  const nodes = collectArticleNodes($, topCandidate, topScore, scores);
+  nodes.forEach(node => cleanConditionally($, node));
+
+  const markdown = renderBlocks($, nodes).join('\n\n');
+  return markdown.length >= MIN_CONTENT_LENGTH ? markdown : null;
+}
+
+// Renders already chosen elements (e.g. a source's content selector matches) as Markdown
+export function elementsToMarkdown($: cheerio.CheerioAPI, elements: AnyNode[]): string {
+  return renderBlocks($, elements).join('\n\n');
+}
+
+function classAndId(element: Element): string {
+  return `${element.attribs.class || ''} ${element.attribs.id || ''}`;
+}
+
+function isHidden(element: Element): boolean {
+  const { attribs } = element;
+  return attribs.hidden !== undefined ||
+    attribs['aria-hidden'] === 'true' ||
+    HIDDEN_STYLE.test(attribs.style || '') ||
+    /^(dialog|alertdialog|navigation|complementary)$/.test(attribs.role || '');
+}
+
+function pruneUnlikelyElements($: cheerio.CheerioAPI) {
+  $(REMOVED_TAGS).remove();
+
+  $('body *').each((_, element) => {
+    if (['article', 'main', 'body', 'html', 'pre', 'code', 'table'].includes(element.name)) return;
+    if (isHidden(element)) {
+      $(element).remove();
+      return;
+    }
+
+    const names = classAndId(element);
+    if (UNLIKELY_CANDIDATES.test(names) && !MAYBE_CANDIDATE.test(names)) {
+      $(element).remove();
+    }
+  });
+}
+
+function classWeight(element: Element): number {
+  const names = classAndId(element);
+  let weight = 0;
+  if (NEGATIVE_NAMES.test(names)) weight -= 25;
+  if (POSITIVE_NAMES.test(names)) weight += 25;
+  return weight;
+}
+
+function initialScore(element: Element): number {
+  let score = classWeight(element);
+
+  switch (element.name) {
+    case 'article':
+    case 'main':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      score -= 3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score -= 5;
+      break;
+  }
+
+  return score;
+}
+
+function hasBlockChildren(element: Element): boolean {
+  return element.children.some(child => isTag(child) && BLOCK_TAGS.has(child.name));
+}
+
+function textLength($: cheerio.CheerioAPI, element: AnyNode): number {
+  return $(element).text().replace(/\s+/g, ' ').trim().length;
+}
+
+function linkDensity($: cheerio.CheerioAPI, element: Element): number {
+  const length = textLength($, element);
+  if (length === 0) return 0;
+
+  let linkLength = 0;
+  $(element).find('a').each((_, link) => {
+    linkLength += textLength($, link);
+  });
+  return Math.min(1, linkLength / length);
+}
+
+function scoreCandidates($: cheerio.CheerioAPI): Scores {
+  const scores: Scores = new Map();
+
+  $('body *').each((_, element) => {
+    if (!SCORED_TAGS.has(element.name)) return;
+    // Containers only count as paragraphs when they hold text directly
+    if ((element.name === 'div' || element.name === 'section') && hasBlockChildren(element)) return;
+
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const commas = text.split(',').length - 1;
+    const contentScore = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = element.parent;
+    for (let level = 0; level < 3 && ancestor && isTag(ancestor); level++) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + contentScore / divider);
+      ancestor = ancestor.parent;
+    }
+  });
+
+  return scores;
+}
+
+// The top candidate plus siblings that look like part of the same article
+function collectArticleNodes($: cheerio.CheerioAPI, topCandidate: Element, topScore: number, scores: Scores): Element[] {
+  const parent = topCandidate.parent;
+  if (!parent || !isTag(parent)) return [topCandidate];
+
+  const threshold = Math.max(10, topScore * 0.2);
+  const topClass = topCandidate.attribs.class || '';
+
+  return parent.children.filter((sibling): sibling is Element => {
+    if (!isTag(sibling)) return false;
+    if (sibling === topCandidate) return true;
+
+    let score = scores.get(sibling) || 0;
+    if (topClass && sibling.attribs.class === topClass) score += topScore * 0.2;
+    if (score >= threshold) return true;
+
+    if (sibling.name !== 'p') return false;
+    const text = $(sibling).text().replace(/\s+/g, ' ').trim();
+    const density = linkDensity($, sibling);
+    return (text.length > 80 && density < 0.25) ||
+      (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+}
+
+// Drops link lists, share bars and similar boxes that survived inside the chosen block
+function cleanConditionally($: cheerio.CheerioAPI, root: Element) {
+  $(root).find('div, section, aside, ul, ol, header, footer').each((_, element) => {
+    if ($(element).find('pre, table').length > 0) return;
+
+    const weight = classWeight(element);
+    if (weight < 0) {
+      $(element).remove();
+      return;
+    }
+
+    const length = textLength($, element);
+    const density = linkDensity($, element);
+    const isList = element.name === 'ul' || element.name === 'ol';
+
+    if ((density > 0.5 && !isList) || (isList && density > 0.8) || (length < 25 && !isList && $(element).find('img, h1, h2, h3, h4, h5, h6, p').length === 0)) {
+      $(element).remove();
+    }
+  });
+}
+
+function normalizeInline(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(LINE_BREAK)
+    .map(line => line.trim())
+    .join('\n')
+    .trim();
+}
+
+function renderBlocks($: cheerio.CheerioAPI, nodes: AnyNode[]): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = normalizeInline(inline);
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  for (const node of nodes) {
+    if (isText(node)) {
+      inline += node.data;
+    } else if (isTag(node)) {
+      if (BLOCK_TAGS.has(node.name)) {
+        flush();
+        blocks.push(...renderBlock($, node));
+      } else {
+        inline += renderInline($, node);
+      }
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+function renderBlock($: cheerio.CheerioAPI, element: Element): string[] {
+  switch (element.name) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = normalizeInline(renderInlineChildren($, element)).replace(/\n/g, ' ');
+      return text ? [`${'#'.repeat(Number(element.name[1]))} ${text}`] : [];
+    }
+    case 'p':
+    case 'dd':
+    case 'figcaption': {
+      const text = normalizeInline(renderInlineChildren($, element));
+      return text ? [text] : [];
+    }
+    case 'dt': {
+      const text = normalizeInline(renderInlineChildren($, element));
+      return text ? [`**${text}**`] : [];
+    }
+    case 'ul':
+    case 'ol': {
+      const list = renderList($, element, '');
+      return list ? [list] : [];
+    }
+    case 'pre':
+      return [renderCodeBlock($, element)];
+    case 'blockquote': {
+      const quoted = renderBlocks($, element.children).join('\n\n');
+      return quoted ? [quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+    }
+    case 'table': {
+      const table = renderTable($, element);
+      return table ? [table] : renderBlocks($, element.children);
+    }
+    case 'hr':
+      return [];
+    default:
+      return renderBlocks($, element.children);
+  }
+}
+
+function renderInlineChildren($: cheerio.CheerioAPI, element: Element): string {
+  return element.children.map(child => renderInline($, child)).join('');
+}
+
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return text;
+
+  const leading = /^\s/.test(text) ? ' ' : '';
+  const trailing = /\s$/.test(text) ? ' ' : '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function renderInline($: cheerio.CheerioAPI, node: AnyNode): string {
+  if (isText(node)) return node.data;
+  if (!isTag(node)) return '';
+
+  switch (node.name) {
+    case 'br':
+      return LINE_BREAK;
+    case 'img':
+      return '';
+    case 'strong':
+    case 'b':
+      return wrapInline(renderInlineChildren($, node), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(renderInlineChildren($, node), '*');
+    case 'code':
+    case 'kbd':
+      return wrapInline($(node).text().replace(/\s+/g, ' '), '`');
+    default:
+      // Links keep their text only; block elements nested in inline context read as spaced text
+      return BLOCK_TAGS.has(node.name)
+        ? ` ${renderInlineChildren($, node)} `
+        : renderInlineChildren($, node);
+  }
+}
+
+// Nested lists are indented to their parent item's text so they nest under `1.` as well as `-`
+function renderList($: cheerio.CheerioAPI, list: Element, indent: string): string {
+  const ordered = list.name === 'ol';
+  const lines: string[] = [];
+  let index = Number(list.attribs.start) || 1;
+
+  for (const item of list.children) {
+    if (!isTag(item) || item.name !== 'li') continue;
+
+    const nestedLists = item.children.filter((child): child is Element => isTag(child) && (child.name === 'ul' || child.name === 'ol'));
+    const ownContent = item.children.filter(child => !nestedLists.includes(child as Element));
+    const text = renderBlocks($, ownContent).join(' ').replace(/\n+/g, ' ');
+
+    const marker = ordered ? `${index++}.` : '-';
+    if (text) lines.push(`${indent}${marker} ${text}`);
+    nestedLists.forEach(nested => {
+      const rendered = renderList($, nested, indent + ' '.repeat(marker.length + 1));
+      if (rendered) lines.push(rendered);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function codeLanguage(element: Element): string {
+  const code = element.children.find((child): child is Element => isTag(child) && child.name === 'code');
+  const classes = `${element.attribs.class || ''} ${code?.attribs.class || ''}`;
+  return classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] || '';
+}
+
+function renderCodeBlock($: cheerio.CheerioAPI, element: Element): string {
+  const code = $(element).text().replace(/^\n+|\s+$/g, '');
+  return `\`\`\`${codeLanguage(element)}\n${code}\n\`\`\``;
+}
+
+// Pipe tables for data tables; layout tables (one column or nested tables) render as text
+function renderTable($: cheerio.CheerioAPI, table: Element): string | null {
+  if ($(table).find('table').length > 0) return null;
+
+  const rows = $(table).find('tr').toArray().map(row =>
+    $(row).children('th, td').toArray().map(cell =>
+      normalizeInline(renderInlineChildren($, cell)).replace(/\n/g, ' ').replace(/\|/g, '\\|')
+    )
+  ).filter(cells => cells.length > 0);
+
+  const columns = Math.max(0, ...rows.map(cells => cells.length));
+  if (rows.length === 0 || columns < 2) return null;
+
+  const pad = (cells: string[]) => [...cells, ...Array(columns - cells.length).fill('')];
+  const line = (cells: string[]) => `| ${pad(cells).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [
+    line(header),
+    line(Array(columns).fill('---')),
+    ...body.map(line)
+  ].join('\n');
+}
@@ -0,0 +1,176 @@
+import { crawlDelayFor, isPathAllowed, RobotsTxtCache } from './robotsTxt';
+import { scrapeProxyUrlFromEnv } from './scrapeProxyClient';
+
+export interface RequestSchedulerOptions {
+  maxConcurrent?: number; // requests in flight across all hosts
+  maxConcurrentPerHost?: number;
+  minHostIntervalMs?: number; // spacing between request starts on one host when robots.txt sets no Crawl-delay
+  userAgent?: string; // product token matched against robots.txt User-agent lines
+  robots?: RobotsTxtCache;
+}
+
+export interface ScheduleOptions {
+  respectRobotsTxt?: boolean;
+  deadline?: number; // epoch ms; a request that can't start by then is dropped instead of waited on
+}
+
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  nextStartAt: number;
+}
+
+export const ROBOTS_USER_AGENT = 'LiveLLMAgent';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Deadline for a request that may wait at most maxQueueMs for its turn
+export function queueDeadline(maxQueueMs?: number): number | undefined {
+  return maxQueueMs === undefined ? undefined : Date.now() + maxQueueMs;
+}
+
+function queueTimeoutError(url: string): Error {
+  return new Error(`QUEUE_TIMEOUT: ${url} could not start before its deadline (host busy or paced by Crawl-delay)`);
+}
+
+// Queues page requests so that robots.txt is checked first, each host sees a bounded number of
+// requests at a time spaced by its Crawl-delay, and the whole app stays under a global limit
+export class RequestScheduler {
+  private options: Required<Omit<RequestSchedulerOptions, 'robots'>>;
+  private robots: RobotsTxtCache;
+  private hosts = new Map<string, HostState>();
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.options = {
+      maxConcurrent: 6,
+      maxConcurrentPerHost: 2,
+      minHostIntervalMs: 250,
+      userAgent: ROBOTS_USER_AGENT,
+      ...options
+    };
+    this.robots = options.robots || new RobotsTxtCache();
+  }
+
+  // Rejects with ROBOTS_DISALLOWED when robots.txt forbids the URL, and with QUEUE_TIMEOUT when it
+  // can't start before options.deadline; the task is never run then
+  async schedule<T>(url: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { origin, host, pathname, search } = new URL(url);
+    let intervalMs = this.options.minHostIntervalMs;
+
+    if (options.respectRobotsTxt !== false) {
+      const robots = await this.robots.get(origin);
+      if (!isPathAllowed(robots, pathname + search, this.options.userAgent)) {
+        throw new Error(`ROBOTS_DISALLOWED: ${url} is disallowed by robots.txt`);
+      }
+      const crawlDelay = crawlDelayFor(robots, this.options.userAgent);
+      if (crawlDelay !== undefined) intervalMs = Math.max(intervalMs, crawlDelay * 1000);
+    }
+
+    const state = await this.acquireHost(host, url, options.deadline);
+    try {
+      // Reserve the start time before sleeping so queued requests line up behind each other
+      const startAt = Math.max(Date.now(), state.nextStartAt);
+      if (options.deadline !== undefined && startAt > options.deadline) throw queueTimeoutError(url);
+      state.nextStartAt = startAt + intervalMs;
+      if (startAt > Date.now()) await sleep(startAt - Date.now());
+
+      await this.acquireGlobal(url, options.deadline);
+      try {
+        // Waiting for a global slot may have pushed the start back; space the next one from here
+        state.nextStartAt = Math.max(state.nextStartAt, Date.now() + intervalMs);
+        return await task();
+      } finally {
+        this.releaseGlobal();
+      }
+    } finally {
+      this.releaseHost(host, state);
+    }
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    const { origin, pathname, search } = new URL(url);
+    return isPathAllowed(await this.robots.get(origin), pathname + search, this.options.userAgent);
+  }
+
+  private async acquireHost(host: string, url: string, deadline?: number): Promise<HostState> {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, waiting: [], nextStartAt: 0 };
+      this.hosts.set(host, state);
+    }
+
+    if (state.active >= this.options.maxConcurrentPerHost) {
+      await this.waitInLine(state.waiting, url, deadline);
+    } else {
+      state.active++;
+    }
+    return state;
+  }
+
+  // A waiting request inherits the slot instead of the count going down and up again
+  private releaseHost(host: string, state: HostState) {
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+
+    state.active--;
+    if (state.active === 0 && state.nextStartAt <= Date.now()) {
+      this.hosts.delete(host);
+    }
+  }
+
+  private async acquireGlobal(url: string, deadline?: number) {
+    if (this.active >= this.options.maxConcurrent) {
+      await this.waitInLine(this.waiting, url, deadline);
+    } else {
+      this.active++;
+    }
+  }
+
+  // Resolves when a finishing request hands over its slot; past the deadline the request leaves
+  // the line, so no slot is ever handed to it
+  private waitInLine(line: Array<() => void>, url: string, deadline?: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const turn = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      line.push(turn);
+
+      if (deadline !== undefined) {
+        timeoutId = setTimeout(() => {
+          const index = line.indexOf(turn);
+          if (index < 0) return;
+          line.splice(index, 1);
+          reject(queueTimeoutError(url));
+        }, Math.max(0, deadline - Date.now()));
+      }
+    });
+  }
+
+  private releaseGlobal() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+let sharedScheduler: RequestScheduler | null = null;
+
+// One scheduler for every scraper in the app, so limits hold across WebScraper and CategoryWebScraper
+export function getSharedRequestScheduler(): RequestScheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = new RequestScheduler({
+      robots: new RobotsTxtCache({ proxyEndpoint: scrapeProxyUrlFromEnv() })
+    });
+  }
+  return sharedScheduler;
+}
@@ -0,0 +1,192 @@
+import { buildScrapeProxyUrl, type ProxyPayload } from './scrapeProxyClient';
+
+// robots.txt parsing and matching as described in RFC 9309, plus the non-standard Crawl-delay
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[]; // lowercased product tokens, '*' for the catch-all group
+  rules: RobotsRule[];
+  crawlDelay?: number; // seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  disallowAll?: boolean; // robots.txt answered 5xx: the site is treated as closed until it recovers
+}
+
+export interface RobotsTxtCacheOptions {
+  timeout?: number;
+  ttlMs?: number; // how long a fetched robots.txt is trusted
+  unavailableTtlMs?: number; // how long to wait before retrying one that couldn't be fetched
+  proxyEndpoint?: string; // used when the browser can't read robots.txt cross-origin
+  fetch?: typeof fetch;
+}
+
+export const ALLOW_ALL: RobotsTxt = { groups: [] };
+
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+    }
+  }
+
+  return { groups };
+}
+
+// Groups naming our token win over '*'; several groups naming it are merged
+function groupsFor(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+  const token = userAgent.toLowerCase();
+  const named = robots.groups.filter(group => group.userAgents.includes(token));
+  return named.length > 0 ? named : robots.groups.filter(group => group.userAgents.includes('*'));
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// The longest matching pattern decides; on a tie Allow wins
+export function isPathAllowed(robots: RobotsTxt, path: string, userAgent: string): boolean {
+  if (robots.disallowAll) return false;
+  if (path === '/robots.txt') return true;
+
+  let decision: RobotsRule | null = null;
+  for (const group of groupsFor(robots, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(rule.pattern).test(path)) continue;
+      if (
+        !decision ||
+        rule.pattern.length > decision.pattern.length ||
+        (rule.pattern.length === decision.pattern.length && rule.allow)
+      ) {
+        decision = rule;
+      }
+    }
+  }
+
+  return decision ? decision.allow : true;
+}
+
+// Seconds between requests the site asks of us, if any
+export function crawlDelayFor(robots: RobotsTxt, userAgent: string): number | undefined {
+  const delays = groupsFor(robots, userAgent)
+    .map(group => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+  return delays.length > 0 ? Math.max(...delays) : undefined;
+}
+
+// One robots.txt per origin, fetched once and shared by every request to that origin
+export class RobotsTxtCache {
+  private entries = new Map<string, { robots: Promise<RobotsTxt>; expiresAt: number }>();
+  private options: Required<Omit<RobotsTxtCacheOptions, 'proxyEndpoint'>> & { proxyEndpoint?: string };
+
+  constructor(options: RobotsTxtCacheOptions = {}) {
+    this.options = {
+      timeout: 5000,
+      ttlMs: 24 * 60 * 60 * 1000,
+      unavailableTtlMs: 10 * 60 * 1000,
+      fetch: (input, init) => fetch(input, init),
+      ...options
+    };
+  }
+
+  get(origin: string): Promise<RobotsTxt> {
+    const cached = this.entries.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.robots;
+
+    const entry = { robots: Promise.resolve(ALLOW_ALL), expiresAt: Date.now() + this.options.ttlMs };
+    entry.robots = this.load(origin).then(({ robots, available }) => {
+      if (!available) entry.expiresAt = Date.now() + this.options.unavailableTtlMs;
+      return robots;
+    });
+    this.entries.set(origin, entry);
+    return entry.robots;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  // Missing robots.txt (4xx) allows everything; 5xx closes the site for a while; if it can't be
+  // read at all (network or CORS failure and no proxy) the site is treated as allowing everything
+  private async load(origin: string): Promise<{ robots: RobotsTxt; available: boolean }> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await this.fetchWithTimeout(robotsUrl);
+      return this.fromResponse(response.status, response.ok ? await response.text() : '');
+    } catch (error) {
+      if (!this.options.proxyEndpoint) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Could not read ${robotsUrl}, assuming crawling is allowed:`, errorMessage);
+        return { robots: ALLOW_ALL, available: false };
+      }
+    }
+
+    try {
+      const response = await this.fetchWithTimeout(buildScrapeProxyUrl(this.options.proxyEndpoint, robotsUrl));
+      const data: ProxyPayload = await response.json();
+      // The proxy reports upstream errors as 502 without the original status
+      if (!response.ok) return { robots: ALLOW_ALL, available: false };
+      return this.fromResponse(data.status ?? 200, data.contents || '');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Could not read ${robotsUrl} through the proxy, assuming crawling is allowed:`, errorMessage);
+      return { robots: ALLOW_ALL, available: false };
+    }
+  }
+
+  private fromResponse(status: number, body: string): { robots: RobotsTxt; available: boolean } {
+    if (status >= 500) return { robots: { groups: [], disallowAll: true }, available: false };
+    if (status >= 400) return { robots: ALLOW_ALL, available: true };
+    return { robots: parseRobotsTxt(body), available: true };
+  }
+
+  private async fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+    try {
+      return await this.options.fetch(url, { signal: controller.signal, redirect: 'follow' });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
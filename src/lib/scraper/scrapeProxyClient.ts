@@ -0,0 +1,22 @@
+// Client side of server/scrapeProxy.ts, shared by the scraper and the robots.txt fetcher
+
+// The proxy's JSON answer; see ScrapeProxyPayload in server/scrapeProxy.ts
+export interface ProxyPayload {
+  status?: number;
+  contentType: string;
+  contents?: string;
+  encoding?: 'base64'; // set for binary documents such as PDFs
+  error?: string;
+}
+
+export function scrapeProxyUrlFromEnv(): string | undefined {
+  return import.meta.env?.VITE_SCRAPE_PROXY_URL?.trim() || undefined;
+}
+
+// The endpoint may be relative (e.g. /.netlify/functions/scrape) when served from the app's origin
+export function buildScrapeProxyUrl(endpoint: string, url: string): string {
+  const base = typeof window !== 'undefined' ? window.location.origin : undefined;
+  const proxyUrl = new URL(endpoint, base);
+  proxyUrl.searchParams.set('url', url);
+  return proxyUrl.toString();
+}
@@ -0,0 +1,70 @@
+import * as cheerio from 'cheerio';
+import { ContentExtractor, type ContentSelectors, type ExtractedContent } from './contentExtractor';
+
+export interface SelectorExpectations {
+  title?: string; // exact, after trimming
+  contentIncludes?: string[];
+  contentExcludes?: string[]; // boilerplate that must not leak into the content
+  minContentLength?: number;
+}
+
+export interface SelectorTestReport {
+  url: string;
+  matches: Record<keyof ContentSelectors, number>; // elements each selector matched; -1 when invalid
+  extracted: ExtractedContent;
+  failures: string[];
+  passed: boolean;
+}
+
+const SELECTOR_KEYS: Array<keyof ContentSelectors> = ['title', 'content', 'article'];
+
+// Runs a source's selectors against saved HTML and reports what they matched and extracted.
+// A selector that matches nothing, or leaves extraction to the generic heuristics, is a failure.
+export async function testSelectors(
+  html: string,
+  url: string,
+  selectors: ContentSelectors,
+  expectations: SelectorExpectations = {}
+): Promise<SelectorTestReport> {
+  const $ = cheerio.load(html);
+  const failures: string[] = [];
+  const matches = { title: 0, content: 0, article: 0 };
+
+  for (const key of SELECTOR_KEYS) {
+    const selector = selectors[key];
+    if (!selector) continue;
+
+    try {
+      matches[key] = $(selector).length;
+    } catch {
+      matches[key] = -1;
+    }
+
+    if (matches[key] === -1) failures.push(`${key} selector "${selector}" is not valid CSS`);
+    else if (matches[key] === 0) failures.push(`${key} selector "${selector}" matched nothing`);
+  }
+
+  const extracted = await new ContentExtractor().extract(html, url, selectors);
+
+  if (selectors.title && extracted.extractedWith?.title !== 'selector') {
+    failures.push('title fell back to generic extraction');
+  }
+  if (selectors.content && extracted.extractedWith?.content !== 'selector') {
+    failures.push('content fell back to generic extraction');
+  }
+
+  if (expectations.title !== undefined && extracted.title !== expectations.title.trim()) {
+    failures.push(`title was "${extracted.title}", expected "${expectations.title.trim()}"`);
+  }
+  for (const text of expectations.contentIncludes || []) {
+    if (!extracted.content.includes(text)) failures.push(`content is missing "${text}"`);
+  }
+  for (const text of expectations.contentExcludes || []) {
+    if (extracted.content.includes(text)) failures.push(`content contains "${text}"`);
+  }
+  if (expectations.minContentLength && extracted.content.length < expectations.minContentLength) {
+    failures.push(`content is ${extracted.content.length} chars, expected at least ${expectations.minContentLength}`);
+  }
+
+  return { url, matches, extracted, failures, passed: failures.length === 0 };
+}
@@ -0,0 +1,386 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+
+// schema.org entities found in a page's JSON-LD or microdata, reduced to the fields the app uses.
+// Dates are ISO strings; subtypes keep their schema.org name in `schemaType` (e.g. BlogPosting).
+export interface ArticleEntity {
+  type: 'Article' | 'NewsArticle' | 'ScholarlyArticle';
+  schemaType: string;
+  headline?: string;
+  authors: string[];
+  datePublished?: string;
+  dateModified?: string;
+  publisher?: string;
+  section?: string;
+  description?: string;
+  keywords: string[];
+  url?: string;
+  image?: string;
+}
+
+export interface Rating {
+  value: number;
+  count?: number;
+}
+
+export interface ProductEntity {
+  type: 'Product';
+  schemaType: string;
+  name?: string;
+  brand?: string;
+  sku?: string;
+  description?: string;
+  price?: string;
+  currency?: string;
+  availability?: string; // e.g. InStock
+  rating?: Rating;
+  url?: string;
+  image?: string;
+}
+
+export interface EventEntity {
+  type: 'Event';
+  schemaType: string;
+  name?: string;
+  startDate?: string;
+  endDate?: string;
+  location?: string;
+  organizer?: string;
+  status?: string; // e.g. EventScheduled, EventCancelled
+  description?: string;
+  url?: string;
+}
+
+export interface RecipeEntity {
+  type: 'Recipe';
+  schemaType: string;
+  name?: string;
+  authors: string[];
+  datePublished?: string;
+  description?: string;
+  ingredients: string[];
+  instructions: string[];
+  prepTime?: string; // ISO 8601 durations, as published
+  cookTime?: string;
+  totalTime?: string;
+  yield?: string;
+  rating?: Rating;
+  url?: string;
+  image?: string;
+}
+
+export interface FaqEntity {
+  type: 'FAQPage';
+  schemaType: string;
+  questions: Array<{ question: string; answer: string }>;
+}
+
+export type StructuredEntity = ArticleEntity | ProductEntity | EventEntity | RecipeEntity | FaqEntity;
+
+export interface StructuredData {
+  entities: StructuredEntity[];
+  openGraph: Record<string, string>; // og:* and article:* properties, first value of each
+}
+
+type SchemaNode = { [key: string]: unknown };
+
+const isNode = (value: unknown): value is SchemaNode =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+// Dates in the wild are ISO, RFC 2822 or bare days; anything unparseable is dropped
+export function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Types come as "NewsArticle", "schema:NewsArticle" or "https://schema.org/NewsArticle"
+function schemaTypes(node: SchemaNode): string[] {
+  return asArray(node['@type'])
+    .filter((type): type is string => typeof type === 'string')
+    .map(type => type.split(/[/#:]/).pop() || type);
+}
+
+// Entity values may be strings, numbers, { "@value": ... } or named things like { "name": ... }
+function textOf(value: unknown): string | undefined {
+  for (const item of asArray(value)) {
+    let text: unknown = item;
+    if (isNode(item)) text = item['@value'] ?? item.name ?? item.text ?? item.url;
+    if (typeof text === 'number') return String(text);
+    if (typeof text === 'string' && text.trim()) return text.replace(/\s+/g, ' ').trim();
+  }
+  return undefined;
+}
+
+function textsOf(value: unknown): string[] {
+  return asArray(value).map(textOf).filter((text): text is string => Boolean(text));
+}
+
+// Answers and instructions may carry markup
+function plainText(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  if (!/[<&]/.test(value)) return value;
+  return cheerio.load(value).root().text().replace(/\s+/g, ' ').trim() || undefined;
+}
+
+// Author URLs (profile pages) say nothing about who wrote a page
+function personNames(value: unknown): string[] {
+  return textsOf(value).filter(name => !/^https?:\/\//.test(name));
+}
+
+function keywordsOf(value: unknown): string[] {
+  return textsOf(value).flatMap(keywords => keywords.split(',')).map(keyword => keyword.trim()).filter(Boolean);
+}
+
+// "https://schema.org/InStock" → "InStock"
+function enumValue(value: unknown): string | undefined {
+  return textOf(value)?.split('/').pop();
+}
+
+function ratingOf(value: unknown): Rating | undefined {
+  const rating = asArray(value).find(isNode);
+  const ratingValue = textOf(rating?.ratingValue);
+  if (!rating || ratingValue === undefined || !Number.isFinite(Number(ratingValue))) return undefined;
+
+  const count = Number(textOf(rating.reviewCount) ?? textOf(rating.ratingCount));
+  return { value: Number(ratingValue), ...(Number.isFinite(count) && { count }) };
+}
+
+function locationOf(value: unknown): string | undefined {
+  const place = asArray(value)[0];
+  if (!isNode(place)) return textOf(place);
+
+  const address = isNode(place.address)
+    ? ['streetAddress', 'addressLocality', 'addressRegion', 'addressCountry']
+      .map(field => textOf((place.address as SchemaNode)[field]))
+      .filter(Boolean)
+      .join(', ')
+    : textOf(place.address);
+  return [textOf(place.name), address].filter(Boolean).join(', ') || textOf(place.url);
+}
+
+// Steps are strings, HowToStep nodes or HowToSection nodes holding more steps
+function instructionsOf(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(/\n+/).map(step => plainText(step.trim())).filter((step): step is string => Boolean(step));
+  }
+  return asArray(value).flatMap(step => {
+    if (isNode(step) && step.itemListElement) return instructionsOf(step.itemListElement);
+    const text = plainText(isNode(step) ? textOf(step.text) ?? textOf(step.name) : textOf(step));
+    return text ? [text] : [];
+  });
+}
+
+function articleType(type: string): ArticleEntity['type'] | null {
+  if (type.endsWith('NewsArticle')) return 'NewsArticle';
+  if (type.endsWith('ScholarlyArticle')) return 'ScholarlyArticle';
+  if (/^(Article|BlogPosting|LiveBlogPosting|TechArticle|Report|SocialMediaPosting|DiscussionForumPosting)$/.test(type)) {
+    return 'Article';
+  }
+  return null;
+}
+
+function toEntity(node: SchemaNode): StructuredEntity | null {
+  for (const schemaType of schemaTypes(node)) {
+    const type = articleType(schemaType);
+    if (type) {
+      return {
+        type,
+        schemaType,
+        headline: textOf(node.headline) || textOf(node.name),
+        authors: personNames(node.author ?? node.creator),
+        datePublished: toIsoDate(textOf(node.datePublished) || textOf(node.dateCreated)),
+        dateModified: toIsoDate(textOf(node.dateModified)),
+        publisher: textOf(node.publisher),
+        section: textOf(node.articleSection),
+        description: textOf(node.description),
+        keywords: keywordsOf(node.keywords),
+        url: textOf(node.url),
+        image: textOf(node.image)
+      };
+    }
+
+    if (schemaType === 'Product' || schemaType === 'ProductGroup') {
+      const offer = asArray(node.offers).find(isNode);
+      return {
+        type: 'Product',
+        schemaType,
+        name: textOf(node.name),
+        brand: textOf(node.brand),
+        sku: textOf(node.sku),
+        description: textOf(node.description),
+        price: textOf(offer?.price) ?? textOf(offer?.lowPrice),
+        currency: textOf(offer?.priceCurrency),
+        availability: enumValue(offer?.availability),
+        rating: ratingOf(node.aggregateRating),
+        url: textOf(node.url),
+        image: textOf(node.image)
+      };
+    }
+
+    if (schemaType.endsWith('Event')) {
+      return {
+        type: 'Event',
+        schemaType,
+        name: textOf(node.name),
+        startDate: toIsoDate(textOf(node.startDate)),
+        endDate: toIsoDate(textOf(node.endDate)),
+        location: locationOf(node.location),
+        organizer: textOf(node.organizer),
+        status: enumValue(node.eventStatus),
+        description: textOf(node.description),
+        url: textOf(node.url)
+      };
+    }
+
+    if (schemaType === 'Recipe') {
+      return {
+        type: 'Recipe',
+        schemaType,
+        name: textOf(node.name),
+        authors: personNames(node.author),
+        datePublished: toIsoDate(textOf(node.datePublished)),
+        description: textOf(node.description),
+        ingredients: textsOf(node.recipeIngredient ?? node.ingredients),
+        instructions: instructionsOf(node.recipeInstructions),
+        prepTime: textOf(node.prepTime),
+        cookTime: textOf(node.cookTime),
+        totalTime: textOf(node.totalTime),
+        yield: textOf(node.recipeYield),
+        rating: ratingOf(node.aggregateRating),
+        url: textOf(node.url),
+        image: textOf(node.image)
+      };
+    }
+
+    if (schemaType === 'FAQPage') {
+      const questions = asArray(node.mainEntity).filter(isNode).flatMap(question => {
+        const answer = plainText(textOf(asArray(question.acceptedAnswer).find(isNode)?.text));
+        const text = textOf(question.name);
+        return text && answer ? [{ question: text, answer }] : [];
+      });
+      return { type: 'FAQPage', schemaType, questions };
+    }
+  }
+  return null;
+}
+
+// Replaces { "@id": ... } references with the node they point to, so an article's author can
+// live elsewhere in an @graph; each node is expanded once to stop on cycles
+function resolveReferences(value: unknown, byId: Map<string, SchemaNode>, seen = new Set<SchemaNode>()): unknown {
+  if (Array.isArray(value)) return value.map(item => resolveReferences(item, byId, seen));
+  if (!isNode(value)) return value;
+
+  const target = typeof value['@id'] === 'string' && Object.keys(value).length === 1 ? byId.get(value['@id']) : undefined;
+  const node = target || value;
+  if (seen.has(node)) return node;
+  seen.add(node);
+
+  return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, resolveReferences(item, byId, seen)]));
+}
+
+// Every node in the JSON-LD blocks, including @graph members and nested nodes such as a
+// WebPage's mainEntity
+function collectNodes(value: unknown, nodes: SchemaNode[] = []): SchemaNode[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes));
+  } else if (isNode(value)) {
+    nodes.push(value);
+    Object.values(value).forEach(item => collectNodes(item, nodes));
+  }
+  return nodes;
+}
+
+function parseJsonLd($: cheerio.CheerioAPI): SchemaNode[] {
+  const roots: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_, script) => {
+    const text = $(script).text()
+      .replace(/^\s*(<!--|\/\/\s*<!\[CDATA\[)/, '')
+      .replace(/(-->|\/\/\s*\]\]>)\s*$/, '')
+      .trim();
+    try {
+      roots.push(JSON.parse(text));
+    } catch {
+      // A broken block is skipped; the page's other blocks and meta tags still count
+    }
+  });
+
+  const byId = new Map<string, SchemaNode>();
+  collectNodes(roots).forEach(node => {
+    if (typeof node['@id'] === 'string' && Object.keys(node).length > 1) byId.set(node['@id'], node);
+  });
+
+  return roots.flatMap(root => asArray(isNode(root) && root['@graph'] ? root['@graph'] : root))
+    .map(root => resolveReferences(root, byId))
+    .filter(isNode);
+}
+
+// Microdata values follow the HTML spec: URLs from src/href, machine values from content,
+// datetime and value attributes, otherwise the element's text
+function microdataValue($: cheerio.CheerioAPI, element: Element): string {
+  const $element = $(element);
+  const tag = element.tagName.toLowerCase();
+
+  if ($element.attr('content') !== undefined) return $element.attr('content') || '';
+  if (['audio', 'embed', 'iframe', 'img', 'source', 'track', 'video'].includes(tag)) return $element.attr('src') || '';
+  if (['a', 'area', 'link'].includes(tag)) return $element.attr('href') || '';
+  if (tag === 'object') return $element.attr('data') || '';
+  if (tag === 'data' || tag === 'meter') return $element.attr('value') || '';
+  if (tag === 'time') return $element.attr('datetime') || $element.text().trim();
+  return $element.text().replace(/\s+/g, ' ').trim();
+}
+
+function microdataItem($: cheerio.CheerioAPI, item: Element): SchemaNode {
+  const node: SchemaNode = { '@type': ($(item).attr('itemtype') || '').split(/\s+/).filter(Boolean) };
+
+  $(item).find('[itemprop]').each((_, property) => {
+    // Properties of nested items belong to those items
+    if ($(property).parent().closest('[itemscope]')[0] !== item) return;
+
+    const value = $(property).is('[itemscope]') ? microdataItem($, property) : microdataValue($, property);
+    ($(property).attr('itemprop') || '').split(/\s+/).filter(Boolean).forEach(name => {
+      node[name] = name in node ? [...asArray(node[name]), value] : value;
+    });
+  });
+  return node;
+}
+
+function parseMicrodata($: cheerio.CheerioAPI): SchemaNode[] {
+  return $('[itemscope][itemtype]')
+    .filter((_, item) => $(item).attr('itemprop') === undefined)
+    .toArray()
+    .map(item => microdataItem($, item));
+}
+
+function parseOpenGraph($: cheerio.CheerioAPI): Record<string, string> {
+  const properties: Record<string, string> = {};
+  $('meta[property^="og:"], meta[property^="article:"]').each((_, meta) => {
+    const property = $(meta).attr('property') as string;
+    const content = $(meta).attr('content')?.trim();
+    if (content && !(property in properties)) properties[property] = content;
+  });
+  return properties;
+}
+
+// Reads JSON-LD, microdata and OpenGraph tags; run it before scripts and page chrome are removed
+export function extractStructuredData($: cheerio.CheerioAPI): StructuredData {
+  const entities: StructuredEntity[] = [];
+  const seen = new Set<unknown>();
+
+  // A node referenced from several places is resolved into several copies that share its @id
+  [...collectNodes(parseJsonLd($)), ...collectNodes(parseMicrodata($))].forEach(node => {
+    const key = typeof node['@id'] === 'string' ? node['@id'] : node;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const entity = toEntity(node);
+    if (entity) entities.push(entity);
+  });
+
+  return { entities, openGraph: parseOpenGraph($) };
+}
+
+export function isArticleEntity(entity: StructuredEntity): entity is ArticleEntity {
+  return entity.type === 'Article' || entity.type === 'NewsArticle' || entity.type === 'ScholarlyArticle';
+}
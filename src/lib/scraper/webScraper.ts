@@ -1,24 +1,95 @@
-import { ContentExtractor, type ExtractedContent } from './contentExtractor';
+import type { SearchResult } from '../types';
+import type { DocumentFormat, ExtractedContent } from './contentExtractor';
+import { clipContent, documentFormat, DocumentExtractor } from './documentExtractors';
+import {
+  cacheValidators,
+  extractionVariant,
+  getSharedPageCache,
+  NO_PAGE_CACHE,
+  type PageCache,
+  type PageFetchResult
+} from './pageCache';
+import { getSharedRequestScheduler, queueDeadline, type RequestScheduler } from './requestScheduler';
+import { buildScrapeProxyUrl, scrapeProxyUrlFromEnv, type ProxyPayload } from './scrapeProxyClient';
 
 export interface ScrapingOptions {
   timeout?: number;
+  maxQueueMs?: number; // longest a page waits for its turn on a busy or Crawl-delay-paced host
   userAgent?: string;
   maxContentLength?: number;
   followRedirects?: boolean;
-  useCorsProxy?: boolean;
+  useCorsProxy?: boolean; // fetch through proxyEndpoint instead of directly
+  proxyEndpoint?: string; // our scrape proxy (server/scrapeProxy.ts); without one there is no fallback
+  respectRobotsTxt?: boolean;
+  useCache?: boolean; // reuse pages from the shared page cache, revalidating them once they're stale
+}
+
+// Why a page didn't make it into the results; scrape errors carry it as a message prefix
+export type ScrapeSkipReason =
+  | 'robots_disallowed'
+  | 'queue_timeout'
+  | 'cors_blocked'
+  | 'timeout'
+  | 'fetch_failed'
+  | 'unsupported_content'
+  | 'error';
+
+// A page that was tried but left out, e.g. because robots.txt disallows it
+export interface SkippedSource {
+  url: string;
+  reason: ScrapeSkipReason;
+  error: string;
+}
+
+export function scrapeSkipReason(error: Error | string): ScrapeSkipReason {
+  const message = typeof error === 'string' ? error : error.message;
+  if (message.includes('ROBOTS_DISALLOWED')) return 'robots_disallowed';
+  if (message.includes('QUEUE_TIMEOUT')) return 'queue_timeout';
+  if (message.includes('CORS_BLOCKED')) return 'cors_blocked';
+  if (message.includes('Request timeout')) return 'timeout';
+  if (message.includes('FETCH_FAILED')) return 'fetch_failed';
+  if (message.includes('Unsupported content type')) return 'unsupported_content';
+  return 'error';
+}
+
+// Search APIs often leave out the byline or give dates like "3 days ago"; the scraped page's own
+// metadata (schema.org data first) fills those in. Updates the result in place, as the same
+// objects are already shared with the caller's source list.
+export function applyPageMetadata(result: SearchResult, page: ExtractedContent): SearchResult {
+  if (page.metadata.publishedAt && Number.isNaN(new Date(result.publishedAt || '').getTime())) {
+    result.publishedAt = page.metadata.publishedAt;
+  }
+  if (page.metadata.author && !result.metadata?.author) {
+    result.metadata = { ...result.metadata, author: page.metadata.author };
+  }
+  return result;
+}
+
+// A download before extraction; PDFs arrive as bytes, everything else as text
+type DocumentFetchResult =
+  | { notModified: true }
+  | { notModified: false; format: DocumentFormat; body: string | ArrayBuffer; etag?: string; lastModified?: string };
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0)).buffer;
 }
 
 export class WebScraper {
-  private contentExtractor: ContentExtractor;
+  private documentExtractor: DocumentExtractor;
+  private scheduler: RequestScheduler;
+  private pageCache: PageCache;
   private defaultOptions: ScrapingOptions = {
     timeout: 10000,
+    maxQueueMs: 5000,
     userAgent: 'Mozilla/5.0 (compatible; LiveLLMAgent/1.0)',
     maxContentLength: 50000,
     followRedirects: true,
-    useCorsProxy: false
+    useCorsProxy: false,
+    respectRobotsTxt: true,
+    useCache: true
   };
 
-  // List of domains known to have CORS issues
+  // List of domains known to have CORS issues; fetched through the proxy when one is configured
   private corsProblematicDomains = [
     'reddit.com',
     'twitter.com',
@@ -30,8 +101,19 @@ export class WebScraper {
     'academia.edu'
   ];
 
-  constructor() {
-    this.contentExtractor = new ContentExtractor();
+  constructor(
+    defaults: ScrapingOptions = {},
+    scheduler: RequestScheduler = getSharedRequestScheduler(),
+    pageCache: PageCache = getSharedPageCache()
+  ) {
+    this.documentExtractor = new DocumentExtractor();
+    this.scheduler = scheduler;
+    this.pageCache = pageCache;
+    this.defaultOptions = {
+      ...this.defaultOptions,
+      proxyEndpoint: scrapeProxyUrlFromEnv(),
+      ...defaults
+    };
   }
 
   async scrape(url: string, options: ScrapingOptions = {}): Promise<ExtractedContent> {
@@ -50,67 +132,26 @@ export class WebScraper {
         domain.includes(problematicDomain)
       );
 
-      if (hasCorsIssues) {
-        console.warn(`⚠️ Skipping ${domain} - known CORS restrictions`);
-        throw new Error(`CORS_BLOCKED: ${domain} blocks cross-origin requests`);
-      }
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
-
-      try {
-        // Try direct fetch first
-        let fetchUrl = url;
-        
-        // For some sites, try using a CORS proxy as fallback
-        if (opts.useCorsProxy) {
-          fetchUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(url)}`;
-        }
-
-        const response = await fetch(fetchUrl, {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': opts.userAgent!,
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Cache-Control': 'no-cache'
-          },
-          redirect: opts.followRedirects ? 'follow' : 'manual',
-          mode: 'cors'
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        let html: string;
-        
-        if (opts.useCorsProxy) {
-          const data = await response.json();
-          html = data.contents;
-        } else {
-          const contentType = response.headers.get('content-type') || '';
-          if (!contentType.includes('text/html')) {
-            throw new Error(`Unsupported content type: ${contentType}`);
-          }
-          html = await response.text();
-        }
-        
-        // Truncate if too long
-        if (opts.maxContentLength && html.length > opts.maxContentLength) {
-          html = html.substring(0, opts.maxContentLength);
+      if (hasCorsIssues && !opts.useCorsProxy) {
+        if (!opts.proxyEndpoint) {
+          console.warn(`⚠️ Skipping ${domain} - known CORS restrictions`);
+          throw new Error(`CORS_BLOCKED: ${domain} blocks cross-origin requests`);
         }
-
-        return await this.contentExtractor.extract(html, url);
-      } finally {
-        clearTimeout(timeoutId);
+        opts.useCorsProxy = true;
       }
+
+      const cache = opts.useCache ? this.pageCache : NO_PAGE_CACHE;
+      // Callers cut pages to different lengths, so each limit is cached on its own
+      const variant = extractionVariant({ maxContentLength: opts.maxContentLength });
+      return await cache.resolve(url, variant, conditionalHeaders => this.fetchPage(url, opts, conditionalHeaders));
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Request timeout after ${opts.timeout}ms`);
       }
+
+      if (error instanceof Error && /^(ROBOTS_DISALLOWED|QUEUE_TIMEOUT):/.test(error.message)) {
+        throw error;
+      }
       
       // Handle specific error types
       if (error instanceof Error && (error.message.includes('CORS') || error.message.includes('cors'))) {
@@ -118,8 +159,8 @@ export class WebScraper {
       }
       
       if (error instanceof Error && error.message.includes('Failed to fetch')) {
-        // Try with CORS proxy if not already tried
-        if (!opts.useCorsProxy && !this.corsProblematicDomains.some(domain => url.includes(domain))) {
+        // Try with the scrape proxy if one is configured and not already tried
+        if (!opts.useCorsProxy && opts.proxyEndpoint) {
           console.log(`🔄 Retrying ${url} with CORS proxy...`);
           try {
             return await this.scrape(url, { ...opts, useCorsProxy: true });
@@ -139,6 +180,95 @@ export class WebScraper {
     }
   }
 
+  private async fetchPage(
+    url: string,
+    opts: ScrapingOptions,
+    conditionalHeaders: Record<string, string>
+  ): Promise<PageFetchResult> {
+    // Queued behind other requests to the same host; rejects when robots.txt disallows the URL or
+    // its turn doesn't come within maxQueueMs
+    const page = await this.scheduler.schedule(url, () => this.fetchDocument(url, opts, conditionalHeaders), {
+      respectRobotsTxt: opts.respectRobotsTxt,
+      deadline: queueDeadline(opts.maxQueueMs)
+    });
+    if (page.notModified) return page;
+
+    // HTML is cut before parsing; other formats are extracted whole and their text is cut
+    let body = page.body;
+    if (page.format === 'html' && typeof body === 'string' && opts.maxContentLength && body.length > opts.maxContentLength) {
+      body = body.substring(0, opts.maxContentLength);
+    }
+
+    let content = await this.documentExtractor.extract(body, page.format, url);
+    if (page.format !== 'html' && opts.maxContentLength) {
+      content = clipContent(content, opts.maxContentLength);
+    }
+
+    return { notModified: false, content, etag: page.etag, lastModified: page.lastModified };
+  }
+
+  // The timeout starts once the scheduler lets the request go, not while it waits in the queue.
+  // The proxy keeps its own cache, so conditional headers are only sent on direct requests.
+  private async fetchDocument(
+    url: string,
+    opts: ScrapingOptions,
+    conditionalHeaders: Record<string, string>
+  ): Promise<DocumentFetchResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
+
+    try {
+      // Sites that block cross-origin reads go through our own proxy
+      const fetchUrl = opts.useCorsProxy ? buildScrapeProxyUrl(opts.proxyEndpoint!, url) : url;
+
+      const response = await fetch(fetchUrl, {
+        signal: controller.signal,
+        headers: {
+          'User-Agent': opts.userAgent!,
+          'Accept': 'text/html,application/xhtml+xml,application/pdf;q=0.9,text/plain;q=0.8,text/markdown;q=0.8,application/json;q=0.8,*/*;q=0.5',
+          'Accept-Language': 'en-US,en;q=0.5',
+          'Cache-Control': 'no-cache',
+          ...(opts.useCorsProxy ? {} : conditionalHeaders)
+        },
+        redirect: opts.followRedirects ? 'follow' : 'manual',
+        mode: 'cors'
+      });
+
+      if (opts.useCorsProxy) {
+        const data: ProxyPayload = await response.json();
+        if (!response.ok) {
+          throw new Error(`Proxy HTTP ${response.status}: ${data.error || response.statusText}`);
+        }
+        const format = documentFormat(data.contentType, url);
+        if (!format) {
+          throw new Error(`Unsupported content type: ${data.contentType}`);
+        }
+        const body = data.encoding === 'base64' ? base64ToArrayBuffer(data.contents || '') : data.contents || '';
+        return { notModified: false, format, body };
+      }
+
+      if (response.status === 304 && Object.keys(conditionalHeaders).length > 0) {
+        return { notModified: true };
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const format = documentFormat(contentType, response.url || url);
+      if (!format) {
+        throw new Error(`Unsupported content type: ${contentType}`);
+      }
+
+      const body = format === 'pdf' ? await response.arrayBuffer() : await response.text();
+      return { notModified: false, format, body, ...cacheValidators(response.headers) };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // The shared scheduler paces these per host, so they can all be handed over at once
   async scrapeMultiple(urls: string[], options: ScrapingOptions = {}): Promise<(ExtractedContent | Error)[]> {
     const promises = urls.map(url => 
       Promise.resolve().then(async () => {
@@ -176,11 +306,11 @@ export class WebScraper {
     }
   }
 
-  // Get scrapeable URLs from a list (filters out problematic ones)
+  // Get scrapeable URLs from a list (filters out problematic ones unless the proxy can fetch them)
   filterScrapeableUrls(urls: string[]): string[] {
     return urls.filter(url => {
       if (!this.isValidUrl(url)) return false;
-      if (this.hasCorsIssues(url)) {
+      if (this.hasCorsIssues(url) && !this.defaultOptions.proxyEndpoint) {
         console.warn(`⚠️ Filtering out ${url} - known CORS issues`);
         return false;
       }
@@ -1,7 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../types/supabase';
 import { HonigService } from './honigService';
+import type { HonigEvent, HonigQueryOptions } from './honig/honigEngine';
 import { messageAutomationService } from './connections/messageAutomation';
+import { llmRouter } from './llm/registry';
 
 // Get environment variables and clean them - with fallbacks for deployment
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim() || 'https://placeholder.supabase.co';
@@ -102,13 +104,10 @@ async function getGeminiResponseWithContext(message: string, conversationHistory
       console.warn('Automation processing failed, continuing with normal response:', automationError);
     }
     
-    // Validate API key first
-    const geminiKey = validateGeminiApiKey();
-
-    // Dynamic import to avoid build issues
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    const genAI = new GoogleGenerativeAI(geminiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    // No provider registered: surface the Gemini key setup errors below
+    if (!llmRouter.hasProviders()) {
+      validateGeminiApiKey();
+    }
 
     // **KEY FIX: Isolate file context to only the most recent file analysis**
     const relevantContext = getRelevantFileContext(message, conversationHistory);
@@ -191,9 +190,7 @@ You can help users send automated messages through connected apps:
 
 Analyze the relevant context and provide a response to the current query:`;
 
-    const result = await model.generateContent([contextPrompt]);
-    const response = await result.response;
-    return response.text();
+    return await llmRouter.complete(contextPrompt);
 
   } catch (error) {
     console.error('💥 Contextual Gemini processing failed:', error);
@@ -298,7 +295,12 @@ function getRelevantFileContext(message: string, conversationHistory: any[]): an
 }
 
 // **ENHANCED: Main response function with ISOLATED file context and automation support**
-export async function getResponse(message: string, conversationHistory: any[] = []): Promise<string> {
+export async function getResponse(
+  message: string,
+  conversationHistory: any[] = [],
+  onProgress?: (event: HonigEvent) => void,
+  options: HonigQueryOptions = {}
+): Promise<string> {
   try {
     console.log('🤖 Processing query with ISOLATED file context and automation support...');
     console.log(`📚 Total conversation history: ${conversationHistory.length} messages`);
@@ -312,19 +314,20 @@ export async function getResponse(message: string, conversationHistory: any[] =
         return await getGeminiResponseWithContext(message, conversationHistory);
       }
       
-      // Determine if query should use Honig (for web search) or contextual Gemini (for follow-ups)
+      // Determine if query should use Honig (for web search) or contextual Gemini (for file follow-ups)
       const shouldUseHonig = HonigService.shouldUseHonig(message);
       const isFollowUpQuery = isFollowUpBasedOnContext(message, conversationHistory);
       
-      // **KEY FEATURE: Use contextual Gemini with file isolation for follow-up queries**
-      if (isFollowUpQuery || !shouldUseHonig) {
+      // **KEY FEATURE: Use contextual Gemini with file isolation for follow-ups about an uploaded file**
+      // Deep research was asked for explicitly, so it overrides the web-search heuristic
+      if (isFollowUpQuery || (!shouldUseHonig && !options.deepResearch)) {
         console.log('📝 Using contextual Gemini with ISOLATED file context for follow-up/contextual query');
         return await getGeminiResponseWithContext(message, conversationHistory);
       }
       
-      // Use Honig for web search queries
-      console.log('🔍 Using Honig for web search query');
-      const result = await honigService.processQuery(message);
+      // Use Honig for web search queries; other follow-ups are rewritten into standalone searches
+      console.log(options.deepResearch ? '🔬 Using Honig deep research' : '🔍 Using Honig for web search query');
+      const result = await honigService.processQuery(message, conversationHistory, onProgress, options);
       
       console.log('✅ Honig processing completed:', {
         queryType: result.metadata.queryType,
@@ -355,7 +358,8 @@ export async function getResponse(message: string, conversationHistory: any[] =
   }
 }
 
-// **UPDATED: Function to detect follow-up queries based on conversation context**
+// Detects follow-ups about an uploaded file: the web can't see the file, so these stay with the
+// contextual model. Other follow-ups go through Honig, which rewrites them using the conversation.
 function isFollowUpBasedOnContext(message: string, conversationHistory: any[]): boolean {
   const messageLower = message.toLowerCase().trim();
   
@@ -394,15 +398,10 @@ function isFollowUpBasedOnContext(message: string, conversationHistory: any[]):
   
   const isFollowUpPattern = followUpIndicators.some(pattern => pattern.test(messageLower));
   
-  // Check if there's relevant previous content (like file analysis)
+  // Only file analysis counts as relevant previous content
   const hasRelevantContext = conversationHistory.some(msg => 
-    msg.role === 'assistant' && (
-      msg.content.includes('questions') ||
-      msg.content.includes('problems') ||
-      msg.content.includes('Table') ||
-      msg.content.includes('extracted') ||
-      msg.metadata?.fromFileAnalysis
-    )
+    msg.metadata?.fromFileAnalysis ||
+    msg.content.startsWith("I've analyzed your file")
   );
   
   const isFollowUp = isFollowUpPattern && hasRelevantContext;
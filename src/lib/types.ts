@@ -8,6 +8,7 @@ export interface SearchResult {
   publishedAt?: string;
   searchQuery?: string;
   retrievedAt?: string;
+  content?: string; // full text supplied by the source itself; used instead of scraping the page
   metadata?: {
     author?: string;
     sourceName?: string;
@@ -18,13 +19,48 @@ export interface SearchResult {
     attributes?: any;
     category?: string;
     scrapedAt?: string;
+    // Bibliographic fields from the academic adapters
+    authors?: string[];
+    year?: number;
+    doi?: string;
+    venue?: string;
+    abstract?: string;
+    citationCount?: number;
+    pdfUrl?: string;
+    externalIds?: Record<string, string>; // e.g. arXiv, PubMed, Semantic Scholar ids
+    // Community signals from the Q&A and discussion adapters
+    score?: number; // question votes or story points
+    accepted?: boolean; // has an accepted answer
+    answerCount?: number;
+    commentCount?: number;
+    tags?: string[];
+    // Wikipedia articles
+    language?: string; // edition the article came from
+    infobox?: Record<string, string>;
+    sections?: string[]; // section titles of the whole article
   };
 }
 
+export interface LLMAttachment {
+  mimeType: string;
+  data: string; // base64, without the data: URL prefix
+}
+
+export interface LLMGenerationOptions {
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  systemPrompt?: string;
+  attachments?: LLMAttachment[];
+}
+
 export interface LLMProvider {
   name: string;
-  generateResponse(prompt: string, context?: string): Promise<string>;
+  generateResponse(prompt: string, context?: string, options?: LLMGenerationOptions): Promise<string>;
+  generateStreamingResponse?(prompt: string, context?: string, options?: LLMGenerationOptions): Promise<AsyncIterable<string>>;
+  defaultModel?: string;
   supportsStreaming?: boolean;
+  supportsAttachments?: boolean;
   maxTokens?: number;
   costPerToken?: number;
 }
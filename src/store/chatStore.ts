@@ -1,6 +1,11 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase, getResponse, logQuery } from '../lib/supabase';
+import { HonigService } from '../lib/honigService';
+import type { HonigEvent, HonigQueryOptions, HonigStage } from '../lib/honig/honigEngine';
+import type { CitationReport } from '../lib/rag/citationEngine';
+import type { ClaimVerificationReport } from '../lib/honig/claimVerifier';
+import type { ResearchTrail } from '../lib/honig/researchPlanner';
 
 export type Message = {
   id: string;
@@ -10,6 +15,13 @@ export type Message = {
   sources?: any[];
   note?: string;
   isLoading?: boolean;
+  progress?: {
+    stage: HonigStage;
+    sourcesFound?: number;
+    pagesScraped?: number;
+    researchRound?: number;
+    maxResearchRounds?: number;
+  };
   fromCache?: boolean;
   metadata?: {
     queryType?: string;
@@ -22,12 +34,17 @@ export type Message = {
     confidence?: number;
     databaseUsed?: boolean;
     databaseSource?: string;
+    citations?: CitationReport;
+    verification?: ClaimVerificationReport;
+    research?: ResearchTrail;
     processingStages?: {
       databaseCheck?: number;
       queryProcessing?: number;
       sourceRetrieval?: number;
       contentScraping?: number;
       synthesis?: number;
+      verification?: number;
+      research?: number;
       total: number;
     };
   };
@@ -49,7 +66,7 @@ type ChatState = {
   isGuestMode: boolean;
   
   // Actions
-  sendMessage: (content: string) => Promise<void>;
+  sendMessage: (content: string, options?: HonigQueryOptions) => Promise<void>;
   loadConversations: () => Promise<void>;
   clearConversation: () => Promise<void>;
   setUserId: (id: string | null) => void;
@@ -60,6 +77,52 @@ type ChatState = {
   getConversationHistory: () => Message[];
 };
 
+// Folds a streamed Honig event into the loading assistant message
+function applyHonigEvent(message: Message, event: HonigEvent): Message {
+  switch (event.type) {
+    case 'stage_start':
+      return { ...message, progress: { ...message.progress, stage: event.stage } };
+    case 'sources_found':
+      return message.progress
+        ? { ...message, progress: { ...message.progress, sourcesFound: event.sources.length } }
+        : message;
+    case 'pages_scraped':
+      return message.progress
+        ? { ...message, progress: { ...message.progress, pagesScraped: event.scraped } }
+        : message;
+    case 'research_round':
+      return {
+        ...message,
+        progress: {
+          ...message.progress,
+          stage: message.progress?.stage ?? 'sourceRetrieval',
+          researchRound: event.round,
+          maxResearchRounds: event.maxRounds
+        }
+      };
+    case 'token':
+      return { ...message, content: message.content + event.text };
+    case 'complete':
+      return {
+        ...message,
+        sources: HonigService.formatSources(event.response.sources),
+        metadata: {
+          ...message.metadata,
+          queryType: event.response.metadata.queryType,
+          confidence: event.response.metadata.confidence,
+          databaseUsed: event.response.metadata.databaseUsed,
+          databaseSource: event.response.metadata.databaseSource,
+          processingStages: event.response.metadata.processingStages,
+          citations: event.response.metadata.citations,
+          verification: event.response.metadata.verification,
+          research: event.response.metadata.research
+        }
+      };
+    default:
+      return message;
+  }
+}
+
 export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   conversations: [],
@@ -75,7 +138,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
     return messages.filter(msg => !msg.isLoading && msg.content.trim() !== '');
   },
 
-  sendMessage: async (content: string) => {
+  sendMessage: async (content: string, options: HonigQueryOptions = {}) => {
     if (!content.trim()) return;
 
     const userMessageId = uuidv4();
@@ -186,7 +249,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
       // Get response with FULL conversation context
       const startTime = Date.now();
-      const assistantResponse = await getResponse(content, conversationHistory);
+      const assistantResponse = await getResponse(content, conversationHistory, event => {
+        set(state => ({
+          messages: state.messages.map(msg =>
+            msg.id === assistantMessageId ? applyHonigEvent(msg, event) : msg
+          )
+        }));
+      }, options);
       const processingTime = Date.now() - startTime;
 
       console.log(`✅ Response generated with conversation context in ${processingTime}ms`);
@@ -199,7 +268,9 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 ...msg,
                 content: assistantResponse,
                 isLoading: false,
+                progress: undefined,
                 metadata: {
+                  ...msg.metadata,
                   processingTime,
                   fromHonig: true,
                   hasContext: conversationHistory.length > 0,
@@ -254,6 +325,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 ...msg,
                 content: errorMessage,
                 isLoading: false,
+                progress: undefined,
                 metadata: {
                   error: error instanceof Error ? error.message : String(error),
                   processingTime: 0
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase, getResponse, safeDbOperation, testDatabaseConnection } from '../lib/optimizedSupabase';
+import type { HonigEvent, HonigStage } from '../lib/honig/honigEngine';
 
 export type Message = {
   id: string;
@@ -10,6 +11,11 @@ export type Message = {
   sources?: any[];
   note?: string;
   isLoading?: boolean;
+  progress?: {
+    stage: HonigStage;
+    sourcesFound?: number;
+    pagesScraped?: number;
+  };
   fromCache?: boolean;
   metadata?: {
     queryType?: string;
@@ -26,6 +32,8 @@ export type Message = {
       sourceRetrieval?: number;
       contentScraping?: number;
       synthesis?: number;
+      verification?: number;
+      research?: number;
       total: number;
     };
   };
@@ -62,6 +70,26 @@ type ChatState = {
   getConversationHistory: () => Message[];
 };
 
+// Folds a streamed Honig event into the loading assistant message
+function applyHonigEvent(message: Message, event: HonigEvent): Message {
+  switch (event.type) {
+    case 'stage_start':
+      return { ...message, progress: { ...message.progress, stage: event.stage } };
+    case 'sources_found':
+      return message.progress
+        ? { ...message, progress: { ...message.progress, sourcesFound: event.sources.length } }
+        : message;
+    case 'pages_scraped':
+      return message.progress
+        ? { ...message, progress: { ...message.progress, pagesScraped: event.scraped } }
+        : message;
+    case 'token':
+      return { ...message, content: message.content + event.text };
+    default:
+      return message;
+  }
+}
+
 export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   conversations: [],
@@ -203,7 +231,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
       console.log('📝 Recent context:', conversationHistory.slice(-4).map(m => `${m.role}: ${m.content.substring(0, 100)}...`));
       
       // Get response with FULL conversation context
-      const assistantResponse = await getResponse(content, conversationHistory);
+      const assistantResponse = await getResponse(content, conversationHistory, event => {
+        set(state => ({
+          messages: state.messages.map(msg =>
+            msg.id === assistantMessageId ? applyHonigEvent(msg, event) : msg
+          )
+        }));
+      });
       const processingTime = Date.now() - startTime;
 
       console.log(`⚡ Response generated in ${processingTime}ms with full context`);
@@ -216,6 +250,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 ...msg,
                 content: assistantResponse,
                 isLoading: false,
+                progress: undefined,
                 metadata: {
                   processingTime,
                   fromHonig: true,
@@ -289,6 +324,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 ...msg,
                 content: errorMessage,
                 isLoading: false,
+                progress: undefined,
                 metadata: {
                   error: error instanceof Error ? error.message : String(error),
                   processingTime: 0
@@ -16,6 +16,7 @@ export interface Database {
           trigger_type: string
           trigger_words: string[]
           response_text: string
+          search_vector: unknown | null
         }
         Insert: {
           id?: string
@@ -87,6 +88,152 @@ export interface Database {
           avatar_url?: string | null
         }
       }
+      documents: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          url: string
+          title: string | null
+          source_type: string
+          source_name: string | null
+          category: string | null
+          published_at: string | null
+          scraped_at: string
+          content_hash: string
+          chunk_count: number
+          metadata: Json
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          url: string
+          title?: string | null
+          source_type?: string
+          source_name?: string | null
+          category?: string | null
+          published_at?: string | null
+          scraped_at?: string
+          content_hash: string
+          chunk_count?: number
+          metadata?: Json
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          url?: string
+          title?: string | null
+          source_type?: string
+          source_name?: string | null
+          category?: string | null
+          published_at?: string | null
+          scraped_at?: string
+          content_hash?: string
+          chunk_count?: number
+          metadata?: Json
+        }
+      }
+      document_chunks: {
+        Row: {
+          id: string
+          created_at: string
+          document_id: string
+          chunk_index: number
+          content: string
+          start_offset: number | null
+          end_offset: number | null
+          embedding: string | null
+          embedding_model: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          document_id: string
+          chunk_index: number
+          content: string
+          start_offset?: number | null
+          end_offset?: number | null
+          embedding?: string | null
+          embedding_model?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          document_id?: string
+          chunk_index?: number
+          content?: string
+          start_offset?: number | null
+          end_offset?: number | null
+          embedding?: string | null
+          embedding_model?: string | null
+        }
+      }
+      categories: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          name: string
+          description: string
+          keywords: string[]
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          name: string
+          description?: string
+          keywords?: string[]
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          name?: string
+          description?: string
+          keywords?: string[]
+        }
+      }
+      category_sources: {
+        Row: {
+          id: string
+          created_at: string
+          category_id: string
+          name: string
+          url: string
+          feed_url: string | null
+          selectors: Json
+          priority: number
+          update_frequency: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          category_id: string
+          name: string
+          url: string
+          feed_url?: string | null
+          selectors?: Json
+          priority?: number
+          update_frequency?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          category_id?: string
+          name?: string
+          url?: string
+          feed_url?: string | null
+          selectors?: Json
+          priority?: number
+          update_frequency?: string | null
+        }
+      }
     }
     Functions: {
       get_cached_query: {
@@ -102,6 +249,61 @@ export interface Database {
           sources: Json
         }[]
       }
+      search_responses: {
+        Args: {
+          search_query: string
+          match_count?: number
+        }
+        Returns: {
+          id: string
+          created_at: string
+          trigger_type: string
+          trigger_words: string[]
+          response_text: string
+          rank: number
+        }[]
+      }
+      ingest_document: {
+        Args: {
+          new_document: Json
+          new_chunks: Json
+        }
+        Returns: string
+      }
+      refresh_document: {
+        Args: {
+          document_url: string
+          document_hash: string
+        }
+        Returns: boolean | null
+      }
+      match_document_chunks: {
+        Args: {
+          query_embedding: string
+          model_name: string
+          match_count?: number
+          min_similarity?: number
+          freshness_hours?: Json
+          default_freshness_hours?: number
+        }
+        Returns: {
+          chunk_id: string
+          document_id: string
+          url: string
+          title: string | null
+          source_type: string
+          source_name: string | null
+          category: string | null
+          published_at: string | null
+          scraped_at: string
+          chunk_count: number
+          chunk_index: number
+          content: string
+          start_offset: number | null
+          end_offset: number | null
+          similarity: number
+        }[]
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,254 @@
+/*
+  # Persistent vector store for scraped documents
+
+  1. Enable the pgvector extension
+  2. Create `documents` table (one row per user and scraped URL, with source type and content hash)
+  3. Create `document_chunks` table with 768-dimension embeddings (Gemini text-embedding-004, nomic-embed-text)
+  4. Add `match_document_chunks` function for cosine-similarity retrieval with per-source-type freshness windows
+  5. RLS: users read only the documents they stored; there are no write policies
+  6. Add `ingest_document` and `refresh_document`, the only way to write: they validate their input,
+     replace a document's chunks in one transaction and only touch the calling user's documents,
+     so no one can change the text another user is answered from
+*/
+
+-- Enable pgvector
+create extension if not exists vector with schema extensions;
+
+-- Create documents table
+create table public.documents (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default now(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  url text not null,
+  title text,
+  source_type text not null default 'web',
+  source_name text,
+  category text,
+  published_at timestamp with time zone,
+  scraped_at timestamp with time zone not null default now(),
+  content_hash text not null,
+  chunk_count integer not null default 0,
+  metadata jsonb default '{}'::jsonb,
+  unique (user_id, url)
+);
+
+-- Create document_chunks table
+create table public.document_chunks (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default now(),
+  document_id uuid not null references public.documents(id) on delete cascade,
+  chunk_index integer not null,
+  content text not null,
+  start_offset integer,
+  end_offset integer,
+  embedding extensions.vector(768),
+  embedding_model text,
+  unique (document_id, chunk_index)
+);
+
+-- Indexes
+create index idx_documents_user_id_source_type on public.documents (user_id, source_type, scraped_at desc);
+create index idx_document_chunks_document_id on public.document_chunks (document_id);
+create index idx_document_chunks_embedding on public.document_chunks
+  using hnsw (embedding extensions.vector_cosine_ops);
+
+-- Enable RLS
+alter table public.documents enable row level security;
+alter table public.document_chunks enable row level security;
+
+create policy "Users can read own documents"
+  on public.documents for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can read own document chunks"
+  on public.document_chunks for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.documents d where d.id = document_id and d.user_id = auth.uid()
+    )
+  );
+
+-- Nearest chunks among the caller's documents to a query embedding, skipping documents older than their source type's
+-- freshness window (e.g. {"news": 6, "wikipedia": 504} in hours)
+create or replace function public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  model_name text,
+  match_count integer default 12,
+  min_similarity double precision default 0.5,
+  freshness_hours jsonb default '{}'::jsonb,
+  default_freshness_hours integer default 72
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  url text,
+  title text,
+  source_type text,
+  source_name text,
+  category text,
+  published_at timestamptz,
+  scraped_at timestamptz,
+  chunk_count integer,
+  chunk_index integer,
+  content text,
+  start_offset integer,
+  end_offset integer,
+  similarity double precision
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select
+    c.id,
+    d.id,
+    d.url,
+    d.title,
+    d.source_type,
+    d.source_name,
+    d.category,
+    d.published_at,
+    d.scraped_at,
+    d.chunk_count,
+    c.chunk_index,
+    c.content,
+    c.start_offset,
+    c.end_offset,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from
+    document_chunks c
+    join documents d on d.id = c.document_id
+  where
+    d.user_id = auth.uid()
+    and c.embedding is not null
+    and c.embedding_model = model_name
+    and d.scraped_at >= now() - make_interval(
+      hours => coalesce((freshness_hours ->> d.source_type)::integer, default_freshness_hours)
+    )
+    and 1 - (c.embedding <=> query_embedding) >= min_similarity
+  order by
+    c.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- Stores a scraped document for the calling user with its chunks, replacing any chunks that user's
+-- copy had. Runs as one transaction, so a rejected chunk leaves the previous version (hash, chunk
+-- count and chunks) in place. Other users' copies of the same URL are never touched.
+-- new_document: {url, title, source_type, source_name, category, published_at, content_hash}
+-- new_chunks: [{chunk_index, content, start_offset, end_offset, embedding, embedding_model}]
+create or replace function public.ingest_document(new_document jsonb, new_chunks jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  owner uuid := auth.uid();
+  document_url text := new_document ->> 'url';
+  chunk_total integer;
+  published timestamptz;
+  stored_id uuid;
+begin
+  if owner is null then
+    raise exception 'ingest_document: sign in to store documents';
+  end if;
+  if document_url is null or document_url !~ '^https?://' or length(document_url) > 2048 then
+    raise exception 'ingest_document: invalid url';
+  end if;
+  if coalesce(new_document ->> 'source_type', '') not in ('news', 'web', 'knowledge', 'wikipedia', 'academic', 'category') then
+    raise exception 'ingest_document: invalid source type';
+  end if;
+  if coalesce(new_document ->> 'content_hash', '') !~ '^[0-9a-f]{8,64}$' then
+    raise exception 'ingest_document: invalid content hash';
+  end if;
+  if jsonb_typeof(new_chunks) is distinct from 'array' then
+    raise exception 'ingest_document: chunks must be an array';
+  end if;
+
+  chunk_total := jsonb_array_length(new_chunks);
+  if chunk_total = 0 or chunk_total > 500 then
+    raise exception 'ingest_document: expected 1 to 500 chunks, got %', chunk_total;
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(new_chunks) c
+    where
+      coalesce(length(c ->> 'content'), 0) not between 1 and 20000
+      or (c ->> 'chunk_index') is null
+      or (
+        jsonb_typeof(c -> 'embedding') = 'array'
+        and (jsonb_array_length(c -> 'embedding') <> 768 or coalesce(c ->> 'embedding_model', '') = '')
+      )
+  ) then
+    raise exception 'ingest_document: invalid chunk (empty, too long, or not a 768-dimension embedding)';
+  end if;
+
+  -- A date that isn't one (e.g. "3 days ago" from a search API) is dropped rather than failing the page
+  begin
+    published := (new_document ->> 'published_at')::timestamptz;
+  exception when invalid_datetime_format or datetime_field_overflow then
+    published := null;
+  end;
+
+  insert into documents (user_id, url, title, source_type, source_name, category, published_at, scraped_at, content_hash, chunk_count)
+  values (
+    owner,
+    document_url,
+    left(new_document ->> 'title', 1000),
+    new_document ->> 'source_type',
+    left(new_document ->> 'source_name', 200),
+    left(new_document ->> 'category', 100),
+    published,
+    now(),
+    new_document ->> 'content_hash',
+    chunk_total
+  )
+  on conflict (user_id, url) do update set
+    title = excluded.title,
+    source_type = excluded.source_type,
+    source_name = excluded.source_name,
+    category = excluded.category,
+    published_at = excluded.published_at,
+    scraped_at = excluded.scraped_at,
+    content_hash = excluded.content_hash,
+    chunk_count = excluded.chunk_count
+  returning id into stored_id;
+
+  delete from document_chunks where document_id = stored_id;
+
+  insert into document_chunks (document_id, chunk_index, content, start_offset, end_offset, embedding, embedding_model)
+  select
+    stored_id,
+    (c ->> 'chunk_index')::integer,
+    c ->> 'content',
+    (c ->> 'start_offset')::integer,
+    (c ->> 'end_offset')::integer,
+    case when jsonb_typeof(c -> 'embedding') = 'array' then (c -> 'embedding')::text::extensions.vector(768) end,
+    case when jsonb_typeof(c -> 'embedding') = 'array' then c ->> 'embedding_model' end
+  from
+    jsonb_array_elements(new_chunks) c;
+
+  return stored_id;
+end;
+$$;
+
+-- Marks the caller's unchanged, fully stored copy of a document as freshly scraped
+create or replace function public.refresh_document(document_url text, document_hash text)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  update documents
+  set scraped_at = now()
+  where user_id = auth.uid() and url = document_url and content_hash = document_hash and chunk_count > 0
+  returning true;
+$$;
+
+revoke execute on function public.ingest_document(jsonb, jsonb) from public, anon;
+revoke execute on function public.refresh_document(text, text) from public, anon;
+grant execute on function public.ingest_document(jsonb, jsonb) to authenticated, service_role;
+grant execute on function public.refresh_document(text, text) to authenticated, service_role;
@@ -0,0 +1,78 @@
+/*
+  # Ranked full-text search over the responses knowledge base
+
+  1. Add a generated `search_vector` column to `responses`
+     - trigger words (weight A) and trigger type (weight B) use the `simple` config so short
+       stopword-only triggers like "who are you" stay searchable
+     - response text (weight C) uses the `english` config
+  2. GIN index on `search_vector`
+  3. `search_responses` function returning the top-k candidates with a rank, so the client
+     no longer downloads the whole table on every query; it runs with the caller's rights, as
+     `responses` is readable by everyone
+*/
+
+-- array_to_string is only STABLE, generated columns need an IMMUTABLE expression
+create or replace function public.responses_trigger_text(trigger_words text[])
+returns text
+language sql
+immutable
+as $$
+  select array_to_string(trigger_words, ' ');
+$$;
+
+alter table public.responses
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple', public.responses_trigger_text(trigger_words)), 'A') ||
+    setweight(to_tsvector('simple', coalesce(trigger_type, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(response_text, '')), 'C')
+  ) stored;
+
+create index if not exists idx_responses_search_vector on public.responses using gin (search_vector);
+
+-- Any-term match (OR) so partial phrasings still surface candidates; the client re-ranks them
+create or replace function public.search_responses(
+  search_query text,
+  match_count integer default 20
+)
+returns table (
+  id uuid,
+  created_at timestamptz,
+  trigger_type text,
+  trigger_words text[],
+  response_text text,
+  rank real
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  normalized_query text := lower(trim(search_query));
+  ts_query tsquery;
+begin
+  ts_query :=
+    replace(plainto_tsquery('simple', normalized_query)::text, ' & ', ' | ')::tsquery ||
+    replace(plainto_tsquery('english', normalized_query)::text, ' & ', ' | ')::tsquery;
+
+  return query
+  select
+    r.id,
+    r.created_at,
+    r.trigger_type,
+    r.trigger_words,
+    r.response_text,
+    (
+      ts_rank_cd(r.search_vector, ts_query, 32) +
+      case when r.trigger_words @> array[normalized_query] then 1 else 0 end
+    )::real as rank
+  from
+    responses r
+  where
+    r.search_vector @@ ts_query
+    or r.trigger_words @> array[normalized_query]
+  order by
+    rank desc
+  limit match_count;
+end;
+$$;
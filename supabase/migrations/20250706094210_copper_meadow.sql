@@ -0,0 +1,82 @@
+/*
+  # User-defined categories and their sources
+
+  1. `categories`: a user's own topic categories with the keywords that route queries to them
+     - names are unique per user; a name matching a built-in category (e.g. "technology")
+       extends that category instead of replacing it
+  2. `category_sources`: the sites searched for a category, with an optional RSS/Atom feed URL
+     and CSS selectors (`title`, `content`, `article`) for extracting their pages
+  3. RLS: users manage only their own categories; sources follow their category's owner
+*/
+
+create table public.categories (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text not null default '',
+  keywords text[] not null default '{}',
+  unique (user_id, name)
+);
+
+create table public.category_sources (
+  id uuid default gen_random_uuid() primary key,
+  created_at timestamp with time zone default now(),
+  category_id uuid not null references public.categories(id) on delete cascade,
+  name text not null,
+  url text not null check (url ~* '^https?://'),
+  feed_url text check (feed_url is null or feed_url ~* '^https?://'),
+  selectors jsonb not null default '{}'::jsonb,
+  priority integer not null default 5 check (priority between 1 and 10),
+  update_frequency text check (update_frequency in ('daily', 'weekly', 'monthly')),
+  unique (category_id, url)
+);
+
+-- Indexes
+create index idx_categories_user_id on public.categories (user_id);
+create index idx_category_sources_category_id on public.category_sources (category_id);
+
+-- Enable RLS
+alter table public.categories enable row level security;
+alter table public.category_sources enable row level security;
+
+create policy "Users can view their own categories"
+  on public.categories for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own categories"
+  on public.categories for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own categories"
+  on public.categories for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own categories"
+  on public.categories for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view sources of their categories"
+  on public.category_sources for select
+  using (exists (
+    select 1 from public.categories c where c.id = category_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users can add sources to their categories"
+  on public.category_sources for insert
+  with check (exists (
+    select 1 from public.categories c where c.id = category_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users can update sources of their categories"
+  on public.category_sources for update
+  using (exists (
+    select 1 from public.categories c where c.id = category_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users can delete sources of their categories"
+  on public.category_sources for delete
+  using (exists (
+    select 1 from public.categories c where c.id = category_id and c.user_id = auth.uid()
+  ));